@@ -0,0 +1,366 @@
+/**
+ * tmp serve 提供的 HTTP API 的 OpenAPI 描述，由 GET /openapi.json 返回
+ * 修改 server.ts 中的路由时需要同步修改
+ */
+
+const json = (schema: object) => ({
+  content: { "application/json": { schema } },
+});
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({
+  description,
+  ...json(ref("ErrorResponse")),
+});
+
+const pathParam = (name: string, description: string) => ({
+  name,
+  in: "path",
+  required: true,
+  description,
+  schema: { type: "string" },
+});
+
+const queryParam = (name: string, description: string, type = "string") => ({
+  name,
+  in: "query",
+  required: false,
+  description,
+  schema: { type },
+});
+
+const serverId = pathParam("id", "Server ID");
+
+export const openApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "Too Many Plugins API",
+    version: "1.0.0",
+    description:
+      "Local HTTP API over plugin libraries and servers. All endpoints except /openapi.json require a bearer token.",
+  },
+  security: [{ bearerAuth: [] }],
+  paths: {
+    "/openapi.json": {
+      get: {
+        summary: "This document",
+        security: [],
+        responses: { "200": { description: "OpenAPI document" } },
+      },
+    },
+    "/libraries": {
+      get: {
+        summary: "List libraries",
+        responses: {
+          "200": {
+            description: "Libraries without their plugins",
+            ...json({ type: "array", items: ref("LibrarySummary") }),
+          },
+          "401": errorResponse("Missing or invalid token"),
+        },
+      },
+    },
+    "/libraries/{id}/plugins": {
+      get: {
+        summary: "List the plugins indexed in a library",
+        parameters: [pathParam("id", "Library ID")],
+        responses: {
+          "200": {
+            description: "Plugins",
+            ...json({ type: "array", items: ref("PluginEntry") }),
+          },
+          "404": errorResponse("Library not found"),
+        },
+      },
+    },
+    "/plugins": {
+      get: {
+        summary: "Search plugins in all libraries",
+        parameters: [
+          queryParam("name", "Plugin name, case-insensitive substring"),
+          queryParam("version", 'Version or range, e.g. "^2.3"'),
+          queryParam("platform", "Only plugins that run on this platform"),
+          queryParam(
+            "gameVersion",
+            "Only plugins whose api-version supports this Minecraft version"
+          ),
+          queryParam("library", "Only search this library"),
+          queryParam(
+            "latest",
+            "Only the latest version of each plugin",
+            "boolean"
+          ),
+          queryParam(
+            "snapshots",
+            "Include SNAPSHOT versions in range matches",
+            "boolean"
+          ),
+        ],
+        responses: {
+          "200": {
+            description: "Matching plugins",
+            ...json({ type: "array", items: ref("PluginEntry") }),
+          },
+          "400": errorResponse("Invalid version range"),
+        },
+      },
+    },
+    "/plugins/{hash}/download": {
+      get: {
+        summary: "Download a library jar by its SHA-256",
+        parameters: [pathParam("hash", "SHA-256 of the jar")],
+        responses: {
+          "200": {
+            description: "The jar",
+            content: {
+              "application/java-archive": {
+                schema: { type: "string", format: "binary" },
+              },
+            },
+          },
+          "404": errorResponse("No library contains this jar"),
+        },
+      },
+    },
+    "/servers": {
+      get: {
+        summary: "List servers",
+        responses: {
+          "200": {
+            description: "Servers",
+            ...json({ type: "array", items: ref("ServerEntry") }),
+          },
+        },
+      },
+    },
+    "/servers/{id}": {
+      get: {
+        summary: "Get a server",
+        parameters: [serverId],
+        responses: {
+          "200": { description: "Server", ...json(ref("ServerEntry")) },
+          "404": errorResponse("Server not found"),
+        },
+      },
+    },
+    "/servers/{id}/plugins": {
+      get: {
+        summary: "List the plugins installed on a server",
+        parameters: [serverId],
+        responses: {
+          "200": {
+            description: "Installed plugins",
+            ...json({ type: "array", items: ref("PluginEntry") }),
+          },
+          "404": errorResponse("Server not found"),
+        },
+      },
+      post: {
+        summary: "Install a plugin from the libraries",
+        description:
+          "Selects the plugin for the server's platform and Minecraft version and installs it with its required dependencies. Either version or latest is required.",
+        parameters: [serverId],
+        requestBody: {
+          required: true,
+          ...json({
+            type: "object",
+            required: ["name"],
+            properties: {
+              name: { type: "string" },
+              version: { type: "string", description: "Version or range" },
+              latest: { type: "boolean" },
+              snapshots: { type: "boolean" },
+              library: { type: "string" },
+              deps: { type: "boolean", default: true },
+              force: {
+                type: "boolean",
+                description:
+                  "Ignore the server's Minecraft version and uncertain or incompatible platforms",
+              },
+              ignoreAdvisories: {
+                type: "boolean",
+                description: "Install even if blocked by a security advisory",
+              },
+            },
+          }),
+        },
+        responses: {
+          "200": {
+            description: "Installed plugins, dependencies first",
+            ...json({
+              type: "object",
+              properties: {
+                server: ref("ServerEntry"),
+                installed: { type: "array", items: ref("PluginEntry") },
+              },
+            }),
+          },
+          "400": errorResponse("Invalid request"),
+          "404": errorResponse("Server not found"),
+          "422": errorResponse(
+            "No matching, ambiguous or incompatible plugin, unresolved dependencies, or blocked by a security advisory"
+          ),
+        },
+      },
+    },
+    "/servers/{id}/plugins/{name}": {
+      delete: {
+        summary: "Remove a plugin from a server",
+        parameters: [
+          serverId,
+          pathParam("name", "Plugin name"),
+          {
+            ...queryParam("data", "What to do with the plugin's data folder"),
+            schema: {
+              type: "string",
+              enum: ["keep", "archive", "purge"],
+              default: "keep",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Removed",
+            ...json({
+              type: "object",
+              properties: {
+                serverId: { type: "string" },
+                removed: { type: "string" },
+              },
+            }),
+          },
+          "404": errorResponse("Server or plugin not found"),
+        },
+      },
+    },
+    "/servers/{id}/sync": {
+      post: {
+        summary: "Sync a server with its tmp.yml manifest",
+        parameters: [serverId],
+        requestBody: {
+          required: false,
+          ...json({
+            type: "object",
+            properties: {
+              dryRun: { type: "boolean" },
+              update: { type: "boolean" },
+              frozenLockfile: { type: "boolean" },
+              ignoreAdvisories: { type: "boolean" },
+            },
+          }),
+        },
+        responses: {
+          "200": { description: "Sync result", ...json(ref("SyncResult")) },
+          "404": errorResponse("Server not found"),
+          "409": errorResponse("Lockfile is out of date"),
+          "422": errorResponse(
+            "Missing or invalid manifest or lockfile, or a plugin blocked by a security advisory"
+          ),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer" },
+    },
+    schemas: {
+      ErrorResponse: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["code", "message"],
+            properties: {
+              code: { type: "string", example: "SERVER_NOT_FOUND" },
+              message: { type: "string" },
+              details: {},
+            },
+          },
+        },
+      },
+      PluginInfo: {
+        type: "object",
+        required: ["name", "version", "platform"],
+        properties: {
+          name: { type: "string" },
+          version: { type: "string" },
+          platform: { type: "array", items: { type: "string" } },
+          platformConfidence: {
+            type: "string",
+            enum: ["high", "medium", "low"],
+          },
+          description: { type: "string" },
+          authors: { type: "array", items: { type: "string" } },
+          apiVersion: { type: "string" },
+          depend: { type: "array", items: { type: "string" } },
+          softdepend: { type: "array", items: { type: "string" } },
+          loadbefore: { type: "array", items: { type: "string" } },
+        },
+        additionalProperties: true,
+      },
+      PluginEntry: {
+        type: "object",
+        required: ["info", "hash", "jarPath"],
+        properties: {
+          info: ref("PluginInfo"),
+          hash: { type: "string", description: "SHA-256 of the jar" },
+          jarPath: { type: "string" },
+          enabled: {
+            type: "boolean",
+            description: "Only for installed plugins, false for .jar.disabled",
+          },
+          source: {
+            type: "object",
+            properties: {
+              library: { type: "string" },
+              path: { type: "string" },
+              entry: { type: "string" },
+            },
+          },
+        },
+      },
+      LibrarySummary: {
+        type: "object",
+        required: ["id", "path", "pluginCount"],
+        properties: {
+          id: { type: "string" },
+          path: { type: "string" },
+          pluginCount: { type: "integer" },
+          scan: { type: "object", additionalProperties: true },
+          remote: { type: "object", additionalProperties: true },
+        },
+      },
+      ServerEntry: {
+        type: "object",
+        required: ["id", "platform", "path"],
+        properties: {
+          id: { type: "string" },
+          platform: { type: "string" },
+          path: { type: "string" },
+          gameVersion: { type: "string" },
+          variables: {
+            type: "object",
+            additionalProperties: { type: "string" },
+          },
+        },
+      },
+      SyncResult: {
+        type: "object",
+        properties: {
+          lockfile: { type: "object", additionalProperties: true },
+          added: { type: "array", items: { type: "object" } },
+          updated: { type: "array", items: { type: "object" } },
+          removed: { type: "array", items: ref("PluginEntry") },
+          unchanged: { type: "array", items: { type: "object" } },
+          enabled: { type: "array", items: { type: "object" } },
+          disabled: { type: "array", items: { type: "object" } },
+          configs: { type: "array", items: { type: "object" } },
+          advisories: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+  },
+};
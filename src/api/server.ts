@@ -0,0 +1,369 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import consola from "consola";
+import {
+  findPlugin,
+  findPluginByHash,
+  getAllLibraries,
+  getLibrary,
+  resolvePluginJar,
+} from "../handlers/library/manager";
+import {
+  installFromLibrary,
+  listPlugins,
+  PluginDataMode,
+  removePlugin,
+} from "../handlers/server/pluginManager";
+import { getAllServers, getServer } from "../handlers/server/serverManager";
+import { syncServer } from "../handlers/server/syncManager";
+import { SupportedPlatform } from "../types/supported-platform";
+import { PluginNotFoundError, TmpError, toErrorObject } from "../errors";
+import { openApiDocument } from "./openapi";
+
+/** 请求体的最大字节数 */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const DATA_MODES: PluginDataMode[] = ["keep", "archive", "purge"];
+
+interface RequestContext {
+  params: { [name: string]: string };
+  query: URLSearchParams;
+  body: { [key: string]: unknown };
+  res: http.ServerResponse;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  /** 是否不需要令牌 */
+  public?: boolean;
+  /** 返回值以 JSON 响应；自行写入响应（如下载文件）时返回 undefined */
+  handle: (context: RequestContext) => Promise<unknown>;
+}
+
+/**
+ * 创建 HTTP API 服务，路由与请求、响应的格式见 openapi.ts
+ * 除 GET /openapi.json 外，所有请求都需要 Authorization: Bearer <token>
+ * 对同一服务端的安装、删除与同步请求依次执行，不同服务端之间互不影响
+ * @param options.token 访问令牌
+ * @returns 尚未监听端口的 http.Server
+ */
+export function createApiServer(options: { token: string }): http.Server {
+  const tokenDigest = digest(options.token);
+  const serverLocks = new Map<string, Promise<unknown>>();
+
+  /** 在服务端上依次执行修改操作 */
+  const withServerLock = <T>(serverId: string, run: () => Promise<T>) => {
+    const previous = serverLocks.get(serverId) ?? Promise.resolve();
+    const task = previous.catch(() => {}).then(run);
+    const settled = task.catch(() => {});
+    serverLocks.set(serverId, settled);
+    settled.then(() => {
+      if (serverLocks.get(serverId) === settled) serverLocks.delete(serverId);
+    });
+    return task;
+  };
+
+  const routes: Route[] = [
+    route("GET", "/openapi.json", async () => openApiDocument, true),
+
+    route("GET", "/libraries", async () =>
+      Object.values(await getAllLibraries()).map(({ plugins, ...library }) => ({
+        ...library,
+        pluginCount: plugins.length,
+      }))
+    ),
+    route(
+      "GET",
+      "/libraries/{id}/plugins",
+      async ({ params }) => (await getLibrary(params.id)).plugins
+    ),
+
+    route("GET", "/plugins", async ({ query }) =>
+      findPlugin({
+        name: query.get("name") ?? undefined,
+        pluginVersion: query.get("version") ?? undefined,
+        includeSnapshots: queryFlag(query, "snapshots"),
+        latest: queryFlag(query, "latest"),
+        platform: (query.get("platform") as SupportedPlatform) ?? undefined,
+        gameVersion: query.get("gameVersion") ?? undefined,
+        libraryId: query.get("library") ?? undefined,
+      })
+    ),
+    route("GET", "/plugins/{hash}/download", async ({ params, res }) => {
+      const found = await findPluginByHash(params.hash);
+      if (!found) throw new PluginNotFoundError(params.hash);
+      const jarPath = await resolvePluginJar(found.plugin);
+      const stat = await fs.promises.stat(jarPath);
+      res.writeHead(200, {
+        "Content-Type": "application/java-archive",
+        "Content-Length": stat.size,
+        "Content-Disposition": `attachment; filename="${path
+          .basename(jarPath)
+          .replace(/"/g, "")}"`,
+        ETag: `"${found.plugin.hash}"`,
+      });
+      await new Promise<void>((resolve, reject) => {
+        fs.createReadStream(jarPath)
+          .on("error", reject)
+          .pipe(res)
+          .on("finish", resolve)
+          .on("error", reject);
+      });
+    }),
+
+    route("GET", "/servers", async () => Object.values(await getAllServers())),
+    route("GET", "/servers/{id}", async ({ params }) => getServer(params.id)),
+    route("GET", "/servers/{id}/plugins", async ({ params }) =>
+      listPlugins(params.id)
+    ),
+    route("POST", "/servers/{id}/plugins", async ({ params, body }) => {
+      if (typeof body.name !== "string" || !body.name) {
+        throw new TmpError("INVALID_REQUEST", '"name" must be a string');
+      }
+      return withServerLock(params.id, () =>
+        installFromLibrary(params.id, {
+          name: body.name as string,
+          pluginVersion: optionalString(body, "version"),
+          snapshots: optionalBoolean(body, "snapshots"),
+          latest: optionalBoolean(body, "latest"),
+          library: optionalString(body, "library"),
+          deps: optionalBoolean(body, "deps"),
+          force: optionalBoolean(body, "force"),
+          ignoreAdvisories: optionalBoolean(body, "ignoreAdvisories"),
+        })
+      );
+    }),
+    route(
+      "DELETE",
+      "/servers/{id}/plugins/{name}",
+      async ({ params, query }) => {
+        const data = (query.get("data") ?? "keep") as PluginDataMode;
+        if (!DATA_MODES.includes(data)) {
+          throw new TmpError(
+            "INVALID_REQUEST",
+            `"data" must be one of ${DATA_MODES.join(", ")}`
+          );
+        }
+        await withServerLock(params.id, () =>
+          removePlugin(params.id, params.name, { data })
+        );
+        return { serverId: params.id, removed: params.name };
+      }
+    ),
+    route("POST", "/servers/{id}/sync", async ({ params, body }) =>
+      withServerLock(params.id, () =>
+        syncServer(params.id, {
+          dryRun: optionalBoolean(body, "dryRun"),
+          update: optionalBoolean(body, "update"),
+          frozenLockfile: optionalBoolean(body, "frozenLockfile"),
+          ignoreAdvisories: optionalBoolean(body, "ignoreAdvisories"),
+        })
+      )
+    ),
+  ];
+
+  return http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const matched = routes
+        .map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+        .filter(({ match }) => match);
+      if (matched.length === 0) {
+        throw new TmpError("ROUTE_NOT_FOUND", `Not found: ${url.pathname}`);
+      }
+      const found = matched.find(({ route }) => route.method === req.method);
+      if (!found) {
+        res.setHeader(
+          "Allow",
+          matched.map(({ route }) => route.method).join(", ")
+        );
+        throw new TmpError(
+          "METHOD_NOT_ALLOWED",
+          `Method not allowed: ${req.method} ${url.pathname}`
+        );
+      }
+
+      if (!found.route.public && !authorized(req, tokenDigest)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        throw new TmpError("UNAUTHORIZED", "Missing or invalid token");
+      }
+
+      const params: { [name: string]: string } = {};
+      for (const [name, value] of Object.entries(found.match!.groups ?? {})) {
+        try {
+          params[name] = decodeURIComponent(value);
+        } catch {
+          throw new TmpError(
+            "INVALID_REQUEST",
+            `Malformed URL encoding in ${name}: ${value}`
+          );
+        }
+      }
+      const result = await found.route.handle({
+        params,
+        query: url.searchParams,
+        body: await readJsonBody(req),
+        res,
+      });
+      if (!res.headersSent) sendJson(res, 200, result);
+    } catch (error) {
+      const status = httpStatus(error);
+      if (status === 500) consola.error(error);
+      if (!res.headersSent) {
+        sendJson(res, status, { error: toErrorObject(error) });
+      } else {
+        // 文件已开始发送，只能中断连接
+        res.destroy(error as Error);
+      }
+    }
+  });
+}
+
+/**
+ * 将路径模板（如 /servers/{id}）转换为路由
+ */
+function route(
+  method: string,
+  template: string,
+  handle: Route["handle"],
+  isPublic = false
+): Route {
+  const source = template.replace(/\{(\w+)\}/g, "(?<$1>[^/]+)");
+  return {
+    method,
+    pattern: new RegExp(`^${source}/?$`),
+    public: isPublic,
+    handle,
+  };
+}
+
+/**
+ * 比较令牌的摘要，使比较时间与令牌内容和长度无关
+ */
+function authorized(req: http.IncomingMessage, tokenDigest: Buffer): boolean {
+  const match = /^Bearer (.+)$/i.exec(req.headers.authorization ?? "");
+  return !!match && crypto.timingSafeEqual(digest(match[1]), tokenDigest);
+}
+
+function digest(value: string): Buffer {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+/**
+ * 读取 JSON 请求体，没有请求体时为空对象
+ * @throws 如果请求体过大或不是 JSON 对象
+ */
+async function readJsonBody(
+  req: http.IncomingMessage
+): Promise<{ [key: string]: unknown }> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new TmpError(
+        "PAYLOAD_TOO_LARGE",
+        `Request body exceeds ${MAX_BODY_BYTES} bytes`
+      );
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString("utf8").trim();
+  if (!text) return {};
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    throw new TmpError(
+      "INVALID_REQUEST",
+      `Invalid JSON body: ${(error as Error).message}`
+    );
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new TmpError("INVALID_REQUEST", "Request body must be a JSON object");
+  }
+  return body as { [key: string]: unknown };
+}
+
+function optionalString(
+  body: { [key: string]: unknown },
+  key: string
+): string | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new TmpError("INVALID_REQUEST", `"${key}" must be a string`);
+  }
+  return value;
+}
+
+function optionalBoolean(
+  body: { [key: string]: unknown },
+  key: string
+): boolean | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "boolean") {
+    throw new TmpError("INVALID_REQUEST", `"${key}" must be a boolean`);
+  }
+  return value;
+}
+
+/** 查询参数中的开关，?latest 与 ?latest=true 均为开启 */
+function queryFlag(query: URLSearchParams, key: string): boolean | undefined {
+  if (!query.has(key)) return undefined;
+  return ["", "true", "1"].includes(query.get(key)!);
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown) {
+  const body = JSON.stringify(data ?? null);
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
+/**
+ * 由错误码决定 HTTP 状态码
+ */
+function httpStatus(error: unknown): number {
+  if (!(error instanceof TmpError)) return 500;
+  switch (error.code) {
+    case "UNAUTHORIZED":
+      return 401;
+    case "METHOD_NOT_ALLOWED":
+      return 405;
+    case "PAYLOAD_TOO_LARGE":
+      return 413;
+    case "ROLLBACK_CONFLICT":
+    case "LOCKFILE_OUTDATED":
+      return 409;
+    // 请求本身有效，但服务端的清单或插件库无法满足
+    case "MANIFEST_NOT_FOUND":
+    case "LOCKFILE_NOT_FOUND":
+    case "INVALID_MANIFEST":
+    case "INVALID_LOCKFILE":
+    case "INVALID_ADVISORY_DATABASE":
+    case "AMBIGUOUS_PLUGIN":
+    case "NO_MATCHING_PLUGIN":
+    case "NOT_A_PLUGIN":
+    case "INCOMPATIBLE_PLUGIN":
+    case "INCOMPATIBLE_PLATFORM":
+    case "UNCERTAIN_PLATFORM":
+    case "DEPENDENCY_RESOLUTION_FAILED":
+    case "TEMPLATE_VARIABLE_MISSING":
+    case "PLUGIN_BLOCKED":
+      return 422;
+    case "REMOTE_REQUEST_FAILED":
+      return 502;
+  }
+  if (error.code.endsWith("_NOT_FOUND")) return 404;
+  if (error.code.endsWith("_EXISTS")) return 409;
+  if (error.code.startsWith("INVALID_")) return 400;
+  return 500;
+}
@@ -0,0 +1,1740 @@
+#!/usr/bin/env node
+import crypto from "node:crypto";
+import { AddressInfo } from "node:net";
+import path from "node:path";
+import { Command, CommanderError } from "commander";
+import * as libraryManager from "../handlers/library/manager";
+import * as serverManager from "../handlers/server/serverManager";
+import * as pluginManager from "../handlers/server/pluginManager";
+import * as syncManager from "../handlers/server/syncManager";
+import * as transaction from "../handlers/server/transaction";
+import * as upgradeManager from "../handlers/server/upgradeManager";
+import * as graphManager from "../handlers/server/graphManager";
+import * as configManager from "../handlers/server/configManager";
+import * as groupManager from "../handlers/server/groupManager";
+import * as conflictManager from "../handlers/server/conflictManager";
+import * as templateManager from "../handlers/server/templateManager";
+import * as cloneManager from "../handlers/server/cloneManager";
+import * as diffManager from "../handlers/server/diffManager";
+import * as verifyManager from "../handlers/server/verifyManager";
+import * as auditManager from "../handlers/server/auditManager";
+import {
+  ADVISORY_SEVERITIES,
+  advisoryTarget,
+  loadAdvisories,
+  matchAdvisories,
+} from "../handlers/advisory/advisory-database";
+import { detectAdapter } from "../handlers/remote/remote-library";
+import { WatchEvent, watchLibraries } from "../handlers/library/watcher";
+import { createApiServer } from "../api/server";
+import { LibraryScanOptions, PluginEntry } from "../types/library";
+import { ServerTemplate } from "../types/server";
+import { isGlob } from "../utils/glob";
+import {
+  action,
+  getOutputFormat,
+  output,
+  outputError,
+  setOutputFormat,
+} from "./output";
+import { PluginNotFoundError, TmpError, toErrorObject } from "../errors";
+
+// 在解析参数之前确定输出格式，使参数错误也能以 JSON 输出
+if (process.argv.includes("--ndjson")) setOutputFormat("ndjson");
+else if (process.argv.includes("--json")) setOutputFormat("json");
+
+const program = new Command();
+
+program
+  .name("tmp")
+  .description("Too Many Plugins - Minecraft server plugin manager")
+  .version("1.0.0")
+  .option("--json", "Output results and errors as JSON")
+  .option("--ndjson", "Output results and errors as newline-delimited JSON")
+  .exitOverride()
+  .configureOutput({
+    outputError: (message, write) => {
+      if (getOutputFormat() === "text") write(message);
+    },
+  });
+
+// Library commands
+const libraryCommand = program.command("library");
+
+libraryCommand
+  .command("add <id> [path]")
+  .option(
+    "--remote <url>",
+    "Add a remote library backed by a Modrinth or Hangar compatible API"
+  )
+  .option("--adapter <adapter>", "Remote API type: modrinth or hangar")
+  .option("--project <projects...>", "Remote projects to track")
+  .option(
+    "--max-versions <count>",
+    "Number of versions to cache for each remote project",
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    "--include <globs...>",
+    "Only index files matching these patterns, relative to the library folder"
+  )
+  .option(
+    "--exclude <globs...>",
+    "Skip files and folders matching these patterns"
+  )
+  .option(
+    "--max-depth <depth>",
+    "Number of subfolder levels to scan, 0 for the library folder only",
+    (value) => parseInt(value, 10)
+  )
+  .description(
+    "Add a new plugin library from a local folder or a remote repository"
+  )
+  .action(
+    action(async (id, path, options) => {
+      let library;
+      if (options.remote) {
+        const adapter = options.adapter ?? detectAdapter(options.remote);
+        if (!["modrinth", "hangar"].includes(adapter)) {
+          throw new TmpError(
+            "INVALID_ARGUMENT",
+            `Unknown remote adapter: ${adapter}`
+          );
+        }
+        library = await libraryManager.addRemoteLibrary(
+          id,
+          {
+            adapter,
+            url: options.remote,
+            projects: options.project ?? [],
+            maxVersions: options.maxVersions,
+          },
+          path
+        );
+      } else if (path) {
+        library = await libraryManager.addLibrary(
+          id,
+          path,
+          scanOptions(options)
+        );
+      } else {
+        throw new TmpError(
+          "INVALID_ARGUMENT",
+          "Either a path or --remote must be specified"
+        );
+      }
+      output(library, () => console.log(`✅ Library added: ${library.id}`));
+    })
+  );
+
+libraryCommand
+  .command("update <id>")
+  .option(
+    "--include <globs...>",
+    "Only index files matching these patterns, relative to the library folder"
+  )
+  .option(
+    "--exclude <globs...>",
+    "Skip files and folders matching these patterns"
+  )
+  .option(
+    "--max-depth <depth>",
+    "Number of subfolder levels to scan, 0 for the library folder only",
+    (value) => parseInt(value, 10)
+  )
+  .description("Change how a library folder is scanned and re-index it")
+  .action(
+    action(async (id, options) => {
+      const library = await libraryManager.updateLibraryScan(
+        id,
+        scanOptions(options) ?? {}
+      );
+      output(library, () => console.log(`✅ Library updated: ${id}`));
+    })
+  );
+
+libraryCommand
+  .command("track <id> <projects...>")
+  .description("Start tracking projects in a remote library and download them")
+  .action(
+    action(async (id, projects: string[]) => {
+      const library = await libraryManager.updateRemoteProjects(id, {
+        track: projects,
+      });
+      output(library, () =>
+        console.log(`✅ Tracking ${projects.join(", ")} in library ${id}`)
+      );
+    })
+  );
+
+libraryCommand
+  .command("untrack <id> <projects...>")
+  .description("Stop tracking projects in a remote library")
+  .action(
+    action(async (id, projects: string[]) => {
+      const library = await libraryManager.updateRemoteProjects(id, {
+        untrack: projects,
+      });
+      output(library, () =>
+        console.log(
+          `✅ No longer tracking ${projects.join(", ")} in library ${id}`
+        )
+      );
+    })
+  );
+
+libraryCommand
+  .command("remove <id>")
+  .description("Remove a plugin library")
+  .action(
+    action(async (id) => {
+      await libraryManager.removeLibrary(id);
+      output({ id, removed: true }, () =>
+        console.log(`✅ Library removed: ${id}`)
+      );
+    })
+  );
+
+libraryCommand
+  .command("list")
+  .description("List all plugin libraries")
+  .action(
+    action(async () => {
+      const libraries = await libraryManager.getAllLibraries();
+      output(Object.values(libraries), (libraries) => {
+        libraries.forEach((library) => {
+          console.log(`${library.id}\n  ${library.path}`);
+          if (library.remote) {
+            console.log(
+              `  ${library.remote.adapter}: ${
+                library.remote.url
+              } (${library.remote.projects.join(", ")})`
+            );
+          }
+        });
+      });
+    })
+  );
+
+libraryCommand
+  .command("list-plugin <id>")
+  .description("List all plugins in a library")
+  .action(
+    action(async (id) => {
+      const library = await libraryManager.getLibrary(id);
+      output(library.plugins, (plugins) => {
+        plugins.forEach((plugin) => {
+          console.log(
+            `${plugin.info.name} v${plugin.info.version} (${plugin.info.platform}) (${plugin.jarPath})`
+          );
+        });
+      });
+    })
+  );
+
+libraryCommand
+  .command("index [id]")
+  .option("-r, --rebuild", "Rebuild the index")
+  .option(
+    "-c, --concurrency <count>",
+    "Number of jars to read at the same time",
+    (value) => parseInt(value, 10)
+  )
+  .description("Index all libraries or a specific library")
+  .action(
+    action(async (id, options) => {
+      const ids = id
+        ? [id]
+        : Object.keys(await libraryManager.getAllLibraries());
+
+      // 进度只在终端中显示，不影响 JSON 输出与重定向
+      const showProgress = getOutputFormat() === "text" && process.stderr.isTTY;
+      const libraries = [];
+      for (const libraryId of ids) {
+        libraries.push(
+          await libraryManager.updateLibraryIndex(libraryId, options.rebuild, {
+            concurrency: options.concurrency,
+            onProgress: showProgress
+              ? ({ done, total }) =>
+                  process.stderr.write(
+                    `\rIndexing ${libraryId}: ${done}/${total}`
+                  )
+              : undefined,
+          })
+        );
+        if (showProgress) process.stderr.write("\r\x1b[K");
+      }
+
+      output(libraries, () => {
+        console.log(
+          id ? `✅ Library ${id} indexed` : "✅ All libraries indexed"
+        );
+      });
+    })
+  );
+
+libraryCommand
+  .command("watch [id]")
+  .option(
+    "--debounce <ms>",
+    "Wait until a jar hasn't changed for this long before indexing it",
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    "-c, --concurrency <count>",
+    "Number of jars to read at the same time",
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    "--sync <servers>",
+    "Upgrade these servers when a new matching version is indexed"
+  )
+  .description(
+    "Keep the index of all local libraries or a specific library up to date"
+  )
+  .action(
+    action(async (id, options) => {
+      const watcher = await watchLibraries(id ? [id] : undefined, {
+        debounceMs: options.debounce,
+        concurrency: options.concurrency,
+        sync: options.sync
+          ?.split(",")
+          .map((s: string) => s.trim())
+          .filter(Boolean),
+        onEvent: (event) => {
+          const data =
+            event.type === "error"
+              ? { ...event, error: toErrorObject(event.error) }
+              : event.type === "upgraded"
+              ? {
+                  ...event,
+                  results: event.results.map((result) =>
+                    result.ok
+                      ? result
+                      : { ...result, error: toErrorObject(result.error) }
+                  ),
+                }
+              : event;
+          output(data, () => printWatchEvent(event));
+        },
+      });
+
+      if (getOutputFormat() === "text") {
+        watcher.skipped.forEach((libraryId) =>
+          console.log(`Skipping remote library ${libraryId}`)
+        );
+        console.log(
+          `Watching ${
+            watcher.libraryIds.join(", ") || "no libraries"
+          }, press Ctrl+C to stop`
+        );
+      }
+
+      await new Promise((resolve) => {
+        process.once("SIGINT", resolve);
+        process.once("SIGTERM", resolve);
+      });
+      await watcher.close();
+    })
+  );
+
+libraryCommand
+  .command("search")
+  .option("-n, --name <name>", "Plugin name")
+  .option(
+    "-v, --plugin-version <version>",
+    'Plugin version or range, e.g. "^2.3", "~5.1.0", ">=4 <5", "!=2.0.1"'
+  )
+  .option("--snapshots", "Include SNAPSHOT versions in range matches")
+  .option("-l, --latest", "Show only latest versions")
+  .option("-p, --platform <platform>", "Filter by platform")
+  .option(
+    "-g, --game-version <version>",
+    "Only show plugins whose api-version supports this Minecraft version"
+  )
+  .option("-lib, --library <id>", "Search in a specific library")
+  .description("Search for a plugin")
+  .action(
+    action(async (options) => {
+      const results = await libraryManager.findPlugin({
+        name: options.name,
+        pluginVersion: options.pluginVersion,
+        includeSnapshots: options.snapshots,
+        latest: options.latest,
+        platform: options.platform,
+        gameVersion: options.gameVersion,
+        libraryId: options.library,
+      });
+      const advisories = await loadAdvisories();
+      output(results, (results) => {
+        if (results.length === 0) {
+          console.log("No plugins found matching the criteria.");
+        }
+        results.forEach((plugin) => {
+          console.log(formatPlugin(plugin));
+          matchAdvisories(advisoryTarget(plugin), advisories).forEach(
+            (advisory) => {
+              console.log(
+                `   ⚠️  ${advisory.id} (${advisory.severity}, ${
+                  advisory.action
+                })${advisory.summary ? `: ${advisory.summary}` : ""}`
+              );
+            }
+          );
+        });
+      });
+    })
+  );
+
+libraryCommand
+  .command("install")
+  .requiredOption("-n, --name <name>", "Plugin name")
+  .option(
+    "-v, --plugin-version <version>",
+    "Plugin version, or a range to install the latest matching version"
+  )
+  .option("--snapshots", "Include SNAPSHOT versions in range matches")
+  .option("-l, --latest", "Install latest version")
+  .option("-lib, --library <id>", "Library to search in")
+  .requiredOption(
+    "-s, --server <servers>",
+    "Servers to install to: an id, a glob such as lobby-*, @group, or a comma-separated list"
+  )
+  .option("--no-deps", "Do not install required dependencies")
+  .option(
+    "-f, --force",
+    "Install even if the plugin requires a newer Minecraft version than the server, or its platform is uncertain or incompatible"
+  )
+  .option(
+    "--ignore-advisories",
+    "Install even if the plugin or a dependency is blocked by a security advisory"
+  )
+  .description("Install a plugin and its required dependencies to a server")
+  .action(
+    action(async (options) => {
+      if (!options.pluginVersion && !options.latest) {
+        throw new TmpError(
+          "INVALID_ARGUMENT",
+          "Either --plugin-version or --latest must be specified"
+        );
+      }
+
+      await onServers(
+        options.server,
+        (serverId) => pluginManager.installFromLibrary(serverId, options),
+        ({ server, installed: plan }) => {
+          const pluginToInstall = plan[plan.length - 1];
+          for (const dependency of plan.slice(0, -1)) {
+            console.log(
+              `✅ Dependency installed: ${dependency.info.name} v${dependency.info.version}`
+            );
+          }
+          console.log(
+            `✅ Plugin installed: ${pluginToInstall.info.name} v${
+              pluginToInstall.info.version
+            } (${pluginToInstall.info.platform.join(", ")})`
+          );
+          console.log(`Installed to server: ${server.id} (${server.platform})`);
+          console.log(`Plugin path: ${pluginToInstall.jarPath}`);
+        }
+      );
+    })
+  );
+
+// Server commands
+const serverCommand = program.command("server");
+
+serverCommand
+  .command("add <id> <path>")
+  .requiredOption(
+    "-p, --platform <platform>",
+    "Server platform (BungeeCord, Bukkit, Paper, Velocity, Folia)"
+  )
+  .option(
+    "-g, --game-version <version>",
+    "Minecraft version of the server, detected from the server jar by default"
+  )
+  .description(
+    'Add a new server, "path" is the parent directory of the "plugins" folder'
+  )
+  .action(
+    action(async (id, path, options) => {
+      const server = await serverManager.addServer(
+        id,
+        path,
+        options.platform,
+        options.gameVersion
+      );
+      output(server, () => {
+        console.log(`✅ Server added: ${server.id}`);
+        if (server.gameVersion) {
+          console.log(`Minecraft version: ${server.gameVersion}`);
+        }
+      });
+    })
+  );
+
+serverCommand
+  .command("remove <id>")
+  .description("Remove a server")
+  .action(
+    action(async (id) => {
+      await serverManager.removeServer(id);
+      output({ id, removed: true }, () =>
+        console.log(`✅ Server removed: ${id}`)
+      );
+    })
+  );
+
+serverCommand
+  .command("update <id>")
+  .option(
+    "-p, --path <path>",
+    'New server path, the parent directory of the "plugins" folder'
+  )
+  .option("-plat, --platform <platform>", "New server platform")
+  .option("-g, --game-version <version>", "New Minecraft version")
+  .option(
+    "--detect-game-version",
+    "Detect the Minecraft version from the server jar again"
+  )
+  .description("Update server information")
+  .action(
+    action(async (id, options) => {
+      const updates: any = {};
+      if (options.path) updates.path = options.path;
+      if (options.platform) updates.platform = options.platform;
+      if (options.gameVersion) updates.gameVersion = options.gameVersion;
+      let updatedServer = await serverManager.updateServer(id, updates);
+      if (options.detectGameVersion) {
+        updatedServer = await serverManager.detectServerGameVersion(id);
+      }
+      output(updatedServer, () =>
+        console.log(`✅ Server updated: ${updatedServer.id}`)
+      );
+    })
+  );
+
+serverCommand
+  .command("set-var <id> <name> <value>")
+  .description("Set a variable used when rendering plugin config templates")
+  .action(
+    action(async (id, name, value) => {
+      const server = await serverManager.getServer(id);
+      const updated = await serverManager.updateServer(id, {
+        variables: { ...server.variables, [name]: value },
+      });
+      output(updated, () => console.log(`✅ Variable set: ${name}=${value}`));
+    })
+  );
+
+serverCommand
+  .command("unset-var <id> <name>")
+  .description("Remove a config template variable from the server")
+  .action(
+    action(async (id, name) => {
+      const server = await serverManager.getServer(id);
+      const { [name]: _, ...variables } = server.variables ?? {};
+      const updated = await serverManager.updateServer(id, { variables });
+      output(updated, () => console.log(`✅ Variable removed: ${name}`));
+    })
+  );
+
+serverCommand
+  .command("list")
+  .description("List all servers")
+  .action(
+    action(async () => {
+      const servers = await serverManager.getAllServers();
+      output(Object.values(servers), (servers) => {
+        servers.forEach((server) => {
+          const version = server.gameVersion ? ` ${server.gameVersion}` : "";
+          console.log(
+            `${server.id} (${server.platform}${version})\n  ${server.path}`
+          );
+        });
+      });
+    })
+  );
+
+const groupCommand = serverCommand
+  .command("group")
+  .description(
+    "Manage server groups, members are server ids, globs such as lobby-* or other @groups"
+  );
+
+groupCommand
+  .command("add <id> [members...]")
+  .description(
+    'Add a server group, use "/" in the id to nest it under another group'
+  )
+  .action(
+    action(async (id, members: string[]) => {
+      const group = await groupManager.addGroup(id, members);
+      output(group, () => console.log(`✅ Server group added: ${group.id}`));
+    })
+  );
+
+groupCommand
+  .command("remove <id>")
+  .description("Remove a server group, the servers themselves are kept")
+  .action(
+    action(async (id) => {
+      await groupManager.removeGroup(id);
+      output({ id, removed: true }, () =>
+        console.log(`✅ Server group removed: ${id}`)
+      );
+    })
+  );
+
+groupCommand
+  .command("add-member <id> <members...>")
+  .description("Add servers, globs or @groups to a server group")
+  .action(
+    action(async (id, members: string[]) => {
+      const group = await groupManager.updateGroupMembers(id, { add: members });
+      output(group, () =>
+        console.log(`✅ Members of ${id}: ${group.members.join(", ")}`)
+      );
+    })
+  );
+
+groupCommand
+  .command("remove-member <id> <members...>")
+  .description("Remove servers, globs or @groups from a server group")
+  .action(
+    action(async (id, members: string[]) => {
+      const group = await groupManager.updateGroupMembers(id, {
+        remove: members,
+      });
+      output(group, () =>
+        console.log(
+          `✅ Members of ${id}: ${group.members.join(", ") || "(none)"}`
+        )
+      );
+    })
+  );
+
+groupCommand
+  .command("list")
+  .description("List all server groups and the servers they resolve to")
+  .action(
+    action(async () => {
+      const groups = Object.values(await groupManager.getAllGroups()).sort(
+        (a, b) => a.id.localeCompare(b.id)
+      );
+      const resolved = [];
+      for (const group of groups) {
+        const servers = await groupManager
+          .resolveServers([`@${group.id}`])
+          .catch(() => []);
+        resolved.push({ ...group, servers: servers.map((s) => s.id) });
+      }
+      output(resolved, (resolved) => {
+        resolved.forEach((group) => {
+          console.log(`@${group.id}`);
+          console.log(`  Members: ${group.members.join(", ") || "(none)"}`);
+          console.log(`  Servers: ${group.servers.join(", ") || "(none)"}`);
+        });
+      });
+    })
+  );
+
+groupCommand
+  .command("resolve <selectors...>")
+  .description("Show the servers that ids, globs and @groups resolve to")
+  .action(
+    action(async (selectors: string[]) => {
+      const servers = await groupManager.resolveServers(
+        selectors.flatMap((selector) => selector.split(","))
+      );
+      output(servers, (servers) => {
+        servers.forEach((server) => {
+          console.log(`${server.id} (${server.platform})`);
+        });
+      });
+    })
+  );
+
+serverCommand
+  .command("create <id> <path>")
+  .requiredOption("-t, --template <template>", "Server template to use")
+  .option(
+    "-g, --game-version <version>",
+    "Minecraft version, defaults to the template's"
+  )
+  .option(
+    "--var <assignments...>",
+    "Config template variables as name=value, overriding the template's"
+  )
+  .description(
+    "Create a server from a template: scaffold the folder, write tmp.yml and install its plugins"
+  )
+  .action(
+    action(async (id, path, options) => {
+      const result = await templateManager.createServer(
+        id,
+        path,
+        options.template,
+        {
+          gameVersion: options.gameVersion,
+          variables: parseVariables(options.var),
+        }
+      );
+      output(result, ({ server, files, sync }) => {
+        files.forEach((file) => console.log(`+ ${file}`));
+        sync.added.forEach((plugin) =>
+          console.log(`+ ${plugin.name} v${plugin.version}`)
+        );
+        console.log(`✅ Server created: ${server.id} (${server.path})`);
+      });
+    })
+  );
+
+serverCommand
+  .command("clone <source> <target>")
+  .option(
+    "--path <path>",
+    "Create the target server in this folder if it does not exist"
+  )
+  .option(
+    "-p, --platform <platform>",
+    "Platform of the created target server, defaults to the source's"
+  )
+  .option(
+    "-g, --game-version <version>",
+    "Minecraft version of the created target server"
+  )
+  .option("--dry-run", "Only show the plugins that would be copied")
+  .description(
+    "Copy the plugins of a server to another, picking other builds from the libraries when the platform differs"
+  )
+  .action(
+    action(async (source, target, options) => {
+      const result = await cloneManager.cloneServer(source, target, options);
+      output(result, (result) => {
+        result.plugins.forEach(({ from, to, substituted }) => {
+          console.log(
+            `+ ${to.info.name} v${to.info.version}${
+              substituted
+                ? ` (replaces v${from.info.version} ${path.basename(
+                    from.jarPath
+                  )})`
+                : ""
+            }${to.enabled === false ? " [disabled]" : ""}`
+          );
+        });
+        result.skipped.forEach(({ plugin, reason }) => {
+          console.log(
+            `❌ ${
+              plugin.info?.name ?? path.basename(plugin.jarPath)
+            }: ${reason}`
+          );
+        });
+        if (result.manifest) console.log(`+ tmp.yml`);
+        if (options.dryRun) {
+          console.log("Dry run, no changes were applied.");
+        } else {
+          console.log(
+            `✅ ${result.plugins.length} plugin(s) cloned from ${source} to ${target}`
+          );
+        }
+      });
+    })
+  );
+
+serverCommand
+  .command("diff <server> [other]")
+  .option(
+    "--lockfile [file]",
+    "Compare with the server's tmp-lock.yml, or with this lockfile"
+  )
+  .option(
+    "--snapshot <id>",
+    "Compare with the plugins recorded in a snapshot of the server"
+  )
+  .option("--unified", "Print a unified diff")
+  .description(
+    "Compare the plugins of two servers, or of a server and a lockfile or snapshot"
+  )
+  .action(
+    action(async (server, other, options) => {
+      const targets = [other, options.lockfile, options.snapshot].filter(
+        (target) => target !== undefined
+      );
+      if (targets.length !== 1) {
+        throw new TmpError(
+          "INVALID_ARGUMENT",
+          "Specify exactly one of <other>, --lockfile or --snapshot"
+        );
+      }
+
+      const diff = options.snapshot
+        ? await diffManager.diffWithSnapshot(server, options.snapshot)
+        : options.lockfile !== undefined
+        ? await diffManager.diffWithLockfile(
+            server,
+            options.lockfile === true ? undefined : options.lockfile
+          )
+        : await diffManager.diffServers(server, other);
+
+      output(diff, (diff) => {
+        if (options.unified) {
+          console.log(diffManager.formatUnifiedDiff(diff));
+          return;
+        }
+        const version = (plugin: diffManager.PluginState) =>
+          plugin.version ? `v${plugin.version}` : plugin.file;
+        diff.onlyLeft.forEach((plugin) =>
+          console.log(
+            `- ${plugin.name} ${version(plugin)} (only in ${diff.left})`
+          )
+        );
+        diff.onlyRight.forEach((plugin) =>
+          console.log(
+            `+ ${plugin.name} ${version(plugin)} (only in ${diff.right})`
+          )
+        );
+        diff.changed.forEach(({ name, kind, left, right }) => {
+          if (kind === "version") {
+            console.log(`~ ${name} ${version(left)} → ${version(right)}`);
+          } else if (kind === "hash") {
+            const current = version(left);
+            const from = left.hash.slice(0, 12);
+            const to = right.hash.slice(0, 12);
+            console.log(
+              `~ ${name} ${current}: same version, different jar (${from} → ${to})`
+            );
+          } else {
+            const state = (plugin: diffManager.PluginState) =>
+              plugin.enabled ? "enabled" : "disabled";
+            console.log(
+              `~ ${name} ${version(left)}: ${state(left)} in ${
+                diff.left
+              }, ${state(right)} in ${diff.right}`
+            );
+          }
+        });
+        const differences =
+          diff.onlyLeft.length + diff.onlyRight.length + diff.changed.length;
+        console.log(
+          differences === 0
+            ? `✅ No differences between ${diff.left} and ${diff.right} (${diff.same.length} plugin(s))`
+            : `${differences} difference(s), ${diff.same.length} identical plugin(s)`
+        );
+      });
+    })
+  );
+
+const templateCommand = serverCommand
+  .command("template")
+  .description("Manage server templates used by server create");
+
+templateCommand
+  .command("add <id>")
+  .option("-p, --platform <platform>", "Server platform")
+  .option("-g, --game-version <version>", "Minecraft version")
+  .option(
+    "--plugin <specs...>",
+    "Plugins as name or name@constraint, e.g. LuckPerms@^5.4 or Vault@1.7.3"
+  )
+  .option(
+    "--from <server>",
+    "Copy the platform, plugins and variables of an existing server"
+  )
+  .option(
+    "--files <dir>",
+    "Folder copied into new servers, variables in text files are rendered"
+  )
+  .option("--var <assignments...>", "Config template variables as name=value")
+  .description("Add a server template")
+  .action(
+    action(async (id, options) => {
+      let template;
+      if (options.from) {
+        template = await templateManager.addTemplateFromServer(
+          id,
+          options.from,
+          { files: options.files, variables: parseVariables(options.var) }
+        );
+      } else if (options.platform) {
+        const plugins: ServerTemplate["plugins"] = {};
+        for (const spec of options.plugin ?? []) {
+          const at = spec.indexOf("@", 1);
+          plugins[at === -1 ? spec : spec.slice(0, at)] =
+            at === -1 ? {} : { version: spec.slice(at + 1) };
+        }
+        const variables = parseVariables(options.var);
+        template = await templateManager.addTemplate({
+          id,
+          platform: options.platform,
+          ...(options.gameVersion ? { gameVersion: options.gameVersion } : {}),
+          plugins,
+          ...(variables ? { variables } : {}),
+          ...(options.files ? { files: options.files } : {}),
+        });
+      } else {
+        throw new TmpError(
+          "INVALID_ARGUMENT",
+          "Either --platform or --from must be specified"
+        );
+      }
+      output(template, () =>
+        console.log(`✅ Server template added: ${template.id}`)
+      );
+    })
+  );
+
+templateCommand
+  .command("remove <id>")
+  .description("Remove a server template")
+  .action(
+    action(async (id) => {
+      await templateManager.removeTemplate(id);
+      output({ id, removed: true }, () =>
+        console.log(`✅ Server template removed: ${id}`)
+      );
+    })
+  );
+
+templateCommand
+  .command("list")
+  .description("List all server templates")
+  .action(
+    action(async () => {
+      const templates = await templateManager.getAllTemplates();
+      output(Object.values(templates), (templates) => {
+        templates.forEach((template) => {
+          const version = template.gameVersion
+            ? ` ${template.gameVersion}`
+            : "";
+          console.log(`${template.id} (${template.platform}${version})`);
+          Object.entries(template.plugins).forEach(([name, plugin]) => {
+            console.log(
+              `  ${name} ${plugin.version ?? "latest"}${
+                plugin.enabled === false ? " [disabled]" : ""
+              }`
+            );
+          });
+          if (template.files) console.log(`  files: ${template.files}`);
+        });
+      });
+    })
+  );
+
+const serverPluginCommand = program
+  .command("server-plugin")
+  .description(
+    "Manage the plugins of servers, <servers> is an id, a glob such as lobby-*, @group, or a comma-separated list"
+  );
+
+serverPluginCommand
+  .command("install <servers> <pluginPath>")
+  .option(
+    "-f, --force",
+    "Install even if the plugin requires a newer Minecraft version than the server, or its platform is uncertain or incompatible"
+  )
+  .option(
+    "--ignore-advisories",
+    "Install even if the plugin is blocked by a security advisory"
+  )
+  .description("Install or update a plugin from an external JAR file")
+  .action(
+    action(async (servers, pluginPath, options) => {
+      await onServers(
+        servers,
+        (serverId) =>
+          pluginManager.installOrUpdatePlugin(serverId, pluginPath, options),
+        (plugin) =>
+          console.log(
+            `✅ Plugin installed/updated: ${plugin.info.name} (${plugin.info.version})`
+          )
+      );
+    })
+  );
+
+serverPluginCommand
+  .command("list <servers>")
+  .description("List all plugins installed on the server")
+  .action(
+    action(async (servers) => {
+      await onServers(servers, pluginManager.listPlugins, (plugins) => {
+        plugins.forEach((plugin) => {
+          const label = plugin.info
+            ? `${plugin.info.name} (${plugin.info.version})`
+            : `${path.basename(plugin.jarPath)} [no plugin descriptor]`;
+          console.log(
+            `${label}${plugin.enabled === false ? " [disabled]" : ""}`
+          );
+        });
+      });
+    })
+  );
+
+serverPluginCommand
+  .command("disable <servers> <plugins...>")
+  .description(
+    "Disable plugins without deleting them by renaming their jars to .jar.disabled"
+  )
+  .action(
+    action(async (servers, plugins: string[]) => {
+      await onServers(
+        servers,
+        (serverId) => pluginManager.disablePlugins(serverId, plugins),
+        (plugins) =>
+          plugins.forEach((plugin) =>
+            console.log(`✅ Plugin disabled: ${plugin.info.name}`)
+          )
+      );
+    })
+  );
+
+serverPluginCommand
+  .command("enable <servers> <plugins...>")
+  .description("Enable disabled plugins")
+  .action(
+    action(async (servers, plugins: string[]) => {
+      await onServers(
+        servers,
+        (serverId) => pluginManager.enablePlugins(serverId, plugins),
+        (plugins) =>
+          plugins.forEach((plugin) =>
+            console.log(`✅ Plugin enabled: ${plugin.info.name}`)
+          )
+      );
+    })
+  );
+
+serverPluginCommand
+  .command("remove <servers> <pluginId>")
+  .option(
+    "--data <mode>",
+    "What to do with the plugin's data folder: keep, archive or purge; rollback restores archived and purged data until the snapshot is pruned",
+    "keep"
+  )
+  .description("Remove a plugin from the server")
+  .action(
+    action(async (servers, pluginId, options) => {
+      if (!["keep", "archive", "purge"].includes(options.data)) {
+        throw new TmpError(
+          "INVALID_ARGUMENT",
+          `Invalid --data mode: ${options.data}, expected keep, archive or purge`
+        );
+      }
+      await onServers(
+        servers,
+        async (serverId) => {
+          await pluginManager.removePlugin(serverId, pluginId, {
+            data: options.data,
+          });
+          return { serverId, plugin: pluginId, removed: true };
+        },
+        () => console.log(`✅ Plugin removed: ${pluginId}`)
+      );
+    })
+  );
+
+const configCommand = serverPluginCommand
+  .command("config")
+  .description("Manage plugin config files rendered from library templates");
+
+configCommand
+  .command("diff <servers> [plugins...]")
+  .option("--exit-code", "Exit with code 1 when the configs have drifted")
+  .description("Show how the plugin configs differ from their templates")
+  .action(
+    action(async (servers, plugins: string[], options) => {
+      await onServers(
+        servers,
+        async (serverId) => {
+          const changes = (
+            await configManager.diffPluginConfigs(
+              serverId,
+              plugins.length > 0 ? plugins : undefined
+            )
+          ).filter((change) => change.status !== "unchanged");
+          if (options.exitCode && changes.length > 0) process.exitCode = 1;
+          return changes;
+        },
+        (changes) => {
+          if (changes.length === 0) {
+            console.log("✅ All plugin configs match their templates");
+          }
+          changes.forEach((change) => console.log(change.diff));
+        }
+      );
+    })
+  );
+
+configCommand
+  .command("apply <servers> [plugins...]")
+  .option("--dry-run", "Only show the changes without writing them")
+  .description("Render the config templates into the plugin data folders")
+  .action(
+    action(async (servers, plugins: string[], options) => {
+      const run = (serverId: string) =>
+        configManager.applyPluginConfigs(serverId, {
+          plugins: plugins.length > 0 ? plugins : undefined,
+          dryRun: options.dryRun,
+        });
+      await onServers(servers, run, (changes) => {
+        changes.forEach((change) => {
+          console.log(
+            `${change.status === "added" ? "+" : "~"} ${change.file}`
+          );
+        });
+        if (options.dryRun) {
+          console.log(`${changes.length} config file(s) would be written`);
+        } else {
+          console.log(`✅ ${changes.length} config file(s) written`);
+        }
+      });
+    })
+  );
+
+serverPluginCommand
+  .command("info <servers> <pluginName>")
+  .description("Get information about a specific plugin")
+  .action(
+    action(async (servers, pluginName) => {
+      const findInstalled = async (serverId: string) => {
+        const plugins = await pluginManager.listPlugins(serverId);
+        const plugin = plugins.find(
+          (p) => p.info?.name === pluginName || p.jarPath.endsWith(pluginName)
+        );
+        if (!plugin) {
+          throw new PluginNotFoundError(pluginName);
+        }
+        return plugin;
+      };
+      await onServers(servers, findInstalled, (plugin) => {
+        if (!plugin.info) {
+          console.log(`File: ${path.basename(plugin.jarPath)}`);
+          console.log(
+            "⚠️  No plugin descriptor, the server will not load this jar"
+          );
+          return;
+        }
+        console.log(`Name: ${plugin.info.name}`);
+        console.log(`Version: ${plugin.info.version}`);
+        console.log(`Description: ${plugin.info.description || "N/A"}`);
+        console.log(`Authors: ${plugin.info.authors.join(", ")}`);
+        console.log(`Platforms: ${plugin.info.platform.join(", ")}`);
+        if (plugin.info.platformConfidence) {
+          console.log(`Platform confidence: ${plugin.info.platformConfidence}`);
+        }
+        if (plugin.info.apiVersion) {
+          console.log(`API version: ${plugin.info.apiVersion}`);
+        }
+      });
+    })
+  );
+
+serverPluginCommand
+  .command("graph <servers>")
+  .option("--format <format>", "Output format: text, dot or mermaid", "text")
+  .description(
+    "Check the load order of the installed plugins and export the dependency graph"
+  )
+  .action(
+    action(async (servers, options) => {
+      if (!["text", "dot", "mermaid"].includes(options.format)) {
+        throw new TmpError(
+          "INVALID_ARGUMENT",
+          `Unknown graph format: ${options.format}`
+        );
+      }
+
+      const checkLoadOrder = async (serverId: string) => {
+        const graph = await graphManager.buildLoadGraph(serverId);
+        if (graph.problems.some((problem) => problem.severity === "error")) {
+          process.exitCode = 1;
+        }
+        return graph;
+      };
+
+      await onServers(servers, checkLoadOrder, (graph) => {
+        if (options.format === "dot") {
+          console.log(graphManager.formatGraphDot(graph));
+          return;
+        }
+        if (options.format === "mermaid") {
+          console.log(graphManager.formatGraphMermaid(graph));
+          return;
+        }
+
+        console.log("Load order:");
+        graph.loadOrder.forEach((name, index) => {
+          console.log(`  ${index + 1}. ${name}`);
+        });
+        graph.problems.forEach((problem) => {
+          const icon = problem.severity === "error" ? "❌" : "⚠️ ";
+          console.log(`${icon} ${problem.message}`);
+        });
+        if (graph.problems.length === 0) {
+          console.log(`✅ No load order problems found on ${graph.serverId}`);
+        }
+      });
+    })
+  );
+
+serverPluginCommand
+  .command("conflicts <servers>")
+  .description(
+    "Find duplicate plugin names, duplicate classes and unrelocated shaded libraries"
+  )
+  .action(
+    action(async (servers) => {
+      const checkConflicts = async (serverId: string) => {
+        const report = await conflictManager.findConflicts(serverId);
+        if (report.conflicts.some((c) => c.severity === "error")) {
+          process.exitCode = 1;
+        }
+        return report;
+      };
+
+      await onServers(servers, checkConflicts, (report) => {
+        report.conflicts.forEach((conflict) => {
+          const icon = conflict.severity === "error" ? "❌" : "⚠️ ";
+          console.log(`${icon} ${conflict.message}`);
+          if (conflict.classes && conflict.type !== "duplicate-class") {
+            console.log(`   Duplicate classes: ${conflict.classes.join(", ")}`);
+          }
+        });
+        if (report.conflicts.length === 0) {
+          console.log(`✅ No conflicts found on ${report.serverId}`);
+        }
+      });
+    })
+  );
+
+serverPluginCommand
+  .command("history <servers>")
+  .description("List the snapshots taken before each change to the plugins")
+  .action(
+    action(async (servers) => {
+      await onServers(servers, transaction.listSnapshots, (snapshots) => {
+        if (snapshots.length === 0) {
+          console.log("No snapshots found.");
+        }
+        snapshots.forEach((snapshot) => {
+          console.log(
+            `${snapshot.id}  ${snapshot.createdAt}  ${snapshot.operation} (${snapshot.before.length} plugins before)`
+          );
+        });
+      });
+    })
+  );
+
+serverPluginCommand
+  .command("rollback <servers>")
+  .option(
+    "--to <snapshot>",
+    "Restore the state recorded in this snapshot instead of undoing only the last change"
+  )
+  .option("-f, --force", "Roll back even if the files changed afterwards")
+  .description("Undo changes to the plugins using the snapshot history")
+  .action(
+    action(async (servers, options) => {
+      await onServers(
+        servers,
+        (serverId) => transaction.rollback(serverId, options),
+        (undone, serverId) => {
+          undone.forEach((snapshot) => {
+            console.log(`↩️  Undone: ${snapshot.operation} (${snapshot.id})`);
+          });
+          console.log(`✅ Server ${serverId} rolled back`);
+        }
+      );
+    })
+  );
+
+program
+  .command("sync <servers>")
+  .option("--dry-run", "Only show the changes without applying them")
+  .option("-u, --update", "Ignore the lockfile and update all plugins")
+  .option(
+    "--frozen-lockfile",
+    "Fail instead of updating the lockfile when it is out of date"
+  )
+  .option(
+    "--ignore-advisories",
+    "Sync even if a plugin to install is blocked by a security advisory"
+  )
+  .description(
+    "Make the plugins folder match the server's tmp.yml manifest and tmp-lock.yml lockfile"
+  )
+  .action(
+    action(async (servers, options) => {
+      const sync = (serverId: string) =>
+        syncManager.syncServer(serverId, options);
+      await onServers(servers, sync, (result, serverId) => {
+        result.added.forEach((plugin) => {
+          console.log(`+ ${plugin.name} v${plugin.version}`);
+        });
+        result.updated.forEach(({ from, to }) => {
+          console.log(`~ ${to.name} v${from.info.version} -> v${to.version}`);
+        });
+        result.removed.forEach((plugin) => {
+          console.log(
+            `- ${plugin.info?.name ?? plugin.jarPath} ${
+              plugin.info ? `v${plugin.info.version}` : ""
+            }`.trimEnd()
+          );
+        });
+
+        result.enabled.forEach((plugin) => {
+          console.log(`* ${plugin.name} v${plugin.version} enabled`);
+        });
+        result.disabled.forEach((plugin) => {
+          console.log(`* ${plugin.name} v${plugin.version} disabled`);
+        });
+
+        result.configs.forEach((config) => {
+          console.log(
+            `${config.status === "added" ? "+" : "~"} config ${config.file}`
+          );
+        });
+
+        const changes =
+          result.added.length +
+          result.updated.length +
+          result.removed.length +
+          result.enabled.length +
+          result.disabled.length +
+          result.configs.length;
+        if (options.dryRun) {
+          console.log(`${changes} change(s) would be applied`);
+        } else {
+          console.log(`✅ Server ${serverId} synced (${changes} change(s))`);
+        }
+      });
+    })
+  );
+
+program
+  .command("verify [servers]")
+  .option(
+    "--signatures",
+    "Also check jar signatures and the digests in META-INF/MANIFEST.MF"
+  )
+  .description(
+    "Check the installed jars of the servers (default: all) against the libraries and tmp-lock.yml"
+  )
+  .action(
+    action(async (servers: string | undefined, options) => {
+      const verify = async (serverId: string) => {
+        const report = await verifyManager.verifyServer(serverId, options);
+        if (report.problems > 0) process.exitCode = 1;
+        return report;
+      };
+
+      await onServers(servers ?? "*", verify, (report) => {
+        report.jars.forEach((jar) => {
+          const plugin = jar.name
+            ? `${jar.name} v${jar.version} (${jar.file})`
+            : jar.file;
+          if (jar.status === "ok") {
+            console.log(
+              `✅ ${plugin} matches ${jar.library!.id}/${jar.library!.path}`
+            );
+          } else {
+            const expected = jar.expectedHash?.slice(0, 12);
+            const found = jar.hash.slice(0, 12);
+            const hashes = expected
+              ? ` (expected ${expected}, found ${found})`
+              : "";
+            console.log(`❌ ${plugin} ${jar.status}: ${jar.message}${hashes}`);
+          }
+          if (jar.signature?.status === "signed") {
+            console.log(`   Signed by ${jar.signature.signers.join(", ")}`);
+          }
+          jar.signature?.problems.forEach((problem) => {
+            console.log(`   ❌ ${problem}`);
+          });
+        });
+        report.missing.forEach((plugin) => {
+          console.log(
+            `❌ ${plugin.name} v${plugin.version} (${plugin.file}) missing: recorded in tmp-lock.yml but not installed`
+          );
+        });
+        console.log(
+          report.problems === 0
+            ? `✅ ${report.jars.length} jar(s) verified on ${report.serverId}`
+            : `❌ ${report.problems} problem(s) found on ${report.serverId}`
+        );
+      });
+    })
+  );
+
+program
+  .command("audit [servers]")
+  .option(
+    "--severity <level>",
+    "Only report advisories of at least this severity: low, medium, high or critical"
+  )
+  .description(
+    "Check the installed plugins of the servers (default: all) against the security advisories"
+  )
+  .action(
+    action(async (servers: string | undefined, options) => {
+      if (options.severity && !ADVISORY_SEVERITIES.includes(options.severity)) {
+        throw new TmpError(
+          "INVALID_ARGUMENT",
+          `--severity must be one of ${ADVISORY_SEVERITIES.join(", ")}`
+        );
+      }
+
+      const audit = async (serverId: string) => {
+        const report = await auditManager.auditServer(serverId, options);
+        if (report.findings.length > 0) process.exitCode = 1;
+        return report;
+      };
+
+      await onServers(servers ?? "*", audit, (report) => {
+        report.findings.forEach(
+          ({ name, version, file, advisory, enabled }) => {
+            console.log(
+              `❌ ${name}${version ? ` v${version}` : ""} (${file})${
+                enabled ? "" : " [disabled]"
+              }: ${advisory.id} (${advisory.severity})${
+                advisory.summary ? ` ${advisory.summary}` : ""
+              }`
+            );
+            if (advisory.url) console.log(`   ${advisory.url}`);
+          }
+        );
+        console.log(
+          report.severity
+            ? `❌ ${report.findings.length} advisory match(es) on ${report.serverId}, highest severity: ${report.severity}`
+            : `✅ No known advisories affect ${report.serverId}`
+        );
+      });
+    })
+  );
+
+program
+  .command("outdated [serverIds...]")
+  .option("--only-outdated", "Only show plugins with a newer version")
+  .description(
+    "Compare the plugins of the servers (default: all) with the libraries"
+  )
+  .action(
+    action(async (serverIds: string[], options) => {
+      const ids = serverIds.length
+        ? (await groupManager.resolveServers(serverIds)).map((s) => s.id)
+        : Object.keys(await serverManager.getAllServers());
+
+      let plugins: upgradeManager.OutdatedPlugin[] = [];
+      for (const serverId of ids) {
+        plugins.push(...(await upgradeManager.getOutdatedPlugins(serverId)));
+      }
+      if (options.onlyOutdated) {
+        plugins = plugins.filter((plugin) => plugin.status === "outdated");
+      }
+
+      output(plugins, (plugins) => {
+        if (plugins.length > 0) {
+          printTable([
+            ["Server", "Plugin", "Current", "Wanted", "Latest", "Status"],
+            ...plugins.map((plugin) => [
+              plugin.serverId,
+              plugin.name,
+              plugin.installed.info.version,
+              plugin.wanted?.info.version ?? "-",
+              plugin.latest?.info.version ?? "-",
+              plugin.status,
+            ]),
+          ]);
+        }
+        const outdated = plugins.filter(
+          (plugin) => plugin.status === "outdated"
+        ).length;
+        console.log(
+          outdated === 0
+            ? "✅ All plugins are up to date."
+            : `${outdated} outdated plugin(s)`
+        );
+      });
+    })
+  );
+
+program
+  .command("upgrade [serverIds...]")
+  .option("-a, --all", "Upgrade all servers")
+  .option("-p, --plugin <names...>", "Only upgrade these plugins")
+  .option("--dry-run", "Only show the upgrades without applying them")
+  .description(
+    "Upgrade the plugins of the servers to the latest versions allowed by their manifests"
+  )
+  .action(
+    action(async (serverIds: string[], options) => {
+      if (serverIds.length === 0 && !options.all) {
+        throw new TmpError(
+          "INVALID_ARGUMENT",
+          "Specify the servers to upgrade or use --all"
+        );
+      }
+      const ids = options.all
+        ? Object.keys(await serverManager.getAllServers())
+        : (await groupManager.resolveServers(serverIds)).map((s) => s.id);
+
+      const results = [];
+      for (const serverId of ids) {
+        try {
+          const result = await upgradeManager.upgradeServer(serverId, {
+            plugins: options.plugin,
+            dryRun: options.dryRun,
+          });
+          results.push({ ok: true as const, ...result });
+        } catch (error) {
+          results.push({
+            ok: false as const,
+            serverId,
+            error: toErrorObject(error),
+          });
+        }
+      }
+      if (results.some((result) => !result.ok)) {
+        process.exitCode = 1;
+      }
+
+      output(results, (results) => {
+        results.forEach((result) => {
+          if (!result.ok) {
+            console.error(`❌ ${result.serverId}: ${result.error.message}`);
+            return;
+          }
+          if (result.upgraded.length === 0) {
+            console.log(`${result.serverId}: up to date`);
+            return;
+          }
+          console.log(`${result.serverId}:`);
+          result.upgraded.forEach((plugin) => {
+            console.log(`  ~ ${plugin.name} v${plugin.from} -> v${plugin.to}`);
+          });
+          result.dependencies.forEach((plugin) => {
+            console.log(`  + ${plugin.info.name} v${plugin.info.version}`);
+          });
+        });
+
+        if (options.dryRun) {
+          console.log("Dry run, no changes were applied.");
+        }
+      });
+    })
+  );
+
+program
+  .command("serve")
+  .option("-H, --host <host>", "Address to listen on", "127.0.0.1")
+  .option(
+    "-p, --port <port>",
+    "Port to listen on",
+    (value) => parseInt(value, 10),
+    7070
+  )
+  .option(
+    "-t, --token <token>",
+    "Token required in the Authorization: Bearer header, defaults to TMP_API_TOKEN or a random token"
+  )
+  .description(
+    "Serve a local HTTP/JSON API over the libraries and servers, described at /openapi.json"
+  )
+  .action(
+    action(async (options) => {
+      const configuredToken = options.token ?? process.env.TMP_API_TOKEN;
+      const token = configuredToken || crypto.randomBytes(24).toString("hex");
+      const server = createApiServer({ token });
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(options.port, options.host, resolve);
+      });
+
+      const address = server.address() as AddressInfo;
+      const host =
+        address.family === "IPv6" ? `[${address.address}]` : address.address;
+      const url = `http://${host}:${address.port}`;
+      output({ url, ...(configuredToken ? {} : { token }) }, () => {
+        console.log(`✅ Listening on ${url}, press Ctrl+C to stop`);
+        console.log(`OpenAPI description: ${url}/openapi.json`);
+        if (!configuredToken) console.log(`Token: ${token}`);
+      });
+
+      await new Promise((resolve) => {
+        process.once("SIGINT", resolve);
+        process.once("SIGTERM", resolve);
+      });
+      await new Promise((resolve) => {
+        server.close(resolve);
+        server.closeAllConnections();
+      });
+    })
+  );
+
+/**
+ * 在选择器匹配的每个服务端上执行命令
+ * 选择器只是一个服务端ID时，输出与单个服务端的命令相同；
+ * 否则依次在每个服务端上执行，输出每个服务端的结果，任一服务端失败时退出码为 1
+ * @param selector 服务端ID、通配符、@分组，多个时以逗号分隔
+ * @param run 在一个服务端上执行的操作
+ * @param printText 以文本形式打印一个服务端的结果
+ */
+async function onServers<T>(
+  selector: string,
+  run: (serverId: string) => Promise<T>,
+  printText: (result: T, serverId: string) => void
+) {
+  const selectors = selector
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (
+    selectors.length === 1 &&
+    !selectors[0].startsWith("@") &&
+    !isGlob(selectors[0])
+  ) {
+    const result = await run(selectors[0]);
+    output(result, (result) => printText(result, selectors[0]));
+    return;
+  }
+
+  const results = (
+    await groupManager.runOnServers(selectors, (server) => run(server.id))
+  ).map((result) =>
+    result.ok ? result : { ...result, error: toErrorObject(result.error) }
+  );
+  if (results.some((result) => !result.ok)) {
+    process.exitCode = 1;
+  }
+
+  output(results, (results) => {
+    results.forEach((result) => {
+      console.log(`[${result.serverId}]`);
+      if (result.ok) {
+        printText(result.result, result.serverId);
+      } else {
+        console.error(`❌ ${result.error.message}`);
+      }
+    });
+    const failed = results.filter((result) => !result.ok).length;
+    console.log(
+      `${failed === 0 ? "✅" : "❌"} ${
+        results.length - failed
+      } succeeded, ${failed} failed`
+    );
+  });
+}
+
+/**
+ * 解析 name=value 形式的变量
+ * @returns 变量，没有指定任何变量时返回 undefined
+ */
+function parseVariables(
+  assignments: string[] | undefined
+): { [name: string]: string } | undefined {
+  if (!assignments?.length) return undefined;
+  const variables: { [name: string]: string } = {};
+  for (const assignment of assignments) {
+    const index = assignment.indexOf("=");
+    if (index <= 0) {
+      throw new TmpError(
+        "INVALID_ARGUMENT",
+        `Invalid variable: ${assignment}, expected name=value`
+      );
+    }
+    variables[assignment.slice(0, index)] = assignment.slice(index + 1);
+  }
+  return variables;
+}
+
+/**
+ * 从命令行选项中读取插件库的扫描规则
+ * @returns 扫描规则，没有指定任何规则时返回 undefined
+ */
+function scanOptions(options: {
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+}): LibraryScanOptions | undefined {
+  const { include, exclude, maxDepth } = options;
+  if (maxDepth !== undefined && !(maxDepth >= 0)) {
+    throw new TmpError(
+      "INVALID_ARGUMENT",
+      "--max-depth must be a non-negative integer"
+    );
+  }
+  if (!include && !exclude && maxDepth === undefined) return undefined;
+  return { include, exclude, maxDepth };
+}
+
+/**
+ * 以文本形式打印 library watch 的事件
+ */
+function printWatchEvent(event: WatchEvent) {
+  if (event.type === "indexed") {
+    event.removed.forEach((plugin) =>
+      console.log(
+        `[${event.libraryId}] - ${plugin.info.name} v${plugin.info.version}`
+      )
+    );
+    event.added.forEach((plugin) =>
+      console.log(`[${event.libraryId}] + ${formatPlugin(plugin)}`)
+    );
+  } else if (event.type === "upgraded") {
+    event.results.forEach((result) => {
+      if (!result.ok) {
+        console.error(
+          `❌ ${result.serverId}: ${toErrorObject(result.error).message}`
+        );
+        return;
+      }
+      result.result.upgraded.forEach((plugin) =>
+        console.log(
+          `✅ ${result.serverId}: ${plugin.name} v${plugin.from} -> v${plugin.to}`
+        )
+      );
+    });
+  } else {
+    console.error(
+      `❌ [${event.libraryId}] ${toErrorObject(event.error).message}`
+    );
+  }
+}
+
+/**
+ * 格式化插件，用于搜索结果等列表
+ */
+function formatPlugin(plugin: PluginEntry): string {
+  return `${plugin.info.name} v${
+    plugin.info.version
+  } (${plugin.info.platform.join(", ")}) (${plugin.jarPath})`;
+}
+
+/**
+ * 以对齐的列打印表格，第一行为表头
+ */
+function printTable(rows: string[][]) {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  rows.forEach((row) => {
+    console.log(
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()
+    );
+  });
+}
+
+try {
+  program.parse(process.argv);
+} catch (error) {
+  if (!(error instanceof CommanderError)) throw error;
+  // 显示帮助和版本号时 exitCode 为 0
+  if (error.exitCode !== 0 && getOutputFormat() !== "text") {
+    outputError(new TmpError("INVALID_ARGUMENT", error.message));
+  }
+  process.exitCode = error.exitCode;
+}
@@ -0,0 +1,79 @@
+import { closeStorage } from "../db/db";
+import { toErrorObject } from "../errors";
+
+export type OutputFormat = "text" | "json" | "ndjson";
+
+let outputFormat: OutputFormat = "text";
+
+/**
+ * 设置命令行的输出格式
+ * @param format text：面向人的文本；json：一个 JSON 文档；ndjson：每行一个 JSON 对象
+ */
+export function setOutputFormat(format: OutputFormat) {
+  outputFormat = format;
+}
+
+/**
+ * 获取当前的输出格式
+ */
+export function getOutputFormat(): OutputFormat {
+  return outputFormat;
+}
+
+/**
+ * 输出命令的结果
+ * json 模式下输出 data 本身，ndjson 模式下数组的每一项输出为一行，text 模式下调用 printText
+ * @param data 结构化的结果
+ * @param printText 以文本形式打印结果
+ */
+export function output<T>(data: T, printText: (data: T) => void) {
+  if (outputFormat === "json") {
+    console.log(JSON.stringify(data, null, 2));
+  } else if (outputFormat === "ndjson") {
+    for (const item of Array.isArray(data) ? data : [data]) {
+      console.log(JSON.stringify(item));
+    }
+  } else {
+    printText(data);
+  }
+}
+
+/**
+ * 输出错误并将退出码设为 1
+ * @param error 捕获到的错误
+ */
+export function outputError(error: unknown) {
+  process.exitCode = 1;
+
+  const errorObject = toErrorObject(error);
+  if (outputFormat === "text") {
+    console.error(`❌ Error: ${errorObject.message}`);
+  } else {
+    console.log(
+      JSON.stringify(
+        { error: errorObject },
+        null,
+        outputFormat === "json" ? 2 : undefined
+      )
+    );
+  }
+}
+
+/**
+ * 包装命令的 action，统一处理错误输出和退出码
+ * @param fn 命令的 action
+ * @returns 可传给 commander 的 action
+ */
+export function action<Args extends any[]>(
+  fn: (...args: Args) => Promise<void>
+): (...args: Args) => Promise<void> {
+  return async (...args: Args) => {
+    try {
+      await fn(...args);
+    } catch (error) {
+      outputError(error);
+    } finally {
+      await closeStorage();
+    }
+  };
+}
@@ -0,0 +1,127 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ConfigError } from "./errors";
+
+export const CONFIG_FILE = "tmp.config.json";
+
+/** 默认的数据目录，存放全局的状态与缓存 */
+export const DEFAULT_DATA_DIR = path.join(os.homedir(), ".too-many-plugins");
+
+export type StorageDriverName = "fs" | "local" | "redis" | "memory";
+
+export interface StorageConfig {
+  /**
+   * fs：文件系统（默认，位于 path 或 ~/.too-many-plugins/db）；
+   * local：当前目录下的 .tmp/db；redis：url 指向的 Redis；memory：仅保存在内存中，用于测试
+   */
+  driver: StorageDriverName;
+  /** fs 驱动的目录 */
+  path?: string;
+  /** redis 驱动的连接地址 */
+  url?: string;
+  /** 所有键的前缀，用于在同一个存储中隔离多份状态 */
+  namespace?: string;
+}
+
+export interface TmpConfig {
+  storage: StorageConfig;
+  /** 安全公告数据库（YAML 或 JSON）的路径 */
+  advisories: string[];
+}
+
+/** 默认的安全公告数据库，不存在时视为没有公告 */
+export const DEFAULT_ADVISORIES_FILE = path.join(
+  DEFAULT_DATA_DIR,
+  "advisories.yml"
+);
+
+const STORAGE_DRIVERS: StorageDriverName[] = ["fs", "local", "redis", "memory"];
+
+/**
+ * 读取配置
+ * 配置文件为 TMP_CONFIG 指向的文件或当前目录下的 tmp.config.json，环境变量优先于配置文件：
+ * TMP_STORAGE、TMP_STORAGE_PATH、TMP_REDIS_URL、TMP_STORAGE_NAMESPACE、TMP_ADVISORIES
+ * @returns 合并后的配置
+ * @throws 如果配置文件无法解析或取值无效
+ */
+export function loadConfig(): TmpConfig {
+  const file = loadConfigFile();
+  const storage: StorageConfig = {
+    driver: process.env.TMP_STORAGE ?? file.storage?.driver ?? "fs",
+    path: process.env.TMP_STORAGE_PATH ?? file.storage?.path,
+    url: process.env.TMP_REDIS_URL ?? file.storage?.url,
+    namespace: process.env.TMP_STORAGE_NAMESPACE ?? file.storage?.namespace,
+  } as StorageConfig;
+
+  if (!STORAGE_DRIVERS.includes(storage.driver)) {
+    throw new ConfigError(
+      `Unknown storage driver "${
+        storage.driver
+      }", expected one of ${STORAGE_DRIVERS.join(", ")}`
+    );
+  }
+  if (storage.driver === "redis" && !storage.url) {
+    throw new ConfigError(
+      "The redis storage driver requires TMP_REDIS_URL or storage.url"
+    );
+  }
+
+  const advisories =
+    process.env.TMP_ADVISORIES !== undefined
+      ? process.env.TMP_ADVISORIES.split(path.delimiter)
+          .filter(Boolean)
+          .map((file) => path.resolve(file))
+      : file.advisories ?? [DEFAULT_ADVISORIES_FILE];
+  if (
+    !Array.isArray(advisories) ||
+    advisories.some((file) => typeof file !== "string")
+  ) {
+    throw new ConfigError('"advisories" must be a list of file paths');
+  }
+
+  return { storage, advisories };
+}
+
+function loadConfigFile(): Partial<TmpConfig> {
+  const configPath = process.env.TMP_CONFIG
+    ? path.resolve(process.env.TMP_CONFIG)
+    : path.resolve(CONFIG_FILE);
+
+  let content: string;
+  try {
+    content = fs.readFileSync(configPath, "utf-8");
+  } catch (error) {
+    if (process.env.TMP_CONFIG) {
+      throw new ConfigError(`Config file not found: ${configPath}`);
+    }
+    return {};
+  }
+
+  try {
+    const config = JSON.parse(content);
+    if (typeof config !== "object" || config === null) {
+      throw new Error("expected an object");
+    }
+    // 相对路径以配置文件所在目录为基准
+    if (typeof config.storage?.path === "string") {
+      config.storage.path = path.resolve(
+        path.dirname(configPath),
+        config.storage.path
+      );
+    }
+    if (typeof config.advisories === "string") {
+      config.advisories = [config.advisories];
+    }
+    if (Array.isArray(config.advisories)) {
+      config.advisories = config.advisories.map((file: unknown) =>
+        typeof file === "string"
+          ? path.resolve(path.dirname(configPath), file)
+          : file
+      );
+    }
+    return config;
+  } catch (error) {
+    throw new ConfigError(`Invalid ${configPath}: ${(error as Error).message}`);
+  }
+}
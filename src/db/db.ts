@@ -0,0 +1,84 @@
+import path from "node:path";
+import { createStorage, Storage } from "unstorage";
+import fsLiteDriver from "unstorage/drivers/fs-lite";
+import memoryDriver from "unstorage/drivers/memory";
+import { DEFAULT_DATA_DIR, loadConfig, StorageConfig } from "../config";
+import { migrateLegacyKeys } from "./migrate";
+
+let storagePromise: Promise<Storage> | null = null;
+
+/**
+ * 获取共享的存储
+ * 首次调用时根据配置创建存储，并将旧版本的整块数据迁移为按条目存储
+ * @returns 存储实例
+ * @throws 如果配置无效
+ */
+export function getStorage(): Promise<Storage> {
+  if (!storagePromise) {
+    storagePromise = createConfiguredStorage().catch((error) => {
+      storagePromise = null;
+      throw error;
+    });
+  }
+  return storagePromise;
+}
+
+/**
+ * 替换共享的存储，用于将 tmp 嵌入到其他程序中或在测试中使用内存存储
+ * @param storage 存储实例，为 null 时下次调用 getStorage 会重新读取配置
+ */
+export function setStorage(storage: Storage | null): void {
+  storagePromise = storage ? Promise.resolve(storage) : null;
+}
+
+/**
+ * 关闭共享的存储，释放 Redis 连接等资源，使进程可以正常退出
+ */
+export async function closeStorage(): Promise<void> {
+  if (!storagePromise) return;
+  const storage = await storagePromise.catch(() => null);
+  storagePromise = null;
+  await storage?.dispose();
+}
+
+/**
+ * 根据配置创建存储（不进行迁移）
+ * @param config 存储配置
+ * @returns 存储实例
+ */
+export async function createStorageFromConfig(
+  config: StorageConfig
+): Promise<Storage> {
+  // 命名空间作为驱动的 base，而不是使用 prefixStorage（它不会为批量读取加上前缀）
+  const namespace = config.namespace ?? "";
+  switch (config.driver) {
+    case "memory":
+      return createStorage({ driver: memoryDriver() });
+    case "local":
+      return createStorage({
+        driver: fsLiteDriver({ base: path.resolve(".tmp", "db", namespace) }),
+      });
+    case "redis": {
+      // 只有使用 Redis 时才加载 ioredis
+      const { default: redisDriver } = await import("unstorage/drivers/redis");
+      return createStorage({
+        driver: redisDriver({ url: config.url, base: namespace }),
+      });
+    }
+    default:
+      return createStorage({
+        driver: fsLiteDriver({
+          base: path.join(
+            config.path ?? path.join(DEFAULT_DATA_DIR, "db"),
+            namespace
+          ),
+        }),
+      });
+  }
+}
+
+async function createConfiguredStorage(): Promise<Storage> {
+  const storage = await createStorageFromConfig(loadConfig().storage);
+  await migrateLegacyKeys(storage);
+  return storage;
+}
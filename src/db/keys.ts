@@ -0,0 +1,61 @@
+import crypto from "node:crypto";
+
+/**
+ * 存储中使用的键
+ * 每个插件库、服务端和 Jar 都有自己的键，修改一项时不需要重写其他项；
+ * 一个键不能是另一个键的前缀（文件系统驱动中会同时成为文件和目录），因此条目与列表使用不同的前缀
+ */
+
+export const LIBRARY_PREFIX = "tmp:library";
+export const LIBRARY_PLUGINS_PREFIX = "tmp:library-plugins";
+export const SERVER_PREFIX = "tmp:server";
+export const SERVER_GROUP_PREFIX = "tmp:server-group";
+export const SERVER_TEMPLATE_PREFIX = "tmp:server-template";
+export const PLUGIN_INFO_PREFIX = "tmp:plugin-info";
+export const BUNDLE_INFO_PREFIX = "tmp:bundle-info";
+
+/** 插件库本身的信息（不含插件） */
+export function libraryKey(id: string): string {
+  return `${LIBRARY_PREFIX}:${encodeId(id)}`;
+}
+
+/** 插件库中所有 Jar 的键的前缀 */
+export function libraryPluginsBase(id: string): string {
+  return `${LIBRARY_PLUGINS_PREFIX}:${encodeId(id)}`;
+}
+
+/** 插件库中一个 Jar 的插件条目 */
+export function libraryPluginKey(id: string, jarPath: string): string {
+  return `${libraryPluginsBase(id)}:${hashPath(jarPath)}`;
+}
+
+export function serverKey(id: string): string {
+  return `${SERVER_PREFIX}:${encodeId(id)}`;
+}
+
+export function serverGroupKey(id: string): string {
+  return `${SERVER_GROUP_PREFIX}:${encodeId(id)}`;
+}
+
+export function serverTemplateKey(id: string): string {
+  return `${SERVER_TEMPLATE_PREFIX}:${encodeId(id)}`;
+}
+
+/** 一个 Jar 的插件信息缓存 */
+export function pluginInfoKey(jarPath: string): string {
+  return `${PLUGIN_INFO_PREFIX}:${hashPath(jarPath)}`;
+}
+
+/** 一个 zip 中所有 Jar 的插件信息缓存 */
+export function bundleInfoKey(zipPath: string): string {
+  return `${BUNDLE_INFO_PREFIX}:${hashPath(zipPath)}`;
+}
+
+/** ID 由用户输入，编码后不会包含键的分隔符 */
+function encodeId(id: string): string {
+  return encodeURIComponent(id);
+}
+
+function hashPath(filePath: string): string {
+  return crypto.createHash("sha1").update(filePath).digest("hex");
+}
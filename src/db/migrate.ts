@@ -0,0 +1,46 @@
+import { Storage } from "unstorage";
+import { Libraries } from "../types/library";
+import { ServerList } from "../types/server";
+import { libraryKey, libraryPluginKey, serverKey } from "./keys";
+
+/** 旧版本将所有插件库、服务端和插件信息缓存分别保存在一个键中 */
+const LEGACY_LIBRARIES_KEY = "tmp:plugin:libraries";
+const LEGACY_SERVERS_KEY = "tmp:servers";
+const LEGACY_PLUGIN_CACHE_KEY = "tmp:plugin:info-cache";
+
+/**
+ * 将旧版本的整块数据拆分为按条目存储的键，迁移完成后删除旧键
+ * 插件信息缓存不迁移，需要时会重新读取 Jar
+ * @param storage 存储实例
+ */
+export async function migrateLegacyKeys(storage: Storage): Promise<void> {
+  const libraries = await storage.getItem<Libraries>(LEGACY_LIBRARIES_KEY);
+  if (libraries) {
+    for (const library of Object.values(libraries)) {
+      await storage.setItem(libraryKey(library.id), {
+        id: library.id,
+        path: library.path,
+      });
+      const jars = new Map<string, typeof library.plugins>();
+      for (const plugin of library.plugins) {
+        jars.set(plugin.jarPath, [...(jars.get(plugin.jarPath) ?? []), plugin]);
+      }
+      for (const [jarPath, plugins] of jars) {
+        await storage.setItem(libraryPluginKey(library.id, jarPath), plugins);
+      }
+    }
+    await storage.removeItem(LEGACY_LIBRARIES_KEY);
+  }
+
+  const servers = await storage.getItem<ServerList>(LEGACY_SERVERS_KEY);
+  if (servers) {
+    for (const server of Object.values(servers)) {
+      await storage.setItem(serverKey(server.id), server);
+    }
+    await storage.removeItem(LEGACY_SERVERS_KEY);
+  }
+
+  if (await storage.hasItem(LEGACY_PLUGIN_CACHE_KEY)) {
+    await storage.removeItem(LEGACY_PLUGIN_CACHE_KEY);
+  }
+}
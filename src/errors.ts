@@ -0,0 +1,381 @@
+import { SupportedPlatform } from "./types/supported-platform";
+
+/**
+ * tmp 所有错误的基类
+ * code 是稳定的错误码，供脚本判断错误类型，不会随错误信息的措辞变化
+ */
+export class TmpError extends Error {
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = "TmpError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** 错误的可序列化形式，用于 JSON 输出与 HTTP API 的响应 */
+export interface ErrorObject {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+/**
+ * 将任意错误转换为带有稳定错误码的对象
+ * @param error 捕获到的错误
+ * @returns 错误对象，非 TmpError 的错误码为 UNKNOWN_ERROR
+ */
+export function toErrorObject(error: unknown): ErrorObject {
+  if (error instanceof TmpError) {
+    return {
+      code: error.code,
+      message: error.message,
+      ...(error.details === undefined ? {} : { details: error.details }),
+    };
+  }
+  return {
+    code: "UNKNOWN_ERROR",
+    message: (error as any)?.message ?? String(error),
+  };
+}
+
+export class LibraryNotFoundError extends TmpError {
+  constructor(readonly libraryId: string) {
+    super("LIBRARY_NOT_FOUND", `Library not found: ${libraryId}`, {
+      libraryId,
+    });
+    this.name = "LibraryNotFoundError";
+  }
+}
+
+export class LibraryExistsError extends TmpError {
+  constructor(readonly libraryId: string) {
+    super("LIBRARY_EXISTS", `Library already exists: ${libraryId}`, {
+      libraryId,
+    });
+    this.name = "LibraryExistsError";
+  }
+}
+
+export class ServerNotFoundError extends TmpError {
+  constructor(readonly serverId: string) {
+    super("SERVER_NOT_FOUND", `Server not found: ${serverId}`, { serverId });
+    this.name = "ServerNotFoundError";
+  }
+}
+
+export class ServerExistsError extends TmpError {
+  constructor(readonly serverId: string) {
+    super("SERVER_EXISTS", `Server already exists: ${serverId}`, {
+      serverId,
+    });
+    this.name = "ServerExistsError";
+  }
+}
+
+export class ServerTemplateNotFoundError extends TmpError {
+  constructor(readonly templateId: string) {
+    super(
+      "SERVER_TEMPLATE_NOT_FOUND",
+      `Server template not found: ${templateId}`,
+      { templateId }
+    );
+    this.name = "ServerTemplateNotFoundError";
+  }
+}
+
+export class ServerTemplateExistsError extends TmpError {
+  constructor(readonly templateId: string) {
+    super(
+      "SERVER_TEMPLATE_EXISTS",
+      `Server template already exists: ${templateId}`,
+      { templateId }
+    );
+    this.name = "ServerTemplateExistsError";
+  }
+}
+
+/** 要创建服务端的文件夹中已经有插件或插件清单 */
+export class PathInUseError extends TmpError {
+  constructor(readonly path: string) {
+    super("PATH_IN_USE", `Directory already contains a server: ${path}`, {
+      path,
+    });
+    this.name = "PathInUseError";
+  }
+}
+
+export class GroupNotFoundError extends TmpError {
+  constructor(readonly groupId: string) {
+    super("GROUP_NOT_FOUND", `Server group not found: ${groupId}`, {
+      groupId,
+    });
+    this.name = "GroupNotFoundError";
+  }
+}
+
+export class GroupExistsError extends TmpError {
+  constructor(readonly groupId: string) {
+    super("GROUP_EXISTS", `Server group already exists: ${groupId}`, {
+      groupId,
+    });
+    this.name = "GroupExistsError";
+  }
+}
+
+/** 分组ID或成员无效，或分组之间存在循环引用 */
+export class InvalidGroupError extends TmpError {
+  constructor(message: string, details?: unknown) {
+    super("INVALID_GROUP", message, details);
+    this.name = "InvalidGroupError";
+  }
+}
+
+export class InvalidPathError extends TmpError {
+  constructor(readonly path: string) {
+    super("INVALID_PATH", `Directory does not exist: ${path}`, { path });
+    this.name = "InvalidPathError";
+  }
+}
+
+export class InvalidPlatformError extends TmpError {
+  constructor(readonly platform: string) {
+    super("INVALID_PLATFORM", `Invalid platform type: ${platform}`, {
+      platform,
+    });
+    this.name = "InvalidPlatformError";
+  }
+}
+
+export class PluginNotFoundError extends TmpError {
+  constructor(readonly plugin: string) {
+    super("PLUGIN_NOT_FOUND", `Plugin not found: ${plugin}`, { plugin });
+    this.name = "PluginNotFoundError";
+  }
+}
+
+/** Jar 中没有插件描述文件，例如依赖库，不能作为插件安装 */
+export class NotAPluginError extends TmpError {
+  constructor(readonly jarPath: string) {
+    super("NOT_A_PLUGIN", `No plugin descriptor found in ${jarPath}`, {
+      jarPath,
+    });
+    this.name = "NotAPluginError";
+  }
+}
+
+/** 插件库中没有满足条件的插件 */
+export class NoMatchingPluginError extends TmpError {
+  constructor(message: string, details?: unknown) {
+    super("NO_MATCHING_PLUGIN", message, details);
+    this.name = "NoMatchingPluginError";
+  }
+}
+
+/** 插件所需的 Minecraft 版本（api-version）高于服务端的版本 */
+export class IncompatiblePluginError extends TmpError {
+  constructor(
+    readonly plugin: string,
+    readonly apiVersion: string,
+    readonly gameVersion: string
+  ) {
+    super(
+      "INCOMPATIBLE_PLUGIN",
+      `${plugin} requires Minecraft ${apiVersion} or newer, but the server runs ${gameVersion}`,
+      { plugin, apiVersion, gameVersion }
+    );
+    this.name = "IncompatiblePluginError";
+  }
+}
+
+/** 插件的平台与服务端的平台不兼容 */
+export class IncompatiblePlatformError extends TmpError {
+  constructor(
+    readonly plugin: string,
+    readonly platforms: SupportedPlatform[],
+    readonly serverPlatform: SupportedPlatform
+  ) {
+    super(
+      "INCOMPATIBLE_PLATFORM",
+      `${plugin} is a ${platforms.join(
+        "/"
+      )} plugin and can't run on a ${serverPlatform} server`,
+      { plugin, platforms, serverPlatform }
+    );
+    this.name = "IncompatiblePlatformError";
+  }
+}
+
+/** 插件的平台无法从字节码确认（platformConfidence 为 low） */
+export class UncertainPlatformError extends TmpError {
+  constructor(
+    readonly plugin: string,
+    readonly platforms: SupportedPlatform[]
+  ) {
+    super(
+      "UNCERTAIN_PLATFORM",
+      `The platform of ${plugin} could not be confirmed from its classes, it is only assumed to be ${platforms.join(
+        "/"
+      )}`,
+      { plugin, platforms }
+    );
+    this.name = "UncertainPlatformError";
+  }
+}
+
+export class InvalidVersionConstraintError extends TmpError {
+  constructor(readonly constraint: string) {
+    super(
+      "INVALID_VERSION_CONSTRAINT",
+      `Invalid version constraint: ${constraint}`,
+      { constraint }
+    );
+    this.name = "InvalidVersionConstraintError";
+  }
+}
+
+/** 依赖无法解析，details.tree 为格式化后的依赖树 */
+export class DependencyResolutionError extends TmpError {
+  constructor(readonly tree: string) {
+    super(
+      "DEPENDENCY_RESOLUTION_FAILED",
+      `Unable to resolve dependencies:\n${tree}`,
+      { tree }
+    );
+    this.name = "DependencyResolutionError";
+  }
+}
+
+/**
+ * 插件清单或锁文件相关的错误
+ * code 为 MANIFEST_NOT_FOUND、INVALID_MANIFEST、LOCKFILE_NOT_FOUND、INVALID_LOCKFILE 或 LOCKFILE_OUTDATED
+ */
+export class ManifestError extends TmpError {
+  constructor(
+    code:
+      | "MANIFEST_NOT_FOUND"
+      | "INVALID_MANIFEST"
+      | "LOCKFILE_NOT_FOUND"
+      | "INVALID_LOCKFILE"
+      | "LOCKFILE_OUTDATED",
+    message: string,
+    details?: unknown
+  ) {
+    super(code, message, details);
+    this.name = "ManifestError";
+  }
+}
+
+export class SnapshotNotFoundError extends TmpError {
+  constructor(message: string, details?: unknown) {
+    super("SNAPSHOT_NOT_FOUND", message, details);
+    this.name = "SnapshotNotFoundError";
+  }
+}
+
+/** 文件在快照之后被修改过，回滚需要 force */
+export class RollbackConflictError extends TmpError {
+  constructor(message: string, details?: unknown) {
+    super("ROLLBACK_CONFLICT", message, details);
+    this.name = "RollbackConflictError";
+  }
+}
+
+/** 读取 jar 或解析其中的插件描述文件失败 */
+export class JarReadError extends TmpError {
+  constructor(message: string, details?: unknown) {
+    super("JAR_READ_FAILED", message, details);
+    this.name = "JarReadError";
+  }
+}
+
+/** 配置文件或环境变量无效 */
+export class ConfigError extends TmpError {
+  constructor(message: string, details?: unknown) {
+    super("INVALID_CONFIG", message, details);
+    this.name = "ConfigError";
+  }
+}
+
+/** 请求远程仓库失败 */
+export class RemoteRequestError extends TmpError {
+  constructor(readonly url: string, message: string, status?: number) {
+    super("REMOTE_REQUEST_FAILED", message, { url, status });
+    this.name = "RemoteRequestError";
+  }
+}
+
+/** 下载的文件与仓库公布的 hash 不一致 */
+export class HashMismatchError extends TmpError {
+  constructor(readonly url: string, algorithm: string) {
+    super(
+      "HASH_MISMATCH",
+      `Downloaded file does not match its published ${algorithm}: ${url}`,
+      { url, algorithm }
+    );
+    this.name = "HashMismatchError";
+  }
+}
+
+export class NotRemoteLibraryError extends TmpError {
+  constructor(readonly libraryId: string) {
+    super(
+      "NOT_REMOTE_LIBRARY",
+      `Library is not a remote library: ${libraryId}`,
+      {
+        libraryId,
+      }
+    );
+    this.name = "NotRemoteLibraryError";
+  }
+}
+
+/** 配置模板引用了未定义的变量 */
+export class TemplateError extends TmpError {
+  constructor(readonly variables: string[], readonly file?: string) {
+    super(
+      "TEMPLATE_VARIABLE_MISSING",
+      `Undefined template variable${
+        variables.length > 1 ? "s" : ""
+      } ${variables.join(", ")}${file ? ` in ${file}` : ""}`,
+      { variables, file }
+    );
+    this.name = "TemplateError";
+  }
+}
+
+/** 公告数据库无法读取或格式不正确 */
+export class AdvisoryDatabaseError extends TmpError {
+  constructor(readonly file: string, message: string) {
+    super(
+      "INVALID_ADVISORY_DATABASE",
+      `Invalid advisories in ${file}: ${message}`,
+      {
+        file,
+      }
+    );
+    this.name = "AdvisoryDatabaseError";
+  }
+}
+
+/** 要安装的插件命中了 action 为 block 的安全公告 */
+export class PluginBlockedError extends TmpError {
+  constructor(
+    readonly matches: { plugin: string; version?: string; advisory: string }[]
+  ) {
+    super(
+      "PLUGIN_BLOCKED",
+      `Blocked by security advisories: ${matches
+        .map(
+          ({ plugin, version, advisory }) =>
+            `${plugin}${version ? ` v${version}` : ""} (${advisory})`
+        )
+        .join(", ")}; use --ignore-advisories to install anyway`,
+      { matches }
+    );
+    this.name = "PluginBlockedError";
+  }
+}
@@ -0,0 +1,262 @@
+import consola from "consola";
+import fs from "node:fs/promises";
+import { load } from "js-yaml";
+import { DEFAULT_ADVISORIES_FILE, loadConfig } from "../../config";
+import {
+  AdvisoryDatabaseError,
+  PluginBlockedError,
+  TmpError,
+} from "../../errors";
+import { Advisory, AdvisorySeverity } from "../../types/advisory";
+import { ServerPluginEntry } from "../../types/library";
+import { satisfiesVersion } from "../library/version-range";
+
+export const ADVISORY_SEVERITIES: AdvisorySeverity[] = [
+  "low",
+  "medium",
+  "high",
+  "critical",
+];
+
+/** 用于匹配公告的插件，PluginEntry、ServerPluginEntry 与 LockedPlugin 都可以转换为它 */
+export interface AdvisoryTarget {
+  name?: string;
+  version?: string;
+  hash: string;
+}
+
+export interface AdvisoryMatch {
+  plugin: AdvisoryTarget;
+  advisory: Advisory;
+}
+
+/**
+ * 将插件库或服务端上的插件转换为用于匹配公告的插件
+ */
+export function advisoryTarget(plugin: ServerPluginEntry): AdvisoryTarget {
+  return {
+    name: plugin.info?.name,
+    version: plugin.info?.version,
+    hash: plugin.hash,
+  };
+}
+
+/**
+ * 读取配置中的所有安全公告数据库
+ * 文件为 YAML 或 JSON，内容为公告列表或 { advisories: [...] }；
+ * 默认的 ~/.too-many-plugins/advisories.yml 不存在时视为没有公告，配置中指定的文件必须存在
+ * @returns 所有公告
+ * @throws 如果文件无法读取、格式不正确或公告 ID 重复
+ */
+export async function loadAdvisories(): Promise<Advisory[]> {
+  const advisories: Advisory[] = [];
+  for (const file of loadConfig().advisories) {
+    let content: string;
+    try {
+      content = await fs.readFile(file, "utf-8");
+    } catch (error) {
+      const notFound = (error as NodeJS.ErrnoException).code === "ENOENT";
+      if (notFound && file === DEFAULT_ADVISORIES_FILE) continue;
+      throw new AdvisoryDatabaseError(
+        file,
+        notFound ? "file not found" : (error as Error).message
+      );
+    }
+
+    let raw: any;
+    try {
+      raw = load(content) ?? [];
+    } catch (error) {
+      throw new AdvisoryDatabaseError(file, (error as Error).message);
+    }
+    const list = Array.isArray(raw) ? raw : raw.advisories;
+    if (!Array.isArray(list)) {
+      throw new AdvisoryDatabaseError(
+        file,
+        'expected a list or an "advisories" list'
+      );
+    }
+
+    for (const [index, value] of list.entries()) {
+      const advisory = parseAdvisory(file, index, value);
+      const duplicate = advisories.find((a) => a.id === advisory.id);
+      if (duplicate) {
+        throw new AdvisoryDatabaseError(
+          file,
+          `duplicate advisory ${advisory.id}, also in ${duplicate.source}`
+        );
+      }
+      advisories.push(advisory);
+    }
+  }
+  return advisories;
+}
+
+/**
+ * 查找插件命中的公告
+ * SHA-256 一致时总是命中；公告只列出 SHA-256 时不按名称匹配，
+ * 否则名称一致且版本满足 versions（为空时为所有版本）时命中
+ * @param plugin 插件
+ * @param advisories 公告
+ * @returns 命中的公告，按严重程度从高到低排列
+ */
+export function matchAdvisories(
+  plugin: AdvisoryTarget,
+  advisories: Advisory[]
+): Advisory[] {
+  const hash = plugin.hash.toLowerCase();
+  return advisories
+    .filter((advisory) => {
+      if (advisory.sha256?.includes(hash)) return true;
+      if (!advisory.plugin || !plugin.name) return false;
+      if (advisory.sha256 && !advisory.versions) return false;
+      if (advisory.plugin.toLowerCase() !== plugin.name.toLowerCase()) {
+        return false;
+      }
+      return (
+        !advisory.versions ||
+        (!!plugin.version &&
+          satisfiesVersion(plugin.version, advisory.versions, {
+            includeSnapshots: true,
+          }))
+      );
+    })
+    .sort((a, b) => compareSeverity(b.severity, a.severity));
+}
+
+/**
+ * 检查即将安装的插件是否命中安全公告
+ * 命中 action 为 warn 的公告时输出警告；命中 block 的公告时拒绝安装，除非指定 ignoreAdvisories
+ * @param plugins 即将安装的插件
+ * @param options.ignoreAdvisories 命中 block 的公告时只输出警告
+ * @returns 所有命中的公告
+ * @throws 如果有插件命中 block 的公告
+ */
+export async function checkAdvisories(
+  plugins: AdvisoryTarget[],
+  options: { ignoreAdvisories?: boolean } = {}
+): Promise<AdvisoryMatch[]> {
+  const advisories = await loadAdvisories();
+  if (advisories.length === 0) return [];
+
+  const matches = plugins.flatMap((plugin) =>
+    matchAdvisories(plugin, advisories).map((advisory) => ({
+      plugin,
+      advisory,
+    }))
+  );
+  const blocked = matches.filter(({ advisory }) => advisory.action === "block");
+  if (blocked.length > 0 && !options.ignoreAdvisories) {
+    throw new PluginBlockedError(
+      blocked.map(({ plugin, advisory }) => ({
+        plugin: plugin.name ?? plugin.hash,
+        version: plugin.version,
+        advisory: advisory.id,
+      }))
+    );
+  }
+
+  for (const { plugin, advisory } of matches) {
+    consola.warn(
+      `${plugin.name ?? plugin.hash}${
+        plugin.version ? ` v${plugin.version}` : ""
+      } is affected by ${advisory.id} (${advisory.severity})${
+        advisory.summary ? `: ${advisory.summary}` : ""
+      }`
+    );
+  }
+  return matches;
+}
+
+/**
+ * 判断插件是否命中 action 为 block 的公告
+ */
+export function isBlocked(
+  plugin: AdvisoryTarget,
+  advisories: Advisory[]
+): boolean {
+  return matchAdvisories(plugin, advisories).some(
+    (advisory) => advisory.action === "block"
+  );
+}
+
+/**
+ * 比较严重程度
+ * @returns a 更严重时为正数，较轻时为负数，相同时为 0
+ */
+export function compareSeverity(
+  a: AdvisorySeverity,
+  b: AdvisorySeverity
+): number {
+  return ADVISORY_SEVERITIES.indexOf(a) - ADVISORY_SEVERITIES.indexOf(b);
+}
+
+function parseAdvisory(file: string, index: number, value: any): Advisory {
+  const invalid = (message: string) =>
+    new AdvisoryDatabaseError(
+      file,
+      `advisory ${
+        typeof value?.id === "string" ? value.id : `#${index + 1}`
+      } ${message}`
+    );
+
+  if (typeof value !== "object" || value === null) {
+    throw invalid("must be a mapping");
+  }
+  if (typeof value.id !== "string" || !value.id) {
+    throw invalid('must have an "id"');
+  }
+  if (!ADVISORY_SEVERITIES.includes(value.severity)) {
+    throw invalid(
+      `"severity" must be one of ${ADVISORY_SEVERITIES.join(", ")}`
+    );
+  }
+  // YAML 中未加引号的版本号会被解析为数字
+  if (typeof value.versions === "number") {
+    value.versions = String(value.versions);
+  }
+  if (value.action !== undefined && !["warn", "block"].includes(value.action)) {
+    throw invalid('"action" must be warn or block');
+  }
+  for (const key of ["plugin", "versions", "summary", "url"]) {
+    if (value[key] !== undefined && typeof value[key] !== "string") {
+      throw invalid(`"${key}" must be a string`);
+    }
+  }
+
+  const sha256 =
+    value.sha256 === undefined
+      ? undefined
+      : (Array.isArray(value.sha256) ? value.sha256 : [value.sha256]).map(
+          (hash: unknown) => {
+            if (typeof hash !== "string" || !/^[0-9a-f]{64}$/i.test(hash)) {
+              throw invalid('"sha256" must be SHA-256 hex digests');
+            }
+            return hash.toLowerCase();
+          }
+        );
+  if (!value.plugin && !sha256) {
+    throw invalid('must have a "plugin" or "sha256"');
+  }
+  if (value.versions !== undefined) {
+    if (!value.plugin) throw invalid('has "versions" but no "plugin"');
+    try {
+      satisfiesVersion("0.0.0", value.versions);
+    } catch (error) {
+      if (error instanceof TmpError) throw invalid(error.message);
+      throw error;
+    }
+  }
+
+  return {
+    id: value.id,
+    severity: value.severity,
+    action: value.action ?? (value.severity === "critical" ? "block" : "warn"),
+    ...(value.plugin ? { plugin: value.plugin } : {}),
+    ...(value.versions ? { versions: value.versions } : {}),
+    ...(sha256 ? { sha256 } : {}),
+    ...(value.summary ? { summary: value.summary } : {}),
+    ...(value.url ? { url: value.url } : {}),
+    source: file,
+  };
+}
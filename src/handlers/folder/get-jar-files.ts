@@ -5,9 +5,13 @@ import path from "path";
 /**
  * 获取指定文件夹下所有的 .jar 文件列表，返回绝对路径
  * @param folderPath 要搜索的文件夹路径
+ * @param options.includeDisabled 是否包括被禁用的 .jar.disabled 文件
  * @returns 包含所有 .jar 文件绝对路径的数组
  */
-export async function getJarFiles(folderPath: string): Promise<string[]> {
+export async function getJarFiles(
+  folderPath: string,
+  options: { includeDisabled?: boolean } = {}
+): Promise<string[]> {
   try {
     // 将输入的路径转换为绝对路径
     const absoluteFolderPath = path.resolve(folderPath);
@@ -16,13 +20,18 @@ export async function getJarFiles(folderPath: string): Promise<string[]> {
     const files = await fs.promises.readdir(absoluteFolderPath);
 
     // 过滤出 .jar 文件并获取绝对路径
+    const extensions = options.includeDisabled
+      ? [".jar", ".jar.disabled"]
+      : [".jar"];
     const jarFiles = files
-      .filter((file) => path.extname(file).toLowerCase() === ".jar")
+      .filter((file) =>
+        extensions.some((extension) => file.toLowerCase().endsWith(extension))
+      )
       .map((file) => path.join(absoluteFolderPath, file));
 
     return jarFiles;
   } catch (error) {
-    consola.error("嘎！读取文件夹时发生错误:", error);
+    consola.error("Failed to read directory:", error);
     return [];
   }
 }
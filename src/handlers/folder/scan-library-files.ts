@@ -0,0 +1,57 @@
+import consola from "consola";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { LibraryScanOptions } from "../../types/library";
+import { globToRegExp } from "../../utils/glob";
+
+/** 插件库中会被索引的文件，zip 中的 Jar 也会被索引 */
+const LIBRARY_FILE_EXTENSIONS = [".jar", ".zip"];
+
+/**
+ * 递归扫描插件库文件夹，列出要索引的 Jar 与 zip
+ * 以 . 开头的文件夹（如 .tmp-config）总是被跳过，符号链接的文件夹不会被进入
+ * @param folderPath 插件库文件夹的路径
+ * @param scan 扫描规则，include 与 exclude 匹配相对于插件库文件夹、使用 / 分隔的路径
+ * @returns 文件的绝对路径，按路径排序
+ */
+export async function scanLibraryFiles(
+  folderPath: string,
+  scan: LibraryScanOptions = {}
+): Promise<string[]> {
+  const root = path.resolve(folderPath);
+  const include = scan.include?.map(globToRegExp);
+  const exclude = (scan.exclude ?? []).map(globToRegExp);
+  const maxDepth = scan.maxDepth ?? Infinity;
+  const files: string[] = [];
+
+  const walk = async (relative: string, depth: number) => {
+    const entries = await fs
+      .readdir(path.join(root, relative), { withFileTypes: true })
+      .catch((error) => {
+        // 子文件夹可能在扫描期间被删除，只报告插件库文件夹本身的错误
+        if (!relative) consola.error("Failed to read directory:", error);
+        return [];
+      });
+    for (const entry of entries) {
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (exclude.some((pattern) => pattern.test(entryPath))) continue;
+
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith(".") && depth < maxDepth) {
+          await walk(entryPath, depth + 1);
+        }
+      } else if (
+        entry.isFile() &&
+        LIBRARY_FILE_EXTENSIONS.includes(
+          path.extname(entry.name).toLowerCase()
+        ) &&
+        (!include || include.some((pattern) => pattern.test(entryPath)))
+      ) {
+        files.push(path.join(root, entryPath));
+      }
+    }
+  };
+
+  await walk("", 0);
+  return files.sort();
+}
@@ -0,0 +1,227 @@
+import { JarReadError } from "../../errors";
+
+export interface ClassFile {
+  /** class 文件的主版本号，例如 Java 17 为 61 */
+  majorVersion: number;
+  /** 类的内部名称，例如 org/bukkit/plugin/java/JavaPlugin */
+  name: string;
+  /** 父类的内部名称，java/lang/Object 没有父类 */
+  superName: string | null;
+  interfaces: string[];
+  /** 类上的注解类型（内部名称），包括 CLASS 与 RUNTIME 保留策略的注解 */
+  annotations: string[];
+  /** 常量池中引用的所有类，包括字段与方法描述符中出现的类型 */
+  referencedClasses: string[];
+}
+
+const CONSTANT_UTF8 = 1;
+const CONSTANT_CLASS = 7;
+
+/** 除 Utf8 外各常量池项的长度（不含 tag） */
+const CONSTANT_SIZES: { [tag: number]: number } = {
+  3: 4, // Integer
+  4: 4, // Float
+  5: 8, // Long
+  6: 8, // Double
+  7: 2, // Class
+  8: 2, // String
+  9: 4, // Fieldref
+  10: 4, // Methodref
+  11: 4, // InterfaceMethodref
+  12: 4, // NameAndType
+  15: 3, // MethodHandle
+  16: 2, // MethodType
+  17: 4, // Dynamic
+  18: 4, // InvokeDynamic
+  19: 2, // Module
+  20: 2, // Package
+};
+
+/**
+ * 解析 class 文件
+ * 只读取常量池、类名、父类、接口以及类上的注解，不解析字节码
+ * @param buffer class 文件的内容
+ * @returns 类的信息
+ * @throws 如果不是有效的 class 文件
+ */
+export function parseClassFile(buffer: Buffer): ClassFile {
+  try {
+    return new ClassFileReader(buffer).read();
+  } catch (error) {
+    if (error instanceof JarReadError) throw error;
+    throw new JarReadError(
+      `Invalid class file: ${(error as Error).message ?? error}`
+    );
+  }
+}
+
+class ClassFileReader {
+  private offset = 0;
+  private utf8: (string | undefined)[] = [];
+  private classes: (number | undefined)[] = [];
+
+  constructor(private readonly buffer: Buffer) {}
+
+  read(): ClassFile {
+    if (this.u4() !== 0xcafebabe) {
+      throw new JarReadError("Invalid class file: bad magic number");
+    }
+    this.u2(); // minor_version
+    const majorVersion = this.u2();
+
+    this.readConstantPool();
+
+    this.u2(); // access_flags
+    const name = this.className(this.u2())!;
+    const superName = this.className(this.u2());
+    const interfaces: string[] = [];
+    for (let count = this.u2(); count > 0; count--) {
+      interfaces.push(this.className(this.u2())!);
+    }
+
+    // 跳过字段与方法，只需要类本身的属性
+    for (let member = 0; member < 2; member++) {
+      for (let count = this.u2(); count > 0; count--) {
+        this.offset += 6; // access_flags, name_index, descriptor_index
+        this.skipAttributes();
+      }
+    }
+
+    const annotations: string[] = [];
+    for (let count = this.u2(); count > 0; count--) {
+      const attributeName = this.utf8[this.u2()];
+      const length = this.u4();
+      const end = this.offset + length;
+      if (
+        attributeName === "RuntimeVisibleAnnotations" ||
+        attributeName === "RuntimeInvisibleAnnotations"
+      ) {
+        for (let n = this.u2(); n > 0; n--) {
+          annotations.push(this.readAnnotation());
+        }
+      }
+      this.offset = end;
+    }
+
+    return {
+      majorVersion,
+      name,
+      superName,
+      interfaces,
+      annotations,
+      referencedClasses: this.referencedClasses(),
+    };
+  }
+
+  private readConstantPool() {
+    const count = this.u2();
+    for (let index = 1; index < count; index++) {
+      const tag = this.u1();
+      if (tag === CONSTANT_UTF8) {
+        const length = this.u2();
+        this.utf8[index] = this.buffer.toString(
+          "utf8",
+          this.offset,
+          this.offset + length
+        );
+        this.offset += length;
+        continue;
+      }
+
+      const size = CONSTANT_SIZES[tag];
+      if (size === undefined) {
+        throw new JarReadError(`Invalid class file: unknown constant ${tag}`);
+      }
+      if (tag === CONSTANT_CLASS) {
+        this.classes[index] = this.buffer.readUInt16BE(this.offset);
+      }
+      this.offset += size;
+      // Long 与 Double 占用两个常量池位置
+      if (tag === 5 || tag === 6) index++;
+    }
+  }
+
+  private className(index: number): string | null {
+    if (index === 0) return null;
+    const nameIndex = this.classes[index];
+    const name = nameIndex === undefined ? undefined : this.utf8[nameIndex];
+    if (name === undefined) {
+      throw new JarReadError(`Invalid class file: bad class index ${index}`);
+    }
+    return name;
+  }
+
+  /**
+   * 读取一个注解
+   * @returns 注解类型的内部名称
+   */
+  private readAnnotation(): string {
+    const descriptor = this.utf8[this.u2()] ?? "";
+    for (let pairs = this.u2(); pairs > 0; pairs--) {
+      this.u2(); // element_name_index
+      this.skipElementValue();
+    }
+    return descriptor.replace(/^L/, "").replace(/;$/, "");
+  }
+
+  private skipElementValue() {
+    const tag = String.fromCharCode(this.u1());
+    if ("BCDFIJSZsc".includes(tag)) {
+      this.offset += 2;
+    } else if (tag === "e") {
+      this.offset += 4;
+    } else if (tag === "@") {
+      this.readAnnotation();
+    } else if (tag === "[") {
+      for (let count = this.u2(); count > 0; count--) {
+        this.skipElementValue();
+      }
+    } else {
+      throw new JarReadError(`Invalid class file: bad element value ${tag}`);
+    }
+  }
+
+  private skipAttributes() {
+    for (let count = this.u2(); count > 0; count--) {
+      this.offset += 2;
+      this.offset += this.u4();
+    }
+  }
+
+  private referencedClasses(): string[] {
+    const result = new Set<string>();
+    for (const nameIndex of this.classes) {
+      if (nameIndex === undefined) continue;
+      const name = this.utf8[nameIndex];
+      if (!name) continue;
+      // 数组类型的名称为描述符，例如 [Lorg/bukkit/entity/Player;
+      const element = name.match(/^\[+L(.+);$/);
+      if (element) result.add(element[1]);
+      else if (!name.startsWith("[")) result.add(name);
+    }
+    // 字段与方法描述符中的类型，例如 (Lorg/bukkit/entity/Player;)V
+    for (const value of this.utf8) {
+      if (!value || !value.includes(";")) continue;
+      for (const match of value.matchAll(/L([\w/$]+);/g)) {
+        result.add(match[1]);
+      }
+    }
+    return [...result];
+  }
+
+  private u1(): number {
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  private u2(): number {
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  private u4(): number {
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+}
@@ -0,0 +1,88 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { compareGameVersions } from "../platform/compatibility";
+import { JarReader, openJar } from "./jar-reader";
+
+const GAME_VERSION_PATTERN = /\d+\.\d+(?:\.\d+)?/;
+
+/**
+ * 检测服务端运行的 Minecraft 版本
+ * 依次检查服务端文件夹中的 Jar：version.json（原版与 Paperclip）、Paperclip 的 META-INF/versions.list、
+ * MANIFEST.MF 中的版本号（Spigot 与 Paper）；都没有时使用 Paperclip 解压出的 versions/ 与 cache/ 文件夹
+ * @param serverPath 服务端的路径
+ * @returns Minecraft 版本，无法检测时返回 null
+ */
+export async function detectGameVersion(
+  serverPath: string
+): Promise<string | null> {
+  const entries = await fs
+    .readdir(serverPath, { withFileTypes: true })
+    .catch(() => []);
+
+  const jars = entries
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".jar"))
+    .map((entry) => path.join(serverPath, entry.name))
+    .sort();
+  for (const jarPath of jars) {
+    const version = readVersionFromJar(jarPath);
+    if (version) return version;
+  }
+
+  // Paperclip 会将服务端解压到 versions/<版本>/，早期版本会下载 cache/mojang_<版本>.jar
+  const candidates: string[] = [];
+  for (const dir of ["versions", "cache"]) {
+    const names = await fs.readdir(path.join(serverPath, dir)).catch(() => []);
+    for (const name of names) {
+      const match = name.match(/^(?:mojang_)?(\d+\.\d+(?:\.\d+)?)(?:\.jar)?$/);
+      if (match) candidates.push(match[1]);
+    }
+  }
+  return candidates.sort(compareGameVersions).pop() ?? null;
+}
+
+function readVersionFromJar(jarPath: string): string | null {
+  let jar: JarReader;
+  try {
+    jar = openJar(jarPath);
+  } catch (error) {
+    return null;
+  }
+
+  const versionJson = tryReadFile(jar, "version.json");
+  if (versionJson) {
+    try {
+      const { id, name } = JSON.parse(versionJson);
+      for (const value of [id, name]) {
+        if (typeof value === "string" && /^\d+\.\d+/.test(value)) {
+          return value.match(GAME_VERSION_PATTERN)![0];
+        }
+      }
+    } catch (error) {
+      // 不是有效的 JSON，继续检查其他文件
+    }
+  }
+
+  // 每行为 <hash>\t<id>\t<path>，例如 paper-1.20.4
+  const versionsList = tryReadFile(jar, "META-INF/versions.list");
+  const listed = versionsList
+    ?.split("\n")
+    .map((line) => line.split("\t")[1]?.match(GAME_VERSION_PATTERN)?.[0])
+    .find(Boolean);
+  if (listed) return listed;
+
+  // Implementation-Version: git-Paper-496 (MC: 1.20.4)
+  // Specification-Version: 1.20.4-R0.1-SNAPSHOT
+  const manifest = tryReadFile(jar, "META-INF/MANIFEST.MF");
+  const fromManifest =
+    manifest?.match(/\(MC: (\d+\.\d+(?:\.\d+)?)\)/)?.[1] ??
+    manifest?.match(/^Specification-Version: (\d+\.\d+(?:\.\d+)?)-R/m)?.[1];
+  return fromManifest ?? null;
+}
+
+function tryReadFile(jar: JarReader, filePath: string): string | null {
+  try {
+    return jar.readText(filePath);
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,185 @@
+import { PlatformConfidence } from "../../types/plugin-info";
+import { SupportedPlatform } from "../../types/supported-platform";
+import { ClassFile, parseClassFile } from "./class-file";
+import { JarReader } from "./jar-reader";
+
+/** 插件主类最终必须继承的类 */
+const PLUGIN_BASE_CLASSES: { [className: string]: SupportedPlatform } = {
+  "org/bukkit/plugin/java/JavaPlugin": SupportedPlatform.Bukkit,
+  "net/md_5/bungee/api/plugin/Plugin": SupportedPlatform.BungeeCord,
+};
+
+/** 只在继承链无法确定时使用：主类及其父类引用了哪个平台的 API */
+const PLATFORM_PACKAGES: [string, SupportedPlatform][] = [
+  ["org/bukkit/", SupportedPlatform.Bukkit],
+  ["net/md_5/bungee/", SupportedPlatform.BungeeCord],
+];
+
+const VELOCITY_PLUGIN_ANNOTATION = "com/velocitypowered/api/plugin/Plugin";
+const PAPER_BOOTSTRAP = "io/papermc/paper/plugin/bootstrap/PluginBootstrap";
+const PAPER_LOADER = "io/papermc/paper/plugin/loader/PluginLoader";
+const FOLIA_SCHEDULER_PACKAGE = "io/papermc/paper/threadedregions/scheduler/";
+
+/** 继承链的最大深度，防止损坏的 Jar 导致死循环 */
+const MAX_DEPTH = 32;
+
+export interface PlatformDetection {
+  /** 无法确定时为 null */
+  platform: SupportedPlatform | null;
+  confidence: PlatformConfidence;
+}
+
+export interface JarClasses {
+  /**
+   * 读取并解析 Jar 中的类
+   * @param name 类的内部名称
+   * @returns 类的信息，Jar 中没有该类或无法解析时返回 null
+   */
+  load(name: string): ClassFile | null;
+  /** 判断 Jar 中是否有类引用了 Folia 的区域调度器 */
+  usesFoliaSchedulers(): boolean;
+}
+
+/**
+ * 按需解析 Jar 中的类，解析结果会被缓存
+ * @param jar 已打开的 Jar
+ */
+export function openJarClasses(jar: JarReader): JarClasses {
+  const cache = new Map<string, ClassFile | null>();
+  let foliaSchedulers: boolean | undefined;
+
+  const parse = (data: Buffer | null) => {
+    try {
+      return data ? parseClassFile(data) : null;
+    } catch (error) {
+      // 损坏的类视为不存在
+      return null;
+    }
+  };
+
+  return {
+    load(name) {
+      if (!cache.has(name)) cache.set(name, parse(jar.read(`${name}.class`)));
+      return cache.get(name)!;
+    },
+    usesFoliaSchedulers() {
+      foliaSchedulers ??= jar.entries().some((entry) => {
+        if (!entry.endsWith(".class")) return false;
+        const data = jar.read(entry);
+        // 先粗略过滤，只解析可能引用调度器的类
+        if (!data?.includes(FOLIA_SCHEDULER_PACKAGE)) return false;
+        return !!parse(data)?.referencedClasses.some((name) =>
+          name.startsWith(FOLIA_SCHEDULER_PACKAGE)
+        );
+      });
+      return foliaSchedulers;
+    },
+  };
+}
+
+/**
+ * 根据主类的继承链判断 plugin.yml 或 bungee.yml 插件的平台
+ * 继承链到达 JavaPlugin 或 BungeeCord 的 Plugin 时为 high；
+ * 父类不在 Jar 中（例如依赖其他插件提供的基类）时，根据继承链上的类引用的 API 判断，为 medium；
+ * 都无法判断时为 low
+ * @param classes Jar 中的类
+ * @param mainClass 主类的全限定名，例如 com.example.Main
+ * @returns 平台，主类不在 Jar 中时返回 null
+ */
+export function detectMainClassPlatform(
+  classes: JarClasses,
+  mainClass: string
+): PlatformDetection | null {
+  const chain = superclassChain(classes, mainClass.replace(/\./g, "/"));
+  if (chain.classes.length === 0) return null;
+  for (const name of chain.names) {
+    const platform = PLUGIN_BASE_CLASSES[name];
+    if (platform) return { platform, confidence: "high" };
+  }
+
+  const referenced = new Set<SupportedPlatform>();
+  for (const classFile of chain.classes) {
+    for (const name of classFile.referencedClasses) {
+      for (const [prefix, platform] of PLATFORM_PACKAGES) {
+        if (name.startsWith(prefix)) referenced.add(platform);
+      }
+    }
+  }
+  if (referenced.size === 1) {
+    return { platform: [...referenced][0], confidence: "medium" };
+  }
+  return { platform: null, confidence: "low" };
+}
+
+/**
+ * 判断 Velocity 插件的主类是否带有 @Plugin 注解
+ * @param classes Jar 中的类
+ * @param mainClass velocity-plugin.json 中的主类
+ */
+export function hasVelocityPluginAnnotation(
+  classes: JarClasses,
+  mainClass: string
+): boolean {
+  const classFile = classes.load(mainClass.replace(/\./g, "/"));
+  return !!classFile?.annotations.includes(VELOCITY_PLUGIN_ANNOTATION);
+}
+
+/**
+ * 判断 paper-plugin.yml 声明的入口是否为 Paper 插件
+ * bootstrapper 实现了 PluginBootstrap、loader 实现了 PluginLoader，或主类继承 JavaPlugin
+ * @param classes Jar 中的类
+ * @param entrypoints paper-plugin.yml 中的 main、bootstrapper 与 loader
+ */
+export function hasPaperEntrypoint(
+  classes: JarClasses,
+  entrypoints: { main?: string; bootstrapper?: string; loader?: string }
+): boolean {
+  const { main, bootstrapper, loader } = entrypoints;
+  return (
+    (!!bootstrapper &&
+      implementsInterface(classes, bootstrapper, PAPER_BOOTSTRAP)) ||
+    (!!loader && implementsInterface(classes, loader, PAPER_LOADER)) ||
+    (!!main &&
+      detectMainClassPlatform(classes, main)?.platform ===
+        SupportedPlatform.Bukkit)
+  );
+}
+
+/**
+ * 沿父类向上查找，直到离开 Jar
+ * @returns 继承链上所有类的名称（包括第一个不在 Jar 中的类），以及 Jar 中的类
+ */
+function superclassChain(classes: JarClasses, name: string) {
+  const names: string[] = [];
+  const found: ClassFile[] = [];
+  let current: string | null = name;
+  while (current && names.length < MAX_DEPTH && !names.includes(current)) {
+    names.push(current);
+    const classFile = classes.load(current);
+    if (!classFile) break;
+    found.push(classFile);
+    current = classFile.superName;
+  }
+  return { names, classes: found };
+}
+
+function implementsInterface(
+  classes: JarClasses,
+  className: string,
+  iface: string
+): boolean {
+  const visited = new Set<string>();
+  const pending = [className.replace(/\./g, "/")];
+  while (pending.length > 0 && visited.size < MAX_DEPTH * 4) {
+    const name = pending.pop()!;
+    if (name === iface) return true;
+    if (visited.has(name)) continue;
+    visited.add(name);
+
+    const classFile = classes.load(name);
+    if (!classFile) continue;
+    pending.push(...classFile.interfaces);
+    if (classFile.superName) pending.push(classFile.superName);
+  }
+  return false;
+}
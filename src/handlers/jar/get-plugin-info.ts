@@ -1,151 +1,324 @@
 import consola from "consola";
-import { readFileFromJar } from "./read-file-from-jar";
+import { JarReader, openJar } from "./jar-reader";
 import { load } from "js-yaml";
 import { SupportedPlatform } from "../../types/supported-platform";
-import { PluginInfo } from "../../types/plugin-info";
+import {
+  PaperDependency,
+  PlatformConfidence,
+  PluginInfo,
+} from "../../types/plugin-info";
+import { JarReadError } from "../../errors";
+import {
+  JarClasses,
+  detectMainClassPlatform,
+  hasPaperEntrypoint,
+  hasVelocityPluginAnnotation,
+  openJarClasses,
+} from "./detect-platform";
 
 /**
  * 获取插件详情
- * @param jarPath Jar 文件的路径
- * @returns 插件详情数组（PluginInfo[]）
+ * Jar 只会被打开一次，所有描述文件与类都从同一个读取器中读取
+ * @param jar Jar 文件的路径，或已打开的 Jar
+ * @returns 插件详情数组（PluginInfo[]），不是有效的 Jar 时为空数组
  */
-export function getPluginInfo(jarPath: string): PluginInfo[] {
+export function getPluginInfo(jar: string | JarReader): PluginInfo[] {
   const pluginInfos: PluginInfo[] = [];
+  let reader: JarReader;
+  try {
+    reader = typeof jar === "string" ? openJar(jar) : jar;
+  } catch (error) {
+    return pluginInfos;
+  }
+  const classes = openJarClasses(reader);
 
-  const velocityInfo = getVelocityPluginInfo(jarPath);
+  const velocityInfo = getVelocityPluginInfo(reader, classes);
   if (velocityInfo) pluginInfos.push(velocityInfo);
 
-  const bungeeInfo = getBungeePluginInfo(jarPath);
+  const bungeeInfo = getBungeePluginInfo(reader, classes);
   if (bungeeInfo) pluginInfos.push(bungeeInfo);
 
-  const commonInfo = getCommonPluginInfo(jarPath);
+  // Paper 服务端优先使用 paper-plugin.yml，因此排在 plugin.yml 之前
+  const paperInfo = getPaperPluginInfo(reader, classes);
+  if (paperInfo) pluginInfos.push(paperInfo);
+
+  const commonInfo = getCommonPluginInfo(reader, classes);
   if (commonInfo) pluginInfos.push(commonInfo);
 
   return pluginInfos;
 }
 
 /**
- * 检查类继承关系以确定支持的平台
- * 通过检查类内容中特定的类路径来判断
- *
- * @param classContent 类内容字符串，用于检查特定的类路径
- * @returns 返回SupportedPlatform的枚举值，表示支持的平台，如果无法识别则返回null
+ * 声明支持 Folia 却没有使用区域调度器的插件，可能只是使用了 Folia 不支持的 BukkitScheduler
+ * 此时最多为 medium
  */
-function checkClassInheritance(classContent: string): SupportedPlatform | null {
-  // 检查类内容是否包含BungeeCord相关类，如果是则认为是BungeeCord平台
-  if (classContent.includes("net/md_5/bungee/api/plugin/Plugin")) {
-    return SupportedPlatform.BungeeCord;
-  }
-  // 检查类内容是否包含Bukkit相关类，如果是则认为是Bukkit平台
-  if (classContent.includes("org/bukkit/plugin/java/JavaPlugin")) {
-    return SupportedPlatform.Bukkit;
-  }
-  // 检查类内容是否包含Bukkit相关类，如果是则认为是Bukkit平台
-  if (classContent.includes("org/bukkit/Bukkit")) {
-    return SupportedPlatform.Bukkit;
+function checkFoliaSupport(pluginInfo: PluginInfo, classes: JarClasses): void {
+  pluginInfo.platform.push(SupportedPlatform.Folia);
+  if (
+    pluginInfo.platformConfidence === "high" &&
+    !classes.usesFoliaSchedulers()
+  ) {
+    pluginInfo.platformConfidence = "medium";
   }
-  // 如果无法识别平台，则返回null
-  return null;
 }
 
 function ensureString(value: any): string {
   return typeof value === "string" ? value : String(value);
 }
 
+/**
+ * 读取 api-version
+ * YAML 会将未加引号的 1.20 解析为数字 1.2，此时从原文中读取
+ * @param config 描述文件解析后的内容
+ * @param raw 描述文件的原文
+ */
+function parseApiVersion(config: any, raw: string): string | undefined {
+  const value = config["api-version"];
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") {
+    const match = raw.match(/^api-version\s*:\s*["']?([\d.]+)/m);
+    return match ? match[1] : String(value);
+  }
+  return undefined;
+}
+
 function parseYamlConfig(config: any): Partial<PluginInfo> {
   return {
     name: config.name,
     version: ensureString(config.version),
     description: config.description,
     authors: Array.isArray(config.authors) ? config.authors : [],
+    depend: Array.isArray(config.depend) ? config.depend : [],
     loadbefore: Array.isArray(config.loadbefore) ? config.loadbefore : [],
     softdepend: Array.isArray(config.softdepend) ? config.softdepend : [],
   };
 }
 
 function parseJsonConfig(config: any): Partial<PluginInfo> {
+  // velocity-plugin.json 的依赖格式为 [{ id: string, optional?: boolean }]
+  const dependencies: any[] = Array.isArray(config.dependencies)
+    ? config.dependencies.filter((dep: any) => typeof dep?.id === "string")
+    : [];
+
   return {
     name: config.id,
     version: ensureString(config.version),
     description: config.description,
     authors: Array.isArray(config.authors) ? config.authors : [],
+    depend: dependencies.filter((dep) => !dep.optional).map((dep) => dep.id),
     loadbefore: [],
-    softdepend: [],
+    softdepend: dependencies.filter((dep) => dep.optional).map((dep) => dep.id),
   };
 }
 
-function getVelocityPluginInfo(jarPath: string): PluginInfo | null {
+function getVelocityPluginInfo(
+  jar: JarReader,
+  classes: JarClasses
+): PluginInfo | null {
   try {
-    const velocityConfig = readFileFromJar(jarPath, "velocity-plugin.json");
+    const velocityConfig = jar.readText("velocity-plugin.json");
     if (velocityConfig) {
       const config = JSON.parse(velocityConfig);
+      // velocity-plugin.json 通常由注解处理器根据主类上的 @Plugin 生成
+      const annotated =
+        typeof config.main === "string" &&
+        hasVelocityPluginAnnotation(classes, config.main);
       return {
         ...parseJsonConfig(config),
         platform: [SupportedPlatform.Velocity],
+        platformConfidence: annotated ? "high" : "medium",
       } as PluginInfo;
     }
   } catch (error) {
-    // 文件不存在
+    // 描述文件无法解析
   }
   return null;
 }
 
-function getBungeePluginInfo(jarPath: string): PluginInfo | null {
+function getBungeePluginInfo(
+  jar: JarReader,
+  classes: JarClasses
+): PluginInfo | null {
   try {
-    const bungeeConfig = readFileFromJar(jarPath, "bungee.yml");
+    const bungeeConfig = jar.readText("bungee.yml");
     if (bungeeConfig) {
       const config = readYaml(bungeeConfig);
+      // bungee.yml 本身已经说明是 BungeeCord 插件，主类无法判断时为 medium
+      let platformConfidence: PlatformConfidence = "medium";
+      if (typeof config.main === "string") {
+        const detected = detectMainClassPlatform(classes, config.main);
+        if (detected?.platform === SupportedPlatform.BungeeCord) {
+          platformConfidence = detected.confidence;
+        } else if (detected?.platform) {
+          platformConfidence = "low";
+        }
+      }
       return {
         ...parseYamlConfig(config),
         platform: [SupportedPlatform.BungeeCord],
+        platformConfidence,
       } as PluginInfo;
     }
   } catch (error) {
-    // 文件不存在
+    // 描述文件无法解析
+  }
+  return null;
+}
+
+/**
+ * 解析 paper-plugin.yml 中的依赖声明
+ * 支持当前的 `dependencies.bootstrap`/`dependencies.server` 映射格式，
+ * 以及早期版本的列表格式（`dependencies: [{ name, required, bootstrap }]`）
+ * @param config paper-plugin.yml 的内容
+ * @returns 依赖列表
+ */
+function parsePaperDependencies(config: any): PaperDependency[] {
+  const dependencies: PaperDependency[] = [];
+  const raw = config.dependencies;
+
+  if (Array.isArray(raw)) {
+    for (const dep of raw) {
+      if (typeof dep?.name !== "string") continue;
+      dependencies.push({
+        name: dep.name,
+        stage: dep.bootstrap === true ? "bootstrap" : "server",
+        load: "OMIT",
+        required: dep.required !== false,
+        joinClasspath: true,
+      });
+    }
+    // 早期版本通过 load-before / load-after 声明加载顺序
+    for (const [key, load] of [
+      ["load-after", "BEFORE"],
+      ["load-before", "AFTER"],
+    ] as const) {
+      for (const entry of Array.isArray(config[key]) ? config[key] : []) {
+        const dep = dependencies.find((d) => d.name === entry?.name);
+        if (dep) {
+          dep.load = load;
+        } else if (typeof entry?.name === "string") {
+          dependencies.push({
+            name: entry.name,
+            stage: entry.bootstrap === true ? "bootstrap" : "server",
+            load,
+            required: false,
+            joinClasspath: true,
+          });
+        }
+      }
+    }
+    return dependencies;
+  }
+
+  for (const stage of ["bootstrap", "server"] as const) {
+    const stageDeps = raw?.[stage];
+    if (!stageDeps || typeof stageDeps !== "object") continue;
+
+    for (const [name, options] of Object.entries<any>(stageDeps)) {
+      const load = String(options?.load ?? "OMIT").toUpperCase();
+      dependencies.push({
+        name,
+        stage,
+        load: load === "BEFORE" || load === "AFTER" ? load : "OMIT",
+        required: options?.required !== false,
+        joinClasspath: options?.["join-classpath"] !== false,
+      });
+    }
+  }
+
+  return dependencies;
+}
+
+function getPaperPluginInfo(
+  jar: JarReader,
+  classes: JarClasses
+): PluginInfo | null {
+  try {
+    const paperYml = jar.readText("paper-plugin.yml");
+    if (paperYml) {
+      const config = readYaml(paperYml);
+      const dependencies = parsePaperDependencies(config);
+      // 只有服务端阶段的依赖会影响插件之间的加载关系
+      const serverDeps = dependencies.filter((dep) => dep.stage === "server");
+
+      const bootstrapper =
+        typeof config.bootstrapper === "string"
+          ? config.bootstrapper
+          : undefined;
+      const loader =
+        typeof config.loader === "string" ? config.loader : undefined;
+      const verified = hasPaperEntrypoint(classes, {
+        main: typeof config.main === "string" ? config.main : undefined,
+        bootstrapper,
+        loader,
+      });
+
+      const pluginInfo: PluginInfo = {
+        ...parseYamlConfig(config),
+        apiVersion: parseApiVersion(config, paperYml),
+        depend: serverDeps.filter((dep) => dep.required).map((dep) => dep.name),
+        softdepend: serverDeps
+          .filter((dep) => !dep.required && dep.load !== "AFTER")
+          .map((dep) => dep.name),
+        // 必需的依赖已经在 depend 中，再作为 loadbefore 会在依赖图中形成环
+        loadbefore: serverDeps
+          .filter((dep) => !dep.required && dep.load === "AFTER")
+          .map((dep) => dep.name),
+        platform: [SupportedPlatform.Paper],
+        platformConfidence: verified ? "high" : "medium",
+        paper: { bootstrapper, loader, dependencies },
+      } as PluginInfo;
+
+      if (config["folia-supported"] === true) {
+        checkFoliaSupport(pluginInfo, classes);
+      }
+
+      return pluginInfo;
+    }
+  } catch (error) {
+    // 描述文件无法解析
   }
   return null;
 }
 
-function getCommonPluginInfo(jarPath: string): PluginInfo | null {
+function getCommonPluginInfo(
+  jar: JarReader,
+  classes: JarClasses
+): PluginInfo | null {
   try {
-    const pluginYml = readFileFromJar(jarPath, "plugin.yml");
+    const pluginYml = jar.readText("plugin.yml");
     if (pluginYml) {
       const config = readYaml(pluginYml);
       const pluginInfo: PluginInfo = {
         ...parseYamlConfig(config),
+        apiVersion: parseApiVersion(config, pluginYml),
         platform: [],
       } as PluginInfo;
 
       if ("main" in config && typeof config.main === "string") {
-        const mainClass = config.main;
-        const classFilePath = mainClass.replace(/\./g, "/") + ".class";
-
-        try {
-          const classContent = readFileFromJar(jarPath, classFilePath);
-          const platform = checkClassInheritance(classContent);
-          if (platform) {
-            pluginInfo.platform.push(platform);
-          }
-          if (platform === null) {
-            consola.warn(
-              `Unknown platform plugin from ${jarPath}, mark it as both Bukkit and BungeeCord.`
-            );
-            pluginInfo.platform.push(SupportedPlatform.Bukkit);
-            pluginInfo.platform.push(SupportedPlatform.BungeeCord);
-          }
-        } catch (error) {
-          consola.error(`Error reading main class file: ${error}`);
+        const detected = detectMainClassPlatform(classes, config.main);
+        if (!detected) {
+          consola.error(`Error reading main class file: ${config.main}`);
+        } else if (detected.platform) {
+          pluginInfo.platform.push(detected.platform);
+        } else {
+          // 字节码无法区分平台时以描述文件为准，plugin.yml 是 Bukkit 插件的描述文件
+          consola.warn(
+            `Unknown platform plugin from ${jar.jarPath}, mark it as Bukkit with low confidence.`
+          );
+          pluginInfo.platform.push(SupportedPlatform.Bukkit);
         }
+        if (detected) pluginInfo.platformConfidence = detected.confidence;
       }
 
       if ("folia-supported" in config && config["folia-supported"] === true) {
-        pluginInfo.platform.push(SupportedPlatform.Folia);
+        checkFoliaSupport(pluginInfo, classes);
       }
 
       return pluginInfo.platform.length > 0 ? pluginInfo : null;
     }
   } catch (error) {
-    // 文件不存在
+    // 描述文件无法解析
   }
   return null;
 }
@@ -161,6 +334,6 @@ function readYaml<T = any>(yamlString: string): T {
     const result = load(yamlString) as T;
     return result;
   } catch (error) {
-    throw new Error(`Error parsing YAML: ${(error as Error).message}`);
+    throw new JarReadError(`Error parsing YAML: ${(error as Error).message}`);
   }
 }
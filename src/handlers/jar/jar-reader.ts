@@ -0,0 +1,63 @@
+import AdmZip from "adm-zip";
+import { JarReadError } from "../../errors";
+
+export interface JarReader {
+  jarPath: string;
+  /** Jar 中所有文件的路径，不包括文件夹 */
+  entries(): string[];
+  /**
+   * 读取 Jar 中的文件
+   * @param filePath Jar 内文件的路径
+   * @returns 文件内容，文件不存在时返回 null
+   */
+  read(filePath: string): Buffer | null;
+  /**
+   * 以 UTF-8 读取 Jar 中的文本文件
+   * @param filePath Jar 内文件的路径
+   * @returns 文件内容，文件不存在时返回 null
+   */
+  readText(filePath: string): string | null;
+}
+
+/**
+ * 打开 Jar 文件，只读取一次压缩包的目录，之后按需解压其中的文件
+ * @param jarPath Jar 文件的路径；指定 data 时只用于错误信息
+ * @param data Jar 的内容，用于读取 zip 中的 Jar
+ * @returns Jar 的读取器
+ * @throws 如果文件不存在或不是有效的压缩包
+ */
+export function openJar(jarPath: string, data?: Buffer): JarReader {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(data ?? jarPath);
+  } catch (error) {
+    throw new JarReadError(
+      `Error opening JAR: ${(error as Error).message ?? error}`,
+      { jarPath }
+    );
+  }
+
+  const read = (filePath: string) => {
+    const entry = zip.getEntry(filePath);
+    if (!entry || entry.isDirectory) return null;
+    try {
+      return entry.getData();
+    } catch (error) {
+      throw new JarReadError(
+        `Error reading file from JAR: ${(error as Error).message ?? error}`,
+        { jarPath, filePath }
+      );
+    }
+  };
+
+  return {
+    jarPath,
+    entries: () =>
+      zip
+        .getEntries()
+        .filter((entry) => !entry.isDirectory)
+        .map((entry) => entry.entryName),
+    read,
+    readText: (filePath) => read(filePath)?.toString("utf8") ?? null,
+  };
+}
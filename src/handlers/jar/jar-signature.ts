@@ -0,0 +1,208 @@
+import crypto from "node:crypto";
+import { JarReader } from "./jar-reader";
+
+export interface JarSignatureCheck {
+  /**
+   * unsigned：没有签名文件；
+   * signed：签名文件与 MANIFEST.MF 中的摘要都与 Jar 的内容一致；
+   * invalid：摘要不一致、签名不完整或有未被签名覆盖的文件
+   */
+  status: "unsigned" | "signed" | "invalid";
+  /** 签名文件（.SF）的路径 */
+  signers: string[];
+  problems: string[];
+}
+
+interface ManifestSection {
+  attributes: Map<string, string>;
+  /** 该节的原始字节，包括结尾的空行，用于计算签名文件中的摘要 */
+  raw: Buffer;
+}
+
+const MANIFEST_PATH = "META-INF/MANIFEST.MF";
+
+/** 签名相关的文件，本身不在签名范围内 */
+const SIGNATURE_FILE = /^META-INF\/([^/]+\.(SF|DSA|RSA|EC)|SIG-[^/]+)$/i;
+
+/**
+ * 检查 Jar 的签名与 META-INF/MANIFEST.MF 中的摘要
+ * 会校验 MANIFEST.MF 中每个文件的摘要、签名文件（.SF）中 MANIFEST.MF 及其各节的摘要，
+ * 以及签名后新增的文件；不会验证签名块中的证书与签名本身，需要时请使用 jarsigner
+ * @param jar 已打开的 Jar
+ * @returns 检查结果
+ */
+export function checkJarSignature(jar: JarReader): JarSignatureCheck {
+  const problems: string[] = [];
+  const entries = jar.entries();
+  const manifestData = jar.read(MANIFEST_PATH);
+  const sections = manifestData ? parseManifest(manifestData) : [];
+  const entrySections = new Map<string, ManifestSection>();
+  for (const section of sections.slice(1)) {
+    const name = section.attributes.get("name");
+    if (name) entrySections.set(name, section);
+  }
+
+  // MANIFEST.MF 中每个文件的摘要
+  for (const [name, section] of entrySections) {
+    const digests = getDigests(section.attributes, "-digest");
+    if (digests.length === 0) continue;
+    const content = jar.read(name);
+    if (!content) {
+      problems.push(`${name} is listed in ${MANIFEST_PATH} but missing`);
+    } else if (!digests.every((digest) => matchesDigest(content, digest))) {
+      problems.push(`${name} does not match its digest in ${MANIFEST_PATH}`);
+    }
+  }
+
+  const signers = entries.filter((entry) =>
+    /^META-INF\/[^/]+\.SF$/i.test(entry)
+  );
+  if (signers.length === 0) {
+    return {
+      status: problems.length > 0 ? "invalid" : "unsigned",
+      signers,
+      problems,
+    };
+  }
+  if (!manifestData) {
+    problems.push(`Signed jar has no ${MANIFEST_PATH}`);
+    return { status: "invalid", signers, problems };
+  }
+
+  for (const signer of signers) {
+    const base = signer.slice(0, -".SF".length);
+    if (
+      !["RSA", "DSA", "EC"].some((ext) => entries.includes(`${base}.${ext}`))
+    ) {
+      problems.push(`${signer} has no signature block`);
+    }
+
+    const [main, ...signed] = parseManifest(jar.read(signer)!);
+    const manifestDigests = getDigests(main?.attributes, "-digest-manifest");
+    // MANIFEST.MF 在签名后只追加了新的节时，整体摘要不一致，但各节的摘要仍然一致
+    const wholeManifest =
+      manifestDigests.length > 0 &&
+      manifestDigests.every((digest) => matchesDigest(manifestData, digest));
+
+    const signedNames = new Set<string>();
+    for (const section of signed) {
+      const name = section.attributes.get("name");
+      if (!name) continue;
+      signedNames.add(name);
+      if (wholeManifest) continue;
+      const manifestSection = entrySections.get(name);
+      const digests = getDigests(section.attributes, "-digest");
+      if (!manifestSection) {
+        problems.push(
+          `${name} is signed by ${signer} but missing from ${MANIFEST_PATH}`
+        );
+      } else if (
+        !digests.every((digest) => matchesDigest(manifestSection.raw, digest))
+      ) {
+        problems.push(
+          `${MANIFEST_PATH} entry for ${name} does not match ${signer}`
+        );
+      }
+    }
+
+    for (const entry of entries) {
+      if (entry === MANIFEST_PATH || SIGNATURE_FILE.test(entry)) continue;
+      const section = entrySections.get(entry);
+      const covered =
+        !!section &&
+        getDigests(section.attributes, "-digest").length > 0 &&
+        (wholeManifest || signedNames.has(entry));
+      if (!covered) {
+        problems.push(`${entry} is not covered by ${signer}`);
+      }
+    }
+  }
+
+  return {
+    status: problems.length > 0 ? "invalid" : "signed",
+    signers,
+    problems,
+  };
+}
+
+/**
+ * 解析 MANIFEST.MF 或签名文件，第一节为主属性
+ * 属性名转换为小写；以空格开头的行是上一行的延续
+ */
+function parseManifest(data: Buffer): ManifestSection[] {
+  // latin1 使字符与字节一一对应，以便截取每一节的原始字节
+  const text = data.toString("latin1");
+  const sections: ManifestSection[] = [];
+  const lineBreak = /\r\n|\r|\n/g;
+  let lines: string[] = [];
+  let sectionStart = 0;
+  let position = 0;
+
+  const endSection = (end: number) => {
+    if (lines.length > 0) {
+      const attributes = new Map<string, string>();
+      for (const line of lines) {
+        const value = Buffer.from(line, "latin1").toString("utf8");
+        const colon = value.indexOf(": ");
+        if (colon > 0) {
+          attributes.set(
+            value.slice(0, colon).toLowerCase(),
+            value.slice(colon + 2)
+          );
+        }
+      }
+      sections.push({ attributes, raw: data.subarray(sectionStart, end) });
+    }
+    lines = [];
+    sectionStart = end;
+  };
+
+  while (position < text.length) {
+    lineBreak.lastIndex = position;
+    const match = lineBreak.exec(text);
+    const end = match ? match.index : text.length;
+    const next = match ? end + match[0].length : text.length;
+    const line = text.slice(position, end);
+
+    if (line === "") {
+      endSection(next);
+    } else if (line.startsWith(" ") && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else {
+      lines.push(line);
+    }
+    position = next;
+  }
+  endSection(text.length);
+
+  return sections;
+}
+
+/**
+ * 读取形如 SHA-256-Digest 的摘要属性，忽略 Node.js 不支持的算法
+ * @param suffix 属性名的后缀（小写），如 -digest 或 -digest-manifest
+ */
+function getDigests(
+  attributes: Map<string, string> | undefined,
+  suffix: string
+): { algorithm: string; value: string }[] {
+  const digests: { algorithm: string; value: string }[] = [];
+  for (const [name, value] of attributes ?? []) {
+    if (!name.endsWith(suffix)) continue;
+    const algorithm = name.slice(0, -suffix.length).replace(/-/g, "");
+    if (crypto.getHashes().includes(algorithm)) {
+      digests.push({ algorithm, value });
+    }
+  }
+  return digests;
+}
+
+function matchesDigest(
+  content: Buffer,
+  digest: { algorithm: string; value: string }
+): boolean {
+  return (
+    crypto.createHash(digest.algorithm).update(content).digest("base64") ===
+    digest.value.trim()
+  );
+}
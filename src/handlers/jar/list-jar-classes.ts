@@ -0,0 +1,27 @@
+import { JarReadError } from "../../errors";
+import { openJar } from "./jar-reader";
+
+/**
+ * 列出 jar 中的所有类
+ * META-INF 下的类（如多版本 jar 的 versions/）以及 module-info、package-info 不会被列出
+ * @param jarPath jar 文件的路径
+ * @returns 类在 jar 中的路径，例如 com/google/gson/Gson.class
+ * @throws 如果 jar 无法读取
+ */
+export function listJarClasses(jarPath: string): string[] {
+  try {
+    return openJar(jarPath)
+      .entries()
+      .filter(
+        (name) =>
+          name.endsWith(".class") &&
+          !name.startsWith("META-INF/") &&
+          !/(^|\/)(module|package)-info\.class$/.test(name)
+      );
+  } catch (error) {
+    throw new JarReadError(
+      `Error listing classes of JAR: ${(error as Error).message}`,
+      { jarPath }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import os from "node:os";
+import {
+  Worker,
+  isMainThread,
+  parentPort,
+  workerData,
+} from "node:worker_threads";
+import { JarReadError } from "../../errors";
+import { PluginInfo } from "../../types/plugin-info";
+import { getPluginInfo } from "./get-plugin-info";
+import { openJar } from "./jar-reader";
+
+/** 同时解析 Jar 的 worker 线程数量，保留一个 CPU 给主线程读取文件，至少为 1 */
+export const JAR_PARSE_WORKERS = Math.max(
+  1,
+  Math.min(4, os.availableParallelism() - 1)
+);
+
+interface ParseRequest {
+  jarPath: string;
+  data: Uint8Array;
+}
+
+interface ParseTask extends ParseRequest {
+  resolve: (info: PluginInfo[]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  /** 正在解析的 Jar，空闲时为 undefined */
+  task?: ParseTask;
+}
+
+const workers: PoolWorker[] = [];
+const queue: ParseTask[] = [];
+
+/**
+ * 在 worker 线程中解析 Jar 的插件信息
+ * worker 按需启动，最多 JAR_PARSE_WORKERS 个，每个 worker 同时只解析一个 Jar；
+ * 空闲的 worker 不会阻止进程退出
+ * @param jarPath Jar 的路径，只用于错误信息
+ * @param data Jar 的内容，会被复制到 worker 线程
+ * @returns 插件信息，损坏的 Jar 与普通文件一样没有插件信息
+ * @throws 如果 worker 线程意外退出
+ */
+export function parseJarInWorker(
+  jarPath: string,
+  data: Buffer
+): Promise<PluginInfo[]> {
+  return new Promise((resolve, reject) => {
+    queue.push({ jarPath, data, resolve, reject });
+    dispatch();
+  });
+}
+
+/** 从已读取的内容解析插件信息，损坏的 Jar 与普通文件一样没有插件信息 */
+function parseJar(jarPath: string, data: Buffer): PluginInfo[] {
+  try {
+    return getPluginInfo(openJar(jarPath, data));
+  } catch (error) {
+    return [];
+  }
+}
+
+/** 将排队的 Jar 交给空闲的 worker，没有空闲的 worker 时启动新的 */
+function dispatch(): void {
+  while (queue.length > 0) {
+    let idle = workers.find((entry) => !entry.task);
+    if (!idle) {
+      if (workers.length >= JAR_PARSE_WORKERS) return;
+      idle = startWorker();
+    }
+
+    const task = queue.shift()!;
+    idle.task = task;
+    idle.worker.ref();
+    const request: ParseRequest = { jarPath: task.jarPath, data: task.data };
+    idle.worker.postMessage(request);
+  }
+}
+
+function startWorker(): PoolWorker {
+  const entry: PoolWorker = { worker: createWorker() };
+
+  entry.worker.on("message", (info: PluginInfo[]) => {
+    const task = entry.task!;
+    entry.task = undefined;
+    entry.worker.unref();
+    task.resolve(info);
+    dispatch();
+  });
+
+  const retire = (error: Error) => {
+    workers.splice(workers.indexOf(entry), 1);
+    const task = entry.task;
+    entry.task = undefined;
+    task?.reject(
+      new JarReadError(`Error parsing JAR: ${error.message}`, {
+        jarPath: task.jarPath,
+      })
+    );
+    dispatch();
+  };
+  entry.worker.on("error", retire);
+  entry.worker.on("exit", (code) => {
+    if (workers.includes(entry)) {
+      retire(new Error(`worker exited with code ${code}`));
+    }
+  });
+
+  workers.push(entry);
+  return entry;
+}
+
+/** worker 运行这个模块所在的文件（打包后为包含它的 chunk），见文件末尾 */
+function createWorker(): Worker {
+  const options = { workerData: { parseJars: true } };
+  if (!import.meta.url.endsWith(".ts")) {
+    return new Worker(new URL(import.meta.url), options);
+  }
+  // 从源码运行时（测试与开发时使用 tsx），Node 20 的 worker 不会继承 tsx 的 loader，需要在 worker 中注册
+  const tsx = JSON.stringify(import.meta.resolve("tsx/esm/api"));
+  const url = JSON.stringify(import.meta.url);
+  return new Worker(
+    `import(${tsx}).then((tsx) => tsx.register()).then(() => import(${url}))`,
+    { ...options, eval: true }
+  );
+}
+
+if (!isMainThread && workerData?.parseJars) {
+  parentPort!.on("message", ({ jarPath, data }: ParseRequest) => {
+    const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    parentPort!.postMessage(parseJar(jarPath, buffer));
+  });
+}
@@ -1,21 +1,70 @@
 import crypto from "node:crypto";
+import { createReadStream } from "node:fs";
 import fs from "node:fs/promises";
-import { storage } from "../../db/db";
-import { PluginCache, PluginInfo } from "../../types/plugin-info";
-import { getPluginInfo } from "../jar/get-plugin-info";
+import { getStorage } from "../../db/db";
+import { bundleInfoKey, pluginInfoKey } from "../../db/keys";
+import {
+  BundleCacheEntry,
+  BundledJar,
+  FileStat,
+  PluginCacheEntry,
+  PluginInfo,
+} from "../../types/plugin-info";
+import { openJar } from "./jar-reader";
+import { parseJarInWorker } from "./parse-worker";
 
-const PLUGIN_CACHE_KEY = "tmp:plugin:info-cache";
+/** 插件信息的格式版本，PluginInfo 增加需要从 Jar 中解析的字段或解析规则改变时递增 */
+const PLUGIN_INFO_VERSION = 5;
+
+/** 同时处理的 Jar 的默认数量，解析在最多 JAR_PARSE_WORKERS 个 worker 线程中进行 */
+export const DEFAULT_JAR_CONCURRENCY = 8;
 
 /**
  * 获取文件的hash值
+ * 以流的方式读取，不会将整个文件载入内存
  * @param filePath 文件路径
  * @returns 文件的hash值
  */
 export async function getFileHash(filePath: string): Promise<string> {
-  const fileBuffer = await fs.readFile(filePath);
-  const hashSum = crypto.createHash("sha256");
-  hashSum.update(fileBuffer);
-  return hashSum.digest("hex");
+  return hashStream(filePath);
+}
+
+/**
+ * 获取 Jar 的hash值与插件信息（使用缓存）
+ * 文件的大小、修改时间与 inode 都与缓存一致时不会读取文件；否则只以流的方式读取一次，
+ * 边读取边计算hash，hash 与缓存不一致时再在 worker 线程中从读取的内容解析插件信息
+ * @param jarPath 插件jar文件路径
+ * @returns hash值与插件信息
+ */
+export async function getJarInfoWithCache(
+  jarPath: string
+): Promise<{ hash: string; info: PluginInfo[] }> {
+  const stat = await getFileStat(jarPath);
+
+  const storage = await getStorage();
+  const cached = await storage.getItem<PluginCacheEntry>(
+    pluginInfoKey(jarPath)
+  );
+  const upToDate = cached?.version === PLUGIN_INFO_VERSION;
+
+  if (upToDate && isSameStat(cached.stat, stat)) {
+    return { hash: cached.hash, info: cached.info };
+  }
+
+  const chunks: Buffer[] = [];
+  const hash = await hashStream(jarPath, (chunk) => chunks.push(chunk));
+  const info =
+    upToDate && cached.hash === hash
+      ? cached.info
+      : await parseJarInWorker(jarPath, Buffer.concat(chunks));
+  await storage.setItem(pluginInfoKey(jarPath), {
+    info,
+    hash,
+    version: PLUGIN_INFO_VERSION,
+    stat,
+  });
+
+  return { hash, info };
 }
 
 /**
@@ -26,17 +75,72 @@ export async function getFileHash(filePath: string): Promise<string> {
 export async function getPluginInfoWithCache(
   jarPath: string
 ): Promise<PluginInfo[]> {
-  const hash = await getFileHash(jarPath);
-  const cache =
-    ((await storage.getItem(PLUGIN_CACHE_KEY)) as PluginCache) || {};
+  return (await getJarInfoWithCache(jarPath)).info;
+}
 
-  if (cache[jarPath] && cache[jarPath].hash === hash) {
-    return cache[jarPath].info;
+/**
+ * 获取 zip 中所有 Jar 的hash值与插件信息（使用缓存）
+ * 只读取 zip 中的 .jar 文件（包括子文件夹中的），不会解压到磁盘；zip 未变化时直接使用缓存
+ * @param zipPath zip 文件的路径
+ * @returns zip 中的 Jar，按 zip 内的路径排序
+ * @throws 如果 zip 无法读取
+ */
+export async function getBundleInfoWithCache(
+  zipPath: string
+): Promise<BundledJar[]> {
+  const stat = await getFileStat(zipPath);
+  const storage = await getStorage();
+  const cached = await storage.getItem<BundleCacheEntry>(
+    bundleInfoKey(zipPath)
+  );
+  if (
+    cached?.version === PLUGIN_INFO_VERSION &&
+    isSameStat(cached.stat, stat)
+  ) {
+    return cached.jars;
+  }
+
+  const bundle = openJar(zipPath);
+  const jars: BundledJar[] = [];
+  for (const entry of bundle.entries().sort()) {
+    if (!entry.toLowerCase().endsWith(".jar")) continue;
+    const data = bundle.read(entry)!;
+    jars.push({
+      entry,
+      hash: crypto.createHash("sha256").update(data).digest("hex"),
+      info: await parseJarInWorker(`${zipPath}!/${entry}`, data),
+    });
+  }
+
+  await storage.setItem(bundleInfoKey(zipPath), {
+    jars,
+    version: PLUGIN_INFO_VERSION,
+    stat,
+  });
+  return jars;
+}
+
+/**
+ * 以流的方式计算文件的hash值
+ * @param onChunk 每读取一块内容时调用，用于在计算hash的同时保留文件内容
+ */
+async function hashStream(
+  filePath: string,
+  onChunk?: (chunk: Buffer) => void
+): Promise<string> {
+  const hashSum = crypto.createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hashSum.update(chunk);
+    onChunk?.(chunk);
   }
+  return hashSum.digest("hex");
+}
 
-  const info = getPluginInfo(jarPath);
-  cache[jarPath] = { info, hash };
-  await storage.setItem(PLUGIN_CACHE_KEY, cache);
+async function getFileStat(filePath: string): Promise<FileStat> {
+  const stats = await fs.stat(filePath);
+  return { size: stats.size, mtimeMs: stats.mtimeMs, ino: stats.ino };
+}
 
-  return info;
+function isSameStat(a: FileStat | undefined, b: FileStat): boolean {
+  return a?.size === b.size && a.mtimeMs === b.mtimeMs && a.ino === b.ino;
 }
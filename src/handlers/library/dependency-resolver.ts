@@ -0,0 +1,176 @@
+import { PluginEntry, ServerPluginEntry } from "../../types/library";
+import { SupportedPlatform } from "../../types/supported-platform";
+import {
+  isGameVersionCompatible,
+  isPlatformCompatible,
+} from "../platform/compatibility";
+import { findPlugin } from "./manager";
+import { DependencyResolutionError } from "../../errors";
+
+export interface DependencyNode {
+  /** 依赖的插件名称 */
+  name: string;
+  /** 从插件库中选中的插件 */
+  entry?: PluginEntry;
+  /** 服务端上已安装的同名插件 */
+  installed?: PluginEntry;
+  /** 无法解析时的原因 */
+  error?: string;
+  children: DependencyNode[];
+}
+
+export interface DependencyResolution {
+  root: DependencyNode;
+  /** 需要安装的插件，依赖在前，被依赖者在后，最后一项为根插件本身 */
+  plan: PluginEntry[];
+}
+
+/**
+ * 从已索引的插件库中解析插件的硬依赖（depend）闭包
+ * @param plugin 要安装的插件
+ * @param options.platform 服务端平台，依赖只会在该平台的插件中选择
+ * @param options.gameVersion 服务端的 Minecraft 版本，依赖只会在兼容该版本的插件中选择
+ * @param options.installed 服务端上已安装的插件，已安装的依赖不会被重复安装；没有插件信息的 Jar 会被忽略
+ * @param options.preferred 优先选择的插件（例如已锁定的版本），而不是插件库中的最新版本
+ * @returns 依赖树和安装计划
+ * @throws 如果存在缺失或没有匹配平台版本的依赖，错误信息中包含完整的依赖树
+ */
+export async function resolveDependencies(
+  plugin: PluginEntry,
+  options: {
+    platform: SupportedPlatform;
+    gameVersion?: string;
+    installed?: ServerPluginEntry[];
+    preferred?: PluginEntry[];
+  }
+): Promise<DependencyResolution> {
+  // 没有描述文件的 Jar（例如放在 plugins 文件夹中的依赖库）没有插件信息，不能满足依赖
+  const installed = (options.installed ?? []).filter(
+    (p): p is PluginEntry => p.info !== undefined
+  );
+  const visited = new Map<string, DependencyNode>();
+  const plan: PluginEntry[] = [];
+  let hasError = false;
+
+  const visit = async (node: DependencyNode, entry: PluginEntry) => {
+    for (const dependName of entry.info.depend ?? []) {
+      const key = dependName.toLowerCase();
+
+      // 已经解析过的依赖（包括循环依赖）不再展开
+      const resolved = visited.get(key);
+      if (resolved) {
+        node.children.push({ ...resolved, children: [] });
+        continue;
+      }
+
+      const child: DependencyNode = { name: dependName, children: [] };
+      visited.set(key, child);
+      node.children.push(child);
+
+      const installedPlugin = installed.find(
+        (p) => p.info.name.toLowerCase() === key
+      );
+      if (installedPlugin) {
+        child.installed = installedPlugin;
+        continue;
+      }
+
+      const preferred = options.preferred?.find(
+        (p) =>
+          p.info.name.toLowerCase() === key &&
+          isPlatformCompatible(p.info.platform, options.platform) &&
+          isGameVersionCompatible(p.info.apiVersion, options.gameVersion)
+      );
+      if (preferred) {
+        child.entry = preferred;
+        await visit(child, preferred);
+        plan.push(preferred);
+        continue;
+      }
+
+      const candidates = await findPlugin({
+        name: dependName,
+        exactName: true,
+      });
+      if (candidates.length === 0) {
+        child.error = "not found in any library";
+        hasError = true;
+        continue;
+      }
+
+      const [latest] = await findPlugin({
+        name: dependName,
+        exactName: true,
+        latest: true,
+        platform: options.platform,
+        gameVersion: options.gameVersion,
+      });
+      if (
+        !latest &&
+        candidates.some((p) =>
+          isPlatformCompatible(p.info.platform, options.platform)
+        )
+      ) {
+        child.error = `no version for Minecraft ${options.gameVersion}`;
+        hasError = true;
+        continue;
+      }
+      if (!latest) {
+        const platforms = new Set(candidates.flatMap((p) => p.info.platform));
+        child.error = `no version for ${options.platform} (available: ${[
+          ...platforms,
+        ].join(", ")})`;
+        hasError = true;
+        continue;
+      }
+
+      child.entry = latest;
+      await visit(child, latest);
+      plan.push(latest);
+    }
+  };
+
+  const root: DependencyNode = {
+    name: plugin.info.name,
+    entry: plugin,
+    children: [],
+  };
+  visited.set(plugin.info.name.toLowerCase(), root);
+  await visit(root, plugin);
+  plan.push(plugin);
+
+  if (hasError) {
+    throw new DependencyResolutionError(formatDependencyTree(root));
+  }
+
+  return { root, plan };
+}
+
+/**
+ * 将依赖树格式化为可读的树状文本
+ * @param root 依赖树根节点
+ * @returns 树状文本
+ */
+export function formatDependencyTree(root: DependencyNode): string {
+  const lines: string[] = [describeNode(root)];
+
+  const walk = (node: DependencyNode, prefix: string) => {
+    node.children.forEach((child, index) => {
+      const isLast = index === node.children.length - 1;
+      lines.push(`${prefix}${isLast ? "└── " : "├── "}${describeNode(child)}`);
+      walk(child, prefix + (isLast ? "    " : "│   "));
+    });
+  };
+  walk(root, "");
+
+  return lines.join("\n");
+}
+
+function describeNode(node: DependencyNode): string {
+  if (node.error) return `${node.name} ✗ ${node.error}`;
+  if (node.installed) {
+    return `${node.name} (installed v${node.installed.info.version})`;
+  }
+  if (node.entry) return `${node.name} v${node.entry.info.version}`;
+  return node.name;
+}
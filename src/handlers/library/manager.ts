@@ -1,38 +1,98 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import semver from "semver";
-import { storage } from "../../db/db";
-import { Libraries, Library, PluginEntry } from "../../types/library";
-import { getJarFiles } from "../folder/get-jar-files";
-import { getFileHash, getPluginInfoWithCache } from "../jar/plugin-info-cache";
+import { Storage } from "unstorage";
+import { getStorage } from "../../db/db";
+import {
+  LIBRARY_PREFIX,
+  libraryKey,
+  libraryPluginKey,
+  libraryPluginsBase,
+} from "../../db/keys";
+import {
+  Libraries,
+  Library,
+  LibraryScanOptions,
+  PluginEntry,
+  PluginSource,
+  RemoteLibrary,
+  RemoteSource,
+} from "../../types/library";
+import { scanLibraryFiles } from "../folder/scan-library-files";
+import { openJar } from "../jar/jar-reader";
+import {
+  DEFAULT_JAR_CONCURRENCY,
+  getBundleInfoWithCache,
+  getJarInfoWithCache,
+} from "../jar/plugin-info-cache";
 import { SupportedPlatform } from "../../types/supported-platform";
-
-const LIBRARIES_KEY = "tmp:plugin:libraries";
+import {
+  isGameVersionCompatible,
+  isPlatformCompatible,
+} from "../platform/compatibility";
+import { normalizeVersion, satisfiesVersion } from "./version-range";
+import {
+  InvalidPathError,
+  JarReadError,
+  LibraryExistsError,
+  LibraryNotFoundError,
+  NotRemoteLibraryError,
+} from "../../errors";
+import { DEFAULT_DATA_DIR } from "../../config";
+import { syncRemoteLibrary } from "../remote/remote-library";
+import {
+  advisoryTarget,
+  isBlocked,
+  loadAdvisories,
+} from "../advisory/advisory-database";
+import { mapConcurrent } from "../../utils/map-concurrent";
+
+/** 远程插件库默认为每个项目缓存的版本数量 */
+const DEFAULT_MAX_VERSIONS = 5;
+
+export interface IndexProgress {
+  libraryId: string;
+  /** 已处理的 Jar 数量 */
+  done: number;
+  total: number;
+  /** 刚处理完的 Jar 或 zip */
+  jarPath: string;
+}
 
 /**
  * 获取所有插件库
  * @returns 所有插件库的对象
  */
 export async function getAllLibraries(): Promise<Libraries> {
-  const libraries = (await storage.getItem(LIBRARIES_KEY)) as Libraries;
-  return libraries || {};
+  const storage = await getStorage();
+  const keys = await storage.getKeys(LIBRARY_PREFIX);
+  const items = await storage.getItems<Omit<Library, "plugins">>(keys);
+
+  const libraries: Libraries = {};
+  for (const { value } of items) {
+    if (value) libraries[value.id] = await loadLibrary(storage, value);
+  }
+  return libraries;
 }
 
 /**
  * 添加新的插件库
  * @param id 插件库的唯一标识符
  * @param libraryPath 插件库的路径
+ * @param scan 扫描插件库文件夹的规则，默认递归扫描所有子文件夹
  * @returns 添加的插件库对象
  * @throws 如果插件库已存在或路径无效
  */
 export async function addLibrary(
   id: string,
-  libraryPath: string
+  libraryPath: string,
+  scan?: LibraryScanOptions
 ): Promise<Library> {
-  const libraries = await getAllLibraries();
+  const storage = await getStorage();
 
-  if (libraries[id]) {
-    throw new Error("嘎！插件库 ID 已存在");
+  if (await storage.hasItem(libraryKey(id))) {
+    throw new LibraryExistsError(id);
   }
 
   const absolutePath = path.resolve(libraryPath);
@@ -40,22 +100,160 @@ export async function addLibrary(
     !fs.existsSync(absolutePath) ||
     !fs.statSync(absolutePath).isDirectory()
   ) {
-    throw new Error("嘎！指定文件夹不存在");
+    throw new InvalidPathError(absolutePath);
   }
 
-  const library: Library = {
+  await storage.setItem(libraryKey(id), {
     id,
     path: absolutePath,
-    plugins: [],
+    ...(scan ? { scan } : {}),
+  });
+
+  // 自动索引新添加的插件库
+  return await updateLibraryIndex(id);
+}
+
+/**
+ * 添加新的远程插件库
+ * 跟踪的项目会从 Modrinth 或 Hangar 风格的 API 下载到缓存文件夹，再像本地插件库一样索引
+ * @param id 插件库的唯一标识符
+ * @param remote 远程仓库的配置，未指定 maxVersions 时每个项目缓存 5 个版本
+ * @param cachePath 下载缓存的文件夹，默认为 ~/.too-many-plugins/cache/<id>
+ * @returns 添加并索引后的插件库对象
+ * @throws 如果插件库已存在、请求失败或 hash 校验失败
+ */
+export async function addRemoteLibrary(
+  id: string,
+  remote: Omit<RemoteSource, "maxVersions"> & { maxVersions?: number },
+  cachePath?: string
+): Promise<Library> {
+  const storage = await getStorage();
+
+  if (await storage.hasItem(libraryKey(id))) {
+    throw new LibraryExistsError(id);
+  }
+
+  const library: Omit<RemoteLibrary, "plugins"> = {
+    id,
+    path: path.resolve(cachePath ?? path.join(DEFAULT_DATA_DIR, "cache", id)),
+    remote: {
+      ...remote,
+      maxVersions: remote.maxVersions ?? DEFAULT_MAX_VERSIONS,
+    },
   };
+  await storage.setItem(libraryKey(id), library);
+
+  try {
+    return await updateLibraryIndex(id);
+  } catch (error) {
+    // 首次下载失败时不保留插件库，以便修正参数后重新添加
+    await clearLibraryPlugins(storage, id);
+    await storage.removeItem(libraryKey(id));
+    throw error;
+  }
+}
+
+/**
+ * 修改远程插件库跟踪的项目，并重新下载和索引
+ * @param id 插件库的 ID
+ * @param changes.track 开始跟踪的项目
+ * @param changes.untrack 停止跟踪的项目，其缓存的文件会被删除
+ * @returns 更新后的插件库对象
+ * @throws 如果插件库不存在或不是远程插件库
+ */
+export async function updateRemoteProjects(
+  id: string,
+  changes: { track?: string[]; untrack?: string[] }
+): Promise<Library> {
+  const storage = await getStorage();
+  const library = await getLibrary(id);
+  if (!library.remote) {
+    throw new NotRemoteLibraryError(id);
+  }
 
-  libraries[id] = library;
-  await storage.setItem(LIBRARIES_KEY, libraries);
+  const projects = library.remote.projects.filter(
+    (project) => !changes.untrack?.includes(project)
+  );
+  for (const project of changes.track ?? []) {
+    if (!projects.includes(project)) projects.push(project);
+  }
 
-  // 自动索引新添加的插件库
+  const { plugins, ...meta } = library;
+  await storage.setItem(libraryKey(id), {
+    ...meta,
+    remote: { ...library.remote, projects },
+  });
+
+  try {
+    return await updateLibraryIndex(id);
+  } catch (error) {
+    await storage.setItem(libraryKey(id), meta);
+    throw error;
+  }
+}
+
+/**
+ * 修改扫描插件库文件夹的规则，并重新索引
+ * @param id 插件库的 ID
+ * @param scan 要修改的规则，未指定的规则保持不变
+ * @returns 更新后的插件库对象
+ * @throws 如果插件库不存在
+ */
+export async function updateLibraryScan(
+  id: string,
+  scan: LibraryScanOptions
+): Promise<Library> {
+  const storage = await getStorage();
+  const { plugins, ...meta } = await getLibrary(id);
+  const changes = Object.fromEntries(
+    Object.entries(scan).filter(([, value]) => value !== undefined)
+  );
+  await storage.setItem(libraryKey(id), {
+    ...meta,
+    scan: { ...meta.scan, ...changes },
+  });
   return await updateLibraryIndex(id);
 }
 
+/**
+ * 获取插件库中插件的 Jar 在磁盘上的路径，用于安装
+ * zip 中的 Jar 在第一次安装时被解压到 ~/.too-many-plugins/extracted/<hash>/，之后直接使用
+ * @param plugin 插件库中的插件
+ * @returns Jar 文件的路径
+ * @throws 如果 zip 中已经没有该 Jar，或 zip 在索引后被修改
+ */
+export async function resolvePluginJar(plugin: PluginEntry): Promise<string> {
+  const entry = plugin.source?.entry;
+  if (!entry) return plugin.jarPath;
+
+  const target = path.join(
+    DEFAULT_DATA_DIR,
+    "extracted",
+    plugin.hash,
+    path.posix.basename(entry)
+  );
+  if (fs.existsSync(target)) return target;
+
+  const bundlePath = plugin.jarPath.slice(0, -(entry.length + 2));
+  const data = openJar(bundlePath).read(entry);
+  if (
+    !data ||
+    crypto.createHash("sha256").update(data).digest("hex") !== plugin.hash
+  ) {
+    throw new JarReadError(
+      `${plugin.jarPath} has changed since it was indexed, run tmp library index`,
+      { jarPath: plugin.jarPath }
+    );
+  }
+
+  // 先写入临时文件再重命名，中断时不会留下不完整的 Jar
+  await fs.promises.mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temp, data);
+  await fs.promises.rename(temp, target);
+  return target;
+}
+
 /**
  * 删除指定的插件库
  * @param id 要删除的插件库的 ID
@@ -63,14 +261,14 @@ export async function addLibrary(
  * @throws 如果插件库不存在
  */
 export async function removeLibrary(id: string): Promise<boolean> {
-  const libraries = await getAllLibraries();
+  const storage = await getStorage();
 
-  if (!libraries[id]) {
-    throw new Error("嘎！插件库不存在");
+  if (!(await storage.hasItem(libraryKey(id)))) {
+    throw new LibraryNotFoundError(id);
   }
 
-  delete libraries[id];
-  await storage.setItem(LIBRARIES_KEY, libraries);
+  await clearLibraryPlugins(storage, id);
+  await storage.removeItem(libraryKey(id));
 
   return true;
 }
@@ -82,95 +280,163 @@ export async function removeLibrary(id: string): Promise<boolean> {
  * @throws 如果插件库不存在
  */
 export async function getLibrary(id: string): Promise<Library> {
-  const libraries = await getAllLibraries();
+  const storage = await getStorage();
+  const library = await storage.getItem<Omit<Library, "plugins">>(
+    libraryKey(id)
+  );
 
-  if (!libraries[id]) {
-    throw new Error("嘎！插件库不存在");
+  if (!library) {
+    throw new LibraryNotFoundError(id);
   }
 
-  return libraries[id];
+  return loadLibrary(storage, library);
 }
 
 /**
  * 更新指定插件库的索引
+ * 每个 Jar 的插件条目单独存储，只有新增、修改和删除的 Jar 会被写入
+ * 多个 Jar 会被并发读取并在 worker 线程中解析，大小、修改时间与 inode 都未变化的 Jar 不会重新计算 hash
  * @param id 插件库的 ID
  * @param rebuild 是否完全重建索引，默认为 false
+ * @param options.concurrency 同时读取的 Jar 数量，默认为 DEFAULT_JAR_CONCURRENCY
+ * @param options.onProgress 每处理完一个 Jar 时调用
  * @returns 更新后的插件库对象
  * @throws 如果插件库不存在
  */
 export async function updateLibraryIndex(
   id: string,
-  rebuild: boolean = false
+  rebuild: boolean = false,
+  options: {
+    concurrency?: number;
+    onProgress?: (progress: IndexProgress) => void;
+  } = {}
 ): Promise<Library> {
-  const libraries = await getAllLibraries();
-
-  if (!libraries[id]) {
-    throw new Error("嘎！插件库不存在");
+  const storage = await getStorage();
+  const library = await getLibrary(id);
+  if (library.remote) {
+    // 远程插件库先将跟踪的项目下载到缓存文件夹
+    await syncRemoteLibrary(library as RemoteLibrary);
   }
-
-  const library = libraries[id];
-  const jarFiles = await getJarFiles(library.path);
+  const files = await scanLibraryFiles(library.path, library.scan);
 
   if (rebuild) {
+    await clearLibraryPlugins(storage, id);
     library.plugins = [];
   }
 
-  const existingHashes = new Set(library.plugins.map((plugin) => plugin.hash));
-  const newPlugins: PluginEntry[] = [];
-  const validJarPaths = new Set(jarFiles);
+  // 按插件库中的文件分组，zip 中的所有 Jar 属于同一个文件
+  const existingByFile = new Map<string, PluginEntry[]>();
+  for (const plugin of library.plugins) {
+    if (!plugin.source) continue;
+    const file = path.join(library.path, plugin.source.path);
+    existingByFile.set(file, [...(existingByFile.get(file) ?? []), plugin]);
+  }
 
-  for (const jarFile of jarFiles) {
-    const hash = await getFileHash(jarFile);
+  let done = 0;
+  const indexed = await mapConcurrent(
+    files,
+    options.concurrency ?? DEFAULT_JAR_CONCURRENCY,
+    async (file) => {
+      const relative = path.relative(library.path, file).split(path.sep);
+      const source: PluginSource = { library: id, path: relative.join("/") };
+
+      let entries: PluginEntry[];
+      if (path.extname(file).toLowerCase() === ".zip") {
+        entries = (await getBundleInfoWithCache(file)).flatMap((jar) =>
+          jar.info.map((info) => ({
+            info,
+            hash: jar.hash,
+            jarPath: `${file}!/${jar.entry}`,
+            source: { ...source, entry: jar.entry },
+          }))
+        );
+      } else {
+        const { hash, info } = await getJarInfoWithCache(file);
+        entries = info.map((info) => ({ info, hash, jarPath: file, source }));
+      }
 
-    if (!rebuild && existingHashes.has(hash)) {
-      // 文件已经被索引过，保留现有索引
-      const existingPlugins = library.plugins.filter(
-        (plugin) => plugin.hash === hash
-      );
-      if (existingPlugins.length > 0) {
-        newPlugins.push(...existingPlugins);
+      const existing = existingByFile.get(file) ?? [];
+      const fingerprint = (plugins: PluginEntry[]) =>
+        plugins.map((plugin) => `${plugin.jarPath}\n${plugin.hash}`).join();
+      if (
+        existing.length > 0 &&
+        fingerprint(existing) === fingerprint(entries)
+      ) {
+        // 文件已经被索引过，保留现有索引
+        entries = existing;
+      } else {
+        await storage.setItem(libraryPluginKey(id, file), entries);
       }
-      continue;
-    }
 
-    const infoList = await getPluginInfoWithCache(jarFile);
-    for (const info of infoList) {
-      newPlugins.push({
-        info,
-        hash,
-        jarPath: jarFile,
+      options.onProgress?.({
+        libraryId: id,
+        done: ++done,
+        total: files.length,
+        jarPath: file,
       });
+      return entries;
     }
-  }
-
-  // 移除无效的索引
-  library.plugins = library.plugins.filter((plugin) =>
-    validJarPaths.has(plugin.jarPath)
   );
+  const newPlugins = indexed.flat();
 
-  // 使用新的索引替换旧的索引
-  library.plugins = newPlugins;
+  // 移除已不存在的 Jar 的索引
+  const validKeys = new Set(files.map((file) => libraryPluginKey(id, file)));
+  for (const key of await storage.getKeys(libraryPluginsBase(id))) {
+    if (!validKeys.has(key)) await storage.removeItem(key);
+  }
 
-  await storage.setItem(LIBRARIES_KEY, libraries);
+  library.plugins = newPlugins;
 
   return library;
 }
 
+/**
+ * 根据 Jar 文件的 hash 在所有插件库中查找插件
+ * @param hash Jar 文件的 SHA-256
+ * @param platform 优先返回支持该平台的插件信息
+ * @returns 插件及其所在插件库的 ID，找不到时返回 null
+ */
+export async function findPluginByHash(
+  hash: string,
+  platform?: SupportedPlatform
+): Promise<{ libraryId: string; plugin: PluginEntry } | null> {
+  const libraries = await getAllLibraries();
+  let fallback: { libraryId: string; plugin: PluginEntry } | null = null;
+
+  for (const library of Object.values(libraries)) {
+    for (const plugin of library.plugins) {
+      if (plugin.hash !== hash) continue;
+      if (!platform || isPlatformCompatible(plugin.info.platform, platform)) {
+        return { libraryId: library.id, plugin };
+      }
+      fallback ??= { libraryId: library.id, plugin };
+    }
+  }
+
+  return fallback;
+}
+
 /**
  * 插件过滤
  * @param filters 查询过滤器
  * @param filters.name 插件名称，大小写不敏感，match 匹配。
- * @param filters.version 插件版本，全等匹配
- * @param filters.latest 是否只返回最新版本
- * @param filters.platform 只返回指定平台
+ * @param filters.exactName 插件名称是否需要全等匹配（大小写不敏感）
+ * @param filters.pluginVersion 插件版本或版本范围，规则见 satisfiesVersion
+ * @param filters.includeSnapshots 版本范围是否匹配 SNAPSHOT 版本
+ * @param filters.latest 是否只返回最新版本，没有被安全公告阻止的版本优先
+ * @param filters.platform 只返回可以运行在指定平台上的插件
+ * @param filters.gameVersion 只返回 api-version 不高于该 Minecraft 版本的插件
  * @param filters.libraryId 只在指定插件库中寻找
  * @returns 包含插件信息和所在库 ID 的对象数组
  */
 export async function findPlugin(filters: {
   name?: string;
+  exactName?: boolean;
   pluginVersion?: string;
+  includeSnapshots?: boolean;
   latest?: boolean;
   platform?: SupportedPlatform;
+  gameVersion?: string;
   libraryId?: string;
 }): Promise<PluginEntry[]> {
   const libraries = await getAllLibraries();
@@ -181,7 +447,7 @@ export async function findPlugin(filters: {
     : libraries;
 
   if (filters.libraryId && !searchLibraries[filters.libraryId]) {
-    throw new Error(`Library with ID "${filters.libraryId}" not found.`);
+    throw new LibraryNotFoundError(filters.libraryId);
   }
 
   for (const library of Object.values(searchLibraries)) {
@@ -190,19 +456,29 @@ export async function findPlugin(filters: {
     if (filters.name) {
       const lowercaseName = filters.name.toLowerCase();
       filteredPlugins = filteredPlugins.filter((plugin) =>
-        plugin.info.name.toLowerCase().includes(lowercaseName)
+        filters.exactName
+          ? plugin.info.name.toLowerCase() === lowercaseName
+          : plugin.info.name.toLowerCase().includes(lowercaseName)
       );
     }
 
     if (filters.pluginVersion) {
-      filteredPlugins = filteredPlugins.filter(
-        (plugin) => plugin.info.version === filters.pluginVersion
+      filteredPlugins = filteredPlugins.filter((plugin) =>
+        satisfiesVersion(plugin.info.version, filters.pluginVersion!, {
+          includeSnapshots: filters.includeSnapshots,
+        })
       );
     }
 
     if (filters.platform) {
       filteredPlugins = filteredPlugins.filter((plugin) =>
-        plugin.info.platform.includes(filters.platform!)
+        isPlatformCompatible(plugin.info.platform, filters.platform!)
+      );
+    }
+
+    if (filters.gameVersion) {
+      filteredPlugins = filteredPlugins.filter((plugin) =>
+        isGameVersionCompatible(plugin.info.apiVersion, filters.gameVersion)
       );
     }
 
@@ -210,9 +486,33 @@ export async function findPlugin(filters: {
   }
 
   if (filters.latest) {
+    // 优先选择没有被安全公告阻止的版本；只有被阻止的版本时仍返回其中最新的，由安装时拒绝
+    const advisories = await loadAdvisories();
+    const blocked = (plugin: PluginEntry) =>
+      advisories.length > 0 && isBlocked(advisoryTarget(plugin), advisories);
+
     const latestVersions = new Map<string, PluginEntry>();
     for (const plugin of results) {
       const currentLatest = latestVersions.get(plugin.info.name);
+      if (currentLatest && blocked(currentLatest) !== blocked(plugin)) {
+        if (blocked(currentLatest))
+          latestVersions.set(plugin.info.name, plugin);
+        continue;
+      }
+      if (
+        currentLatest &&
+        currentLatest.info.version === plugin.info.version &&
+        filters.platform
+      ) {
+        // 同一版本有多份描述文件时，优先选择与平台完全一致的一份
+        if (
+          plugin.info.platform.includes(filters.platform) &&
+          !currentLatest.info.platform.includes(filters.platform)
+        ) {
+          latestVersions.set(plugin.info.name, plugin);
+        }
+        continue;
+      }
       if (
         !currentLatest ||
         sortVersions([plugin.info.version, currentLatest.info.version])[0] ===
@@ -234,8 +534,8 @@ export async function findPlugin(filters: {
  */
 export function sortVersions(versions: string[]): string[] {
   return versions.sort((a, b) => {
-    const cleanA = semver.valid(semver.coerce(a));
-    const cleanB = semver.valid(semver.coerce(b));
+    const cleanA = normalizeVersion(a);
+    const cleanB = normalizeVersion(b);
 
     if (cleanA && cleanB) {
       const compareResult = semver.rcompare(cleanA, cleanB);
@@ -258,3 +558,31 @@ export function sortVersions(versions: string[]): string[] {
     return 0;
   });
 }
+
+/**
+ * 删除插件库中所有 Jar 的插件条目
+ * storage.clear 只会清空挂载在该前缀下的驱动，对挂载在根上的驱动不起作用，因此逐个删除
+ */
+async function clearLibraryPlugins(
+  storage: Storage,
+  id: string
+): Promise<void> {
+  for (const key of await storage.getKeys(libraryPluginsBase(id))) {
+    await storage.removeItem(key);
+  }
+}
+
+/**
+ * 读取插件库中所有 Jar 的插件条目
+ */
+async function loadLibrary(
+  storage: Storage,
+  library: Omit<Library, "plugins">
+): Promise<Library> {
+  const keys = await storage.getKeys(libraryPluginsBase(library.id));
+  const items = await storage.getItems<PluginEntry[]>(keys);
+  const plugins = items
+    .flatMap(({ value }) => value ?? [])
+    .sort((a, b) => a.jarPath.localeCompare(b.jarPath));
+  return { ...library, plugins };
+}
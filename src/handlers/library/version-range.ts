@@ -0,0 +1,140 @@
+import semver from "semver";
+import { InvalidVersionConstraintError } from "../../errors";
+
+/** 含有运算符、空格、`||` 或通配符的约束视为范围，其余视为具体版本号 */
+const RANGE_PATTERN = /^[\^~<>=!]|\s|\|\||(^|\.)[xX*](\.|$)/;
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=|!=)?(.*)$/;
+const OPERATOR_PATTERN = /^(\^|~|>=|<=|>|<|=|!=)$/;
+const PARTIAL_VERSION_PATTERN = /^[vV]?(\d+|[xX*])(\.(\d+|[xX*])){0,2}$/;
+
+/**
+ * 将插件版本号规范化为 semver 版本号
+ * 与 sortVersions 相同，使用 semver.coerce，构建后缀（如 -b123、+build.5、-bukkit）会被忽略
+ * @param version 插件版本号
+ * @returns 规范化后的版本号，无法规范化时返回 null
+ */
+export function normalizeVersion(version: string): string | null {
+  return semver.valid(semver.coerce(version));
+}
+
+/**
+ * 判断是否为 SNAPSHOT 版本
+ * @param version 插件版本号
+ */
+export function isSnapshotVersion(version: string): boolean {
+  return version.toUpperCase().includes("SNAPSHOT");
+}
+
+/**
+ * 判断版本约束是否为范围（而不是一个具体的版本号）
+ * @param constraint 版本约束，例如 `^2.3`、`~5.1.0`、`>=4 <5`、`2.x`
+ */
+export function isVersionRange(constraint: string): boolean {
+  return RANGE_PATTERN.test(constraint.trim());
+}
+
+/**
+ * 判断插件版本号是否满足版本约束
+ *
+ * 规则：
+ * 1. 与约束完全相同的版本号总是满足（原有的全等匹配）
+ * 2. 约束不是范围时（见 isVersionRange），只进行全等匹配
+ * 3. 范围匹配时，版本号先经过 normalizeVersion 规范化，无法规范化的版本号不满足任何范围
+ * 4. SNAPSHOT 版本只有在约束本身包含 SNAPSHOT 或 includeSnapshots 为 true 时才满足范围
+ * 5. 支持 npm 风格的范围，另外支持 `!=` 排除某个版本，例如 `>=2 <3 !=2.0.1`
+ *
+ * @param version 插件版本号
+ * @param constraint 版本约束
+ * @param options.includeSnapshots 范围匹配时是否包含 SNAPSHOT 版本
+ * @returns 是否满足
+ * @throws 如果约束不是合法的范围
+ */
+export function satisfiesVersion(
+  version: string,
+  constraint: string,
+  options: { includeSnapshots?: boolean } = {}
+): boolean {
+  const trimmed = constraint.trim();
+  if (version === trimmed) return true;
+  if (!isVersionRange(trimmed)) return false;
+
+  const sets = parseRange(trimmed);
+
+  if (
+    isSnapshotVersion(version) &&
+    !options.includeSnapshots &&
+    !isSnapshotVersion(trimmed)
+  ) {
+    return false;
+  }
+
+  const normalized = normalizeVersion(version);
+  if (!normalized) return false;
+
+  return sets.some(
+    ({ range, excluded }) =>
+      !excluded.includes(normalized) && semver.satisfies(normalized, range)
+  );
+}
+
+/**
+ * 将版本约束解析为 semver 能够处理的范围
+ * @throws 如果约束不是合法的范围
+ */
+function parseRange(
+  constraint: string
+): { range: string; excluded: string[] }[] {
+  return constraint.split("||").map((set) => {
+    const comparators: string[] = [];
+    const excluded: string[] = [];
+
+    for (const token of splitComparators(set)) {
+      // 连字符范围，例如 `1.0 - 2.0`
+      if (token === "-") {
+        comparators.push(token);
+        continue;
+      }
+
+      const [, operator = "", rawVersion] = token.match(COMPARATOR_PATTERN)!;
+      const version = PARTIAL_VERSION_PATTERN.test(rawVersion)
+        ? rawVersion
+        : normalizeVersion(rawVersion);
+      if (!version) {
+        throw new InvalidVersionConstraintError(constraint);
+      }
+
+      if (operator === "!=") {
+        const normalized = normalizeVersion(version);
+        if (!normalized) {
+          throw new InvalidVersionConstraintError(constraint);
+        }
+        excluded.push(normalized);
+      } else {
+        comparators.push(operator + version);
+      }
+    }
+
+    const range = comparators.join(" ") || "*";
+    if (semver.validRange(range) === null) {
+      throw new InvalidVersionConstraintError(constraint);
+    }
+
+    return { range, excluded };
+  });
+}
+
+/**
+ * 按空格拆分比较器，单独的运算符与后面的版本号合并，例如 `>= 4` 拆分为 `>=4`
+ */
+function splitComparators(set: string): string[] {
+  const tokens: string[] = [];
+  for (const token of set.trim().split(/\s+/).filter(Boolean)) {
+    const previous = tokens[tokens.length - 1];
+    if (previous !== undefined && OPERATOR_PATTERN.test(previous)) {
+      tokens[tokens.length - 1] = previous + token;
+    } else {
+      tokens.push(token);
+    }
+  }
+  return tokens;
+}
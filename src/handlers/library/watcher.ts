@@ -0,0 +1,203 @@
+import fs from "node:fs";
+import path from "node:path";
+import { PluginEntry } from "../../types/library";
+import { FileStat } from "../../types/plugin-info";
+import { runOnServers, ServerRunResult } from "../server/groupManager";
+import { upgradeServer, UpgradeResult } from "../server/upgradeManager";
+import { getAllLibraries, getLibrary, updateLibraryIndex } from "./manager";
+
+/** 默认的等待时间，文件在两次检查之间没有变化才会被索引 */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 1000;
+
+export type WatchEvent =
+  | {
+      type: "indexed";
+      libraryId: string;
+      /** 新增或修改后的插件 */
+      added: PluginEntry[];
+      /** 被删除或修改前的插件 */
+      removed: PluginEntry[];
+    }
+  | {
+      type: "upgraded";
+      libraryId: string;
+      results: ServerRunResult<UpgradeResult>[];
+    }
+  | { type: "error"; libraryId: string; error: unknown };
+
+export interface LibraryWatcher {
+  /** 正在监听的插件库 */
+  libraryIds: string[];
+  /** 远程插件库的文件由 library index 下载，不会被监听 */
+  skipped: string[];
+  /** 停止监听，并等待正在进行的索引完成 */
+  close(): Promise<void>;
+}
+
+/**
+ * 监听插件库文件夹及其子文件夹，在 Jar 或 zip 被添加、修改或删除时增量更新索引
+ * 文件在 debounceMs 内不再变化（大小与修改时间不变）才会被索引，以免读取上传到一半的 Jar
+ * 开始监听时会先索引一次，以包含未监听期间的变化
+ * @param ids 要监听的插件库，默认为所有本地插件库
+ * @param options.debounceMs 等待文件稳定的时间，默认为 DEFAULT_WATCH_DEBOUNCE_MS
+ * @param options.concurrency 同时读取的 Jar 数量
+ * @param options.sync 出现新版本时要更新的服务端选择器，只会更新到满足清单约束的版本
+ * @param options.onEvent 每次索引、更新服务端或出错时调用
+ * @returns 监听器
+ * @throws 如果插件库不存在或文件夹无法监听
+ */
+export async function watchLibraries(
+  ids: string[] | undefined,
+  options: {
+    debounceMs?: number;
+    concurrency?: number;
+    sync?: string[];
+    onEvent?: (event: WatchEvent) => void;
+  } = {}
+): Promise<LibraryWatcher> {
+  const debounceMs = options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+  const libraries = ids
+    ? await Promise.all(ids.map((id) => getLibrary(id)))
+    : Object.values(await getAllLibraries());
+  const local = libraries.filter((library) => !library.remote);
+
+  const watchers: fs.FSWatcher[] = [];
+  const running = new Set<Promise<void>>();
+  let closed = false;
+
+  for (const library of local) {
+    // 文件名 -> 上次检查时的状态，undefined 表示尚未检查，null 表示文件不存在
+    const pending = new Map<string, FileStat | null | undefined>();
+    let timer: NodeJS.Timeout | undefined;
+    let indexing: Promise<void> | null = null;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      if (!closed) timer = setTimeout(check, debounceMs);
+    };
+
+    const check = async () => {
+      if (indexing) return;
+      let changing = false;
+      for (const [file, previous] of pending) {
+        const current = await statFile(path.join(library.path, file));
+        if (previous === undefined || !sameStat(previous, current)) {
+          pending.set(file, current);
+          changing = true;
+        }
+      }
+      if (changing) return schedule();
+
+      pending.clear();
+      start();
+    };
+
+    const start = () => {
+      const task: Promise<void> = reindex(library.id, options).finally(() => {
+        running.delete(task);
+        indexing = null;
+        // 索引期间又有文件变化
+        if (pending.size > 0) schedule();
+      });
+      indexing = task;
+      running.add(task);
+    };
+
+    // 插件库会递归扫描子文件夹，是否索引某个文件由 updateLibraryIndex 的扫描规则决定
+    const watcher = fs.watch(
+      library.path,
+      { recursive: true },
+      (_event, filename) => {
+        if (!filename) return;
+        // 没有扩展名的通常是文件夹，移动或删除文件夹时不一定会报告其中的文件
+        const extension = path.extname(filename).toLowerCase();
+        if (![".jar", ".zip", ""].includes(extension)) return;
+        pending.set(filename.toString(), undefined);
+        schedule();
+      }
+    );
+    watcher.on("close", () => clearTimeout(timer));
+    watchers.push(watcher);
+    start();
+  }
+
+  return {
+    libraryIds: local.map((library) => library.id),
+    skipped: libraries
+      .filter((library) => library.remote)
+      .map((library) => library.id),
+    async close() {
+      closed = true;
+      watchers.forEach((watcher) => watcher.close());
+      while (running.size > 0) {
+        await Promise.all(running);
+      }
+    },
+  };
+}
+
+/**
+ * 更新插件库的索引，并在出现新版本时更新订阅的服务端
+ * 错误通过 onEvent 报告，不会中断监听
+ */
+async function reindex(
+  libraryId: string,
+  options: {
+    concurrency?: number;
+    sync?: string[];
+    onEvent?: (event: WatchEvent) => void;
+  }
+): Promise<void> {
+  try {
+    const before = (await getLibrary(libraryId)).plugins;
+    const after = (
+      await updateLibraryIndex(libraryId, false, {
+        concurrency: options.concurrency,
+      })
+    ).plugins;
+
+    const key = (plugin: PluginEntry) =>
+      `${plugin.jarPath}\n${plugin.hash}\n${plugin.info.name}`;
+    const beforeKeys = new Set(before.map(key));
+    const afterKeys = new Set(after.map(key));
+    const added = after.filter((plugin) => !beforeKeys.has(key(plugin)));
+    const removed = before.filter((plugin) => !afterKeys.has(key(plugin)));
+    if (added.length === 0 && removed.length === 0) return;
+    options.onEvent?.({ type: "indexed", libraryId, added, removed });
+
+    if (!options.sync?.length || added.length === 0) return;
+    const plugins = [...new Set(added.map((plugin) => plugin.info.name))];
+    const results = await runOnServers(options.sync, (server) =>
+      upgradeServer(server.id, { plugins })
+    );
+    // 只报告确实更新了插件或失败的服务端
+    const changed = results.filter(
+      (result) => !result.ok || result.result.upgraded.length > 0
+    );
+    if (changed.length > 0) {
+      options.onEvent?.({ type: "upgraded", libraryId, results: changed });
+    }
+  } catch (error) {
+    options.onEvent?.({ type: "error", libraryId, error });
+  }
+}
+
+async function statFile(filePath: string): Promise<FileStat | null> {
+  try {
+    const stats = await fs.promises.stat(filePath);
+    return { size: stats.size, mtimeMs: stats.mtimeMs, ino: stats.ino };
+  } catch (error) {
+    return null;
+  }
+}
+
+function sameStat(a: FileStat | null, b: FileStat | null): boolean {
+  return (
+    a === b ||
+    (!!a &&
+      !!b &&
+      a.size === b.size &&
+      a.mtimeMs === b.mtimeMs &&
+      a.ino === b.ino)
+  );
+}
@@ -0,0 +1,82 @@
+import { PluginInfo } from "../../types/plugin-info";
+import { SupportedPlatform } from "../../types/supported-platform";
+
+/**
+ * 各服务端平台可以加载的插件平台
+ * Paper 服务端同时可以加载 Bukkit 插件，Folia 服务端只加载声明了 folia-supported 的插件
+ */
+const COMPATIBLE_PLATFORMS: Record<SupportedPlatform, SupportedPlatform[]> = {
+  [SupportedPlatform.BungeeCord]: [SupportedPlatform.BungeeCord],
+  [SupportedPlatform.Bukkit]: [SupportedPlatform.Bukkit],
+  [SupportedPlatform.Paper]: [
+    SupportedPlatform.Paper,
+    SupportedPlatform.Bukkit,
+  ],
+  [SupportedPlatform.Velocity]: [SupportedPlatform.Velocity],
+  [SupportedPlatform.Folia]: [SupportedPlatform.Folia],
+};
+
+/**
+ * 判断插件是否可以运行在指定平台的服务端上
+ * @param pluginPlatforms 插件支持的平台
+ * @param serverPlatform 服务端平台
+ * @returns 是否兼容
+ */
+export function isPlatformCompatible(
+  pluginPlatforms: SupportedPlatform[],
+  serverPlatform: SupportedPlatform
+): boolean {
+  return COMPATIBLE_PLATFORMS[serverPlatform].some((platform) =>
+    pluginPlatforms.includes(platform)
+  );
+}
+
+/**
+ * 从一个 Jar 的多份插件信息中选出适用于指定平台的一份
+ * 优先选择与服务端平台完全一致的描述文件，例如 Paper 服务端优先使用 paper-plugin.yml
+ * @param infos 同一个 Jar 中的插件信息
+ * @param serverPlatform 服务端平台
+ * @returns 适用的插件信息，没有兼容的插件信息时返回第一份，Jar 没有描述文件时返回 undefined
+ */
+export function selectPlatformInfo(
+  infos: PluginInfo[],
+  serverPlatform: SupportedPlatform
+): PluginInfo | undefined {
+  return (
+    infos.find((info) => info.platform.includes(serverPlatform)) ??
+    infos.find((info) => isPlatformCompatible(info.platform, serverPlatform)) ??
+    infos[0]
+  );
+}
+
+/**
+ * 比较两个 Minecraft 版本，例如 1.20 与 1.20.4
+ * 缺少的部分视为 0，非数字后缀（如 -pre1）被忽略
+ * @returns a 较新时为正数，较旧时为负数，相同时为 0
+ */
+export function compareGameVersions(a: string, b: string): number {
+  const parse = (version: string) =>
+    (version.match(/^\d+(\.\d+)*/)?.[0] ?? "0").split(".").map(Number);
+  const partsA = parse(a);
+  const partsB = parse(b);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * 判断插件的 api-version 是否可以运行在指定 Minecraft 版本的服务端上
+ * api-version 是插件所需的最低版本；插件或服务端没有声明版本时视为兼容
+ * @param apiVersion 插件的 api-version
+ * @param gameVersion 服务端的 Minecraft 版本
+ * @returns 是否兼容
+ */
+export function isGameVersionCompatible(
+  apiVersion: string | undefined,
+  gameVersion: string | undefined
+): boolean {
+  if (!apiVersion || !gameVersion) return true;
+  return compareGameVersions(gameVersion, apiVersion) >= 0;
+}
@@ -0,0 +1,103 @@
+import { RemoteRequestError } from "../../errors";
+
+export interface RemoteFileHashes {
+  sha512?: string;
+  sha256?: string;
+  sha1?: string;
+}
+
+export interface RemoteFile {
+  fileName: string;
+  downloadUrl: string;
+  /** 仓库公布的 hash，下载后用于校验 */
+  hashes: RemoteFileHashes;
+}
+
+export interface RemoteVersion {
+  project: string;
+  version: string;
+  /** 发布时间，ISO 8601 */
+  publishedAt: string;
+  /** 一个版本可能为不同平台提供不同的 Jar */
+  files: RemoteFile[];
+}
+
+export interface RepositoryAdapter {
+  /**
+   * 列出项目的可下载版本
+   * @param project 项目 ID 或 slug
+   * @param limit 最多返回的版本数量
+   * @returns 版本数组，从新到旧
+   */
+  listVersions(project: string, limit: number): Promise<RemoteVersion[]>;
+}
+
+const USER_AGENT = "MagmaBlock/too-many-plugins";
+
+/**
+ * 请求远程仓库的 JSON API
+ * @param url 请求地址
+ * @returns 解析后的响应
+ * @throws 如果请求失败或响应不是 JSON
+ */
+export async function fetchJson<T = any>(url: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
+    });
+  } catch (error) {
+    throw new RemoteRequestError(
+      url,
+      `Request to ${url} failed: ${(error as Error).message}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new RemoteRequestError(
+      url,
+      `Request to ${url} failed with status ${response.status}`,
+      response.status
+    );
+  }
+
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    throw new RemoteRequestError(url, `Invalid JSON response from ${url}`);
+  }
+}
+
+/**
+ * 下载文件
+ * @param url 下载地址
+ * @returns 文件内容
+ * @throws 如果下载失败
+ */
+export async function fetchFile(url: string): Promise<Buffer> {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { "User-Agent": USER_AGENT } });
+  } catch (error) {
+    throw new RemoteRequestError(
+      url,
+      `Download of ${url} failed: ${(error as Error).message}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new RemoteRequestError(
+      url,
+      `Download of ${url} failed with status ${response.status}`,
+      response.status
+    );
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * 拼接 API 地址，去掉根地址末尾的斜杠
+ */
+export function apiUrl(base: string, pathname: string): string {
+  return base.replace(/\/+$/, "") + pathname;
+}
@@ -0,0 +1,66 @@
+import {
+  apiUrl,
+  fetchJson,
+  RemoteFile,
+  RemoteVersion,
+  RepositoryAdapter,
+} from "./adapter";
+
+const PAGE_SIZE = 25;
+
+/**
+ * Hangar 风格的 API（/api/v1/projects/{slug}/versions）
+ * 每个版本可能为 Paper、Velocity、Waterfall 提供不同的文件，相同的文件只下载一次；
+ * 只有外部链接（没有 sha256）的文件会被忽略
+ */
+export function createHangarAdapter(baseUrl: string): RepositoryAdapter {
+  return {
+    async listVersions(project, limit) {
+      const results: RemoteVersion[] = [];
+
+      for (let offset = 0; results.length < limit; offset += PAGE_SIZE) {
+        const page = await fetchJson<any>(
+          apiUrl(
+            baseUrl,
+            `/projects/${encodeURIComponent(
+              project
+            )}/versions?limit=${PAGE_SIZE}&offset=${offset}`
+          )
+        );
+        const versions: any[] = Array.isArray(page?.result) ? page.result : [];
+
+        for (const version of versions) {
+          const files: RemoteFile[] = [];
+          for (const download of Object.values<any>(version.downloads ?? {})) {
+            const fileInfo = download?.fileInfo;
+            if (!download?.downloadUrl || !fileInfo?.sha256Hash) continue;
+            if (
+              files.some((file) => file.hashes.sha256 === fileInfo.sha256Hash)
+            )
+              continue;
+            files.push({
+              fileName: fileInfo.name,
+              downloadUrl: new URL(download.downloadUrl, baseUrl).href,
+              hashes: { sha256: fileInfo.sha256Hash },
+            });
+          }
+          if (files.length === 0) continue;
+
+          results.push({
+            project,
+            version: String(version.name),
+            publishedAt: version.createdAt ?? "",
+            files,
+          });
+        }
+
+        const total = page?.pagination?.count ?? 0;
+        if (versions.length < PAGE_SIZE || offset + PAGE_SIZE >= total) break;
+      }
+
+      return results
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+        .slice(0, limit);
+    },
+  };
+}
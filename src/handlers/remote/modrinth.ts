@@ -0,0 +1,64 @@
+import { apiUrl, fetchJson, RemoteVersion, RepositoryAdapter } from "./adapter";
+
+/** 服务端插件使用的 loader，其他 loader（fabric、forge 等）的版本是模组，会被忽略 */
+const PLUGIN_LOADERS = [
+  "bukkit",
+  "spigot",
+  "paper",
+  "purpur",
+  "folia",
+  "velocity",
+  "bungeecord",
+  "waterfall",
+];
+
+/**
+ * Modrinth 风格的 API（/v2/project/{id}/version）
+ * 每个版本使用其主文件，校验 sha512（没有时使用 sha1）
+ */
+export function createModrinthAdapter(baseUrl: string): RepositoryAdapter {
+  return {
+    async listVersions(project, limit) {
+      const versions = await fetchJson<any[]>(
+        apiUrl(baseUrl, `/project/${encodeURIComponent(project)}/version`)
+      );
+
+      const results: RemoteVersion[] = [];
+      for (const version of Array.isArray(versions) ? versions : []) {
+        const loaders: string[] = Array.isArray(version.loaders)
+          ? version.loaders
+          : [];
+        if (
+          loaders.length > 0 &&
+          !loaders.some((loader) => PLUGIN_LOADERS.includes(loader))
+        ) {
+          continue;
+        }
+
+        const files: any[] = Array.isArray(version.files) ? version.files : [];
+        const file = files.find((file) => file.primary) ?? files[0];
+        if (!file?.url || !file.filename) continue;
+
+        results.push({
+          project,
+          version: String(version.version_number),
+          publishedAt: version.date_published ?? "",
+          files: [
+            {
+              fileName: file.filename,
+              downloadUrl: file.url,
+              hashes: {
+                sha512: file.hashes?.sha512,
+                sha1: file.hashes?.sha1,
+              },
+            },
+          ],
+        });
+      }
+
+      return results
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+        .slice(0, limit);
+    },
+  };
+}
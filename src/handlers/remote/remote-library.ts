@@ -0,0 +1,187 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { HashMismatchError } from "../../errors";
+import { RemoteAdapterName, RemoteLibrary } from "../../types/library";
+import {
+  fetchFile,
+  RemoteFile,
+  RemoteFileHashes,
+  RepositoryAdapter,
+} from "./adapter";
+import { createHangarAdapter } from "./hangar";
+import { createModrinthAdapter } from "./modrinth";
+
+/** 记录缓存文件夹中由 tmp 下载的文件，用于清理旧版本 */
+const CACHE_MANIFEST_FILE = ".tmp-remote.json";
+
+interface CachedFile {
+  project: string;
+  version: string;
+  /** 校验使用的算法及 hash */
+  algorithm: keyof RemoteFileHashes;
+  hash: string;
+}
+
+interface CacheManifest {
+  files: { [fileName: string]: CachedFile };
+}
+
+export interface RemoteSyncResult {
+  downloaded: string[];
+  removed: string[];
+}
+
+/**
+ * 根据名称创建仓库适配器
+ * @param adapter 适配器名称
+ * @param url API 的根地址
+ */
+export function createAdapter(
+  adapter: RemoteAdapterName,
+  url: string
+): RepositoryAdapter {
+  return adapter === "hangar"
+    ? createHangarAdapter(url)
+    : createModrinthAdapter(url);
+}
+
+/**
+ * 根据地址推断仓库适配器
+ * @param url API 的根地址
+ * @returns 地址中包含 hangar 时为 hangar，否则为 modrinth
+ */
+export function detectAdapter(url: string): RemoteAdapterName {
+  return /hangar/i.test(url) ? "hangar" : "modrinth";
+}
+
+/**
+ * 将远程插件库跟踪的项目下载到缓存文件夹
+ * 每个项目保留最新的 maxVersions 个版本，下载的文件会校验仓库公布的 hash；
+ * 不再需要的旧版本以及不再跟踪的项目的文件会被删除
+ * @param library 远程插件库
+ * @returns 下载和删除的文件名
+ * @throws 如果请求失败或 hash 校验失败
+ */
+export async function syncRemoteLibrary(
+  library: RemoteLibrary
+): Promise<RemoteSyncResult> {
+  const { remote } = library;
+  const adapter = createAdapter(remote.adapter, remote.url);
+  await fs.mkdir(library.path, { recursive: true });
+
+  const manifest = await readCacheManifest(library.path);
+  const wanted: CacheManifest = { files: {} };
+  const result: RemoteSyncResult = { downloaded: [], removed: [] };
+
+  for (const project of remote.projects) {
+    const versions = await adapter.listVersions(project, remote.maxVersions);
+    for (const version of versions) {
+      for (const file of version.files) {
+        const published = pickHash(file.hashes);
+        // 无法校验的文件不下载
+        if (!published) continue;
+
+        const [algorithm, hash] = published;
+        const fileName = safeFileName(file.fileName);
+        const cached = manifest.files[fileName];
+        const filePath = path.join(library.path, fileName);
+
+        if (
+          !cached ||
+          cached.hash !== hash ||
+          (await hashFile(filePath, algorithm).catch(() => null)) !== hash
+        ) {
+          await downloadFile(file, filePath, algorithm, hash);
+          result.downloaded.push(fileName);
+        }
+
+        wanted.files[fileName] = {
+          project,
+          version: version.version,
+          algorithm,
+          hash,
+        };
+        // 下载成功后立即记录，失败时已下载的文件不需要重新下载
+        manifest.files[fileName] = wanted.files[fileName];
+        await writeCacheManifest(library.path, manifest);
+      }
+    }
+  }
+
+  for (const fileName of Object.keys(manifest.files)) {
+    if (wanted.files[fileName]) continue;
+    await fs.rm(path.join(library.path, fileName), { force: true });
+    result.removed.push(fileName);
+  }
+  await writeCacheManifest(library.path, wanted);
+
+  return result;
+}
+
+async function downloadFile(
+  file: RemoteFile,
+  filePath: string,
+  algorithm: keyof RemoteFileHashes,
+  hash: string
+): Promise<void> {
+  const content = await fetchFile(file.downloadUrl);
+  const actual = crypto.createHash(algorithm).update(content).digest("hex");
+  if (actual !== hash) {
+    throw new HashMismatchError(file.downloadUrl, algorithm);
+  }
+
+  // 先写入临时文件再重命名，避免留下不完整的 Jar
+  const partPath = filePath + ".part";
+  await fs.writeFile(partPath, content);
+  await fs.rename(partPath, filePath);
+}
+
+/**
+ * 选择最强的已公布 hash
+ * @returns 算法及 hash，仓库没有公布任何 hash 时返回 null
+ */
+function pickHash(
+  hashes: RemoteFileHashes
+): [keyof RemoteFileHashes, string] | null {
+  for (const algorithm of ["sha512", "sha256", "sha1"] as const) {
+    const hash = hashes[algorithm];
+    if (hash) return [algorithm, hash.toLowerCase()];
+  }
+  return null;
+}
+
+async function hashFile(
+  filePath: string,
+  algorithm: keyof RemoteFileHashes
+): Promise<string> {
+  const content = await fs.readFile(filePath);
+  return crypto.createHash(algorithm).update(content).digest("hex");
+}
+
+/** 文件名来自远程仓库，去掉其中的路径 */
+function safeFileName(fileName: string): string {
+  return path.basename(fileName.replace(/\\/g, "/"));
+}
+
+async function readCacheManifest(dir: string): Promise<CacheManifest> {
+  try {
+    const content = await fs.readFile(
+      path.join(dir, CACHE_MANIFEST_FILE),
+      "utf-8"
+    );
+    return JSON.parse(content);
+  } catch (error) {
+    return { files: {} };
+  }
+}
+
+async function writeCacheManifest(
+  dir: string,
+  manifest: CacheManifest
+): Promise<void> {
+  await fs.writeFile(
+    path.join(dir, CACHE_MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2)
+  );
+}
@@ -0,0 +1,86 @@
+import path from "node:path";
+import { TmpError } from "../../errors";
+import { Advisory, AdvisorySeverity } from "../../types/advisory";
+import {
+  ADVISORY_SEVERITIES,
+  advisoryTarget,
+  compareSeverity,
+  loadAdvisories,
+  matchAdvisories,
+} from "../advisory/advisory-database";
+import { listPlugins } from "./pluginManager";
+
+/** 服务端上命中安全公告的一个插件 */
+export interface AuditFinding {
+  /** 插件名称，无法读取插件信息时为文件名 */
+  name: string;
+  version?: string;
+  /** plugins 文件夹中的文件名 */
+  file: string;
+  hash: string;
+  enabled: boolean;
+  advisory: Advisory;
+}
+
+export interface AuditReport {
+  serverId: string;
+  /** 按严重程度从高到低排列 */
+  findings: AuditFinding[];
+  /** 最高的严重程度，没有命中时不存在 */
+  severity?: AdvisorySeverity;
+}
+
+/**
+ * 检查服务端上安装的插件（包括禁用的）是否命中安全公告
+ * @param serverId 服务端ID
+ * @param options.severity 只报告不低于该严重程度的公告
+ * @returns 检查报告
+ * @throws 如果服务端不存在、严重程度无效或安全公告数据库无效
+ */
+export async function auditServer(
+  serverId: string,
+  options: { severity?: AdvisorySeverity } = {}
+): Promise<AuditReport> {
+  const minimum = options.severity;
+  if (minimum && !ADVISORY_SEVERITIES.includes(minimum)) {
+    throw new TmpError(
+      "INVALID_ARGUMENT",
+      `Invalid severity: ${minimum}, expected one of ${ADVISORY_SEVERITIES.join(
+        ", "
+      )}`
+    );
+  }
+
+  const advisories = (await loadAdvisories()).filter(
+    (advisory) => !minimum || compareSeverity(advisory.severity, minimum) >= 0
+  );
+  const plugins = await listPlugins(serverId);
+
+  const findings: AuditFinding[] = [];
+  for (const plugin of plugins) {
+    for (const advisory of matchAdvisories(
+      advisoryTarget(plugin),
+      advisories
+    )) {
+      findings.push({
+        name: plugin.info?.name ?? path.basename(plugin.jarPath),
+        version: plugin.info?.version,
+        file: path.basename(plugin.jarPath),
+        hash: plugin.hash,
+        enabled: plugin.enabled !== false,
+        advisory,
+      });
+    }
+  }
+  findings.sort(
+    (a, b) =>
+      compareSeverity(b.advisory.severity, a.advisory.severity) ||
+      a.name.localeCompare(b.name)
+  );
+
+  return {
+    serverId,
+    findings,
+    ...(findings.length > 0 ? { severity: findings[0].advisory.severity } : {}),
+  };
+}
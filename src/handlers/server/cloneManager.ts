@@ -0,0 +1,217 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { PluginEntry, ServerPluginEntry } from "../../types/library";
+import { ServerEntry } from "../../types/server";
+import { SupportedPlatform } from "../../types/supported-platform";
+import { findPlugin, resolvePluginJar } from "../library/manager";
+import { getJarInfoWithCache } from "../jar/plugin-info-cache";
+import {
+  isGameVersionCompatible,
+  isPlatformCompatible,
+  selectPlatformInfo,
+} from "../platform/compatibility";
+import { applyPluginConfigs, ConfigFileChange } from "./configManager";
+import { readManifest, writeManifest } from "./manifest";
+import { DISABLED_SUFFIX, hasPluginInfo, listPlugins } from "./pluginManager";
+import { addServer, getServer } from "./serverManager";
+import { applyPluginChanges, PluginChange } from "./transaction";
+
+export interface ClonedPlugin {
+  name: string;
+  /** 源服务端上的插件 */
+  from: PluginEntry;
+  /** 目标服务端上的插件 */
+  to: PluginEntry;
+  /** 源 Jar 不能运行在目标平台上，换成了插件库中同名插件的其他构建 */
+  substituted: boolean;
+}
+
+export interface CloneResult {
+  sourceId: string;
+  targetId: string;
+  /** 目标服务端是否由本次克隆创建 */
+  created: boolean;
+  /** 复制到目标服务端的插件，包括目标上已经相同的插件 */
+  plugins: ClonedPlugin[];
+  /** 无法复制的插件及原因 */
+  skipped: { plugin: ServerPluginEntry; reason: string }[];
+  /** 是否将源服务端的 tmp.yml 复制到了新创建的目标服务端 */
+  manifest: boolean;
+  /** 新增或修改的插件配置文件 */
+  configs: ConfigFileChange[];
+}
+
+/**
+ * 将一个服务端的插件复制到另一个服务端
+ * 源 Jar 能运行在目标平台和 Minecraft 版本上时直接复制，否则从插件库中选择同名插件的构建，
+ * 优先相同版本，其次最新版本；禁用的插件复制后仍保持禁用。
+ * 目标上同名的插件会被替换，其余插件保持不变；
+ * 新创建的目标服务端会获得源服务端的 tmp.yml，其中去掉了无法复制的插件
+ * @param sourceId 源服务端ID
+ * @param targetId 目标服务端ID
+ * @param options.path 目标服务端不存在时，在该路径创建它
+ * @param options.platform 创建目标服务端时的平台，默认与源服务端相同
+ * @param options.gameVersion 创建目标服务端时的 Minecraft 版本，平台相同时默认与源服务端相同
+ * @param options.dryRun 只计算变更，不修改任何文件
+ * @returns 克隆结果
+ * @throws 如果源服务端不存在，或目标服务端不存在且没有指定 path
+ */
+export async function cloneServer(
+  sourceId: string,
+  targetId: string,
+  options: {
+    path?: string;
+    platform?: SupportedPlatform;
+    gameVersion?: string;
+    dryRun?: boolean;
+  } = {}
+): Promise<CloneResult> {
+  const source = await getServer(sourceId);
+  let target: ServerEntry;
+  let created = false;
+  try {
+    target = await getServer(targetId);
+  } catch (error) {
+    if (!options.path) throw error;
+    const platform = options.platform ?? source.platform;
+    const gameVersion =
+      options.gameVersion ??
+      (platform === source.platform ? source.gameVersion : undefined);
+    if (options.dryRun) {
+      target = {
+        id: targetId,
+        platform,
+        path: path.resolve(options.path),
+        ...(gameVersion ? { gameVersion } : {}),
+      };
+    } else {
+      await fs.mkdir(path.join(options.path, "plugins"), { recursive: true });
+      target = await addServer(targetId, options.path, platform, gameVersion);
+    }
+    created = true;
+  }
+
+  const result: CloneResult = {
+    sourceId,
+    targetId,
+    created,
+    plugins: [],
+    skipped: [],
+    manifest: false,
+    configs: [],
+  };
+  const existing = created ? [] : await listPlugins(targetId);
+  const changes: PluginChange[] = [];
+
+  for (const plugin of await listPlugins(sourceId)) {
+    if (!hasPluginInfo(plugin)) {
+      result.skipped.push({ plugin, reason: "not a plugin" });
+      continue;
+    }
+
+    const resolved = await resolveForTarget(plugin, target);
+    if (!resolved) {
+      result.skipped.push({
+        plugin,
+        reason: `no ${target.platform}${
+          target.gameVersion ? ` ${target.gameVersion}` : ""
+        } build in the libraries`,
+      });
+      continue;
+    }
+
+    const enabled = plugin.enabled !== false;
+    const file =
+      path.basename(resolved.jarPath).replace(/\.disabled$/i, "") +
+      (enabled ? "" : DISABLED_SUFFIX);
+    const to: PluginEntry = {
+      info: resolved.info,
+      hash: resolved.hash,
+      jarPath: path.join(target.path, "plugins", file),
+      enabled,
+    };
+    result.plugins.push({
+      name: plugin.info.name,
+      from: plugin,
+      to,
+      substituted: resolved.substituted,
+    });
+
+    const current = existing.find((p) => p.info?.name === plugin.info.name);
+    if (
+      current &&
+      current.hash === to.hash &&
+      path.basename(current.jarPath) === file
+    ) {
+      continue;
+    }
+    changes.push({
+      type: "add",
+      // 预览时不解压 zip 中的 Jar
+      source:
+        resolved.substituted && !options.dryRun
+          ? await resolvePluginJar(resolved)
+          : resolved.jarPath,
+      file,
+    });
+    if (current && path.basename(current.jarPath) !== file) {
+      changes.push({ type: "remove", file: path.basename(current.jarPath) });
+    }
+  }
+
+  // 已有的服务端可能有清单之外的插件，复制清单后同步会删除它们
+  const manifest = created ? await readManifest(source) : null;
+  result.manifest = !!manifest;
+  if (options.dryRun) return result;
+
+  if (manifest) {
+    const skipped = new Set(
+      result.skipped.map(({ plugin }) => plugin.info?.name.toLowerCase())
+    );
+    await writeManifest(target, {
+      ...manifest,
+      plugins: Object.fromEntries(
+        Object.entries(manifest.plugins).filter(
+          ([name]) => !skipped.has(name.toLowerCase())
+        )
+      ),
+    });
+  }
+  await applyPluginChanges(target, `clone ${sourceId}`, changes, existing);
+  result.configs = await applyPluginConfigs(targetId);
+  return result;
+}
+
+/**
+ * 为目标服务端选择插件的构建
+ * @returns 要安装的插件，找不到可用的构建时返回 null
+ */
+async function resolveForTarget(
+  plugin: PluginEntry,
+  target: ServerEntry
+): Promise<(PluginEntry & { substituted: boolean }) | null> {
+  const { info: infos } = await getJarInfoWithCache(plugin.jarPath);
+  const info = selectPlatformInfo(infos, target.platform);
+  if (
+    info &&
+    isPlatformCompatible(info.platform, target.platform) &&
+    isGameVersionCompatible(info.apiVersion, target.gameVersion)
+  ) {
+    return { ...plugin, info, substituted: false };
+  }
+
+  const filters = {
+    name: plugin.info.name,
+    exactName: true,
+    latest: true,
+    platform: target.platform,
+    gameVersion: target.gameVersion,
+  };
+  const [build] = await findPlugin({
+    ...filters,
+    pluginVersion: plugin.info.version,
+  }).then((sameVersion) =>
+    sameVersion.length > 0 ? sameVersion : findPlugin(filters)
+  );
+  return build ? { ...build, substituted: true } : null;
+}
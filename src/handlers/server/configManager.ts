@@ -0,0 +1,208 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { TemplateError } from "../../errors";
+import { Libraries, PluginEntry } from "../../types/library";
+import { ServerEntry } from "../../types/server";
+import { formatUnifiedDiff } from "../../utils/line-diff";
+import { listFiles } from "../../utils/list-files";
+import { getAllLibraries } from "../library/manager";
+import { readManifest } from "./manifest";
+import { hasPluginInfo, listPlugins } from "./pluginManager";
+import { getServer } from "./serverManager";
+
+/** 插件库中存放配置模板的文件夹，其中每个插件一个子文件夹 */
+export const CONFIG_TEMPLATE_DIR = ".tmp-config";
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export interface ConfigFileChange {
+  plugin: string;
+  /** 相对于 plugins 文件夹的路径，例如 LuckPerms/config.yml */
+  file: string;
+  /** added：数据文件夹中还没有该文件；modified：与渲染结果不一致 */
+  status: "added" | "modified" | "unchanged";
+  /** 从现有文件到渲染结果的 unified diff */
+  diff: string;
+}
+
+interface RenderedConfig {
+  plugin: string;
+  file: string;
+  content: string;
+}
+
+/**
+ * 比较服务端上插件的配置文件与渲染后的配置模板
+ * @param serverId 服务端ID
+ * @param plugins 只比较这些插件，默认为所有有模板的插件
+ * @returns 每个模板文件的比较结果
+ * @throws 如果模板引用了未定义的变量
+ */
+export async function diffPluginConfigs(
+  serverId: string,
+  plugins?: string[]
+): Promise<ConfigFileChange[]> {
+  const server = await getServer(serverId);
+  const rendered = await renderConfigs(server, plugins);
+  return compareConfigs(server, rendered);
+}
+
+/**
+ * 将渲染后的配置模板写入插件的数据文件夹
+ * @param serverId 服务端ID
+ * @param options.plugins 只写入这些插件的配置，默认为所有有模板的插件
+ * @param options.dryRun 只计算变更，不写入任何文件
+ * @returns 新增或修改的配置文件
+ * @throws 如果模板引用了未定义的变量
+ */
+export async function applyPluginConfigs(
+  serverId: string,
+  options: { plugins?: string[]; dryRun?: boolean } = {}
+): Promise<ConfigFileChange[]> {
+  const server = await getServer(serverId);
+  const rendered = await renderConfigs(server, options.plugins);
+  const changes = (await compareConfigs(server, rendered)).filter(
+    (change) => change.status !== "unchanged"
+  );
+  if (options.dryRun) return changes;
+
+  for (const change of changes) {
+    const config = rendered.find((config) => config.file === change.file)!;
+    const target = path.join(server.path, "plugins", config.file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // 先写入临时文件再重命名，插件不会读到写了一半的配置
+    await fs.writeFile(target + ".tmp-staging", config.content);
+    await fs.rename(target + ".tmp-staging", target);
+  }
+
+  return changes;
+}
+
+async function compareConfigs(
+  server: ServerEntry,
+  rendered: RenderedConfig[]
+): Promise<ConfigFileChange[]> {
+  const changes: ConfigFileChange[] = [];
+  for (const config of rendered) {
+    const current = await fs
+      .readFile(path.join(server.path, "plugins", config.file), "utf-8")
+      .catch(() => null);
+
+    changes.push({
+      plugin: config.plugin,
+      file: config.file,
+      status:
+        current === null
+          ? "added"
+          : current === config.content
+          ? "unchanged"
+          : "modified",
+      diff: formatUnifiedDiff(current ?? "", config.content, {
+        fromFile: current === null ? "/dev/null" : `live/${config.file}`,
+        toFile: `template/${config.file}`,
+      }),
+    });
+  }
+  return changes;
+}
+
+/**
+ * 渲染模板中的变量
+ * `{{ name }}` 会被替换为变量的值，`{{ env.NAME }}` 读取环境变量
+ * @param template 模板内容
+ * @param variables 变量
+ * @returns 渲染结果
+ * @throws 如果模板引用了未定义的变量
+ */
+export function renderTemplate(
+  template: string,
+  variables: { [name: string]: string }
+): string {
+  const missing = new Set<string>();
+  const result = template.replace(VARIABLE_PATTERN, (match, name: string) => {
+    const value = name.startsWith("env.")
+      ? process.env[name.slice(4)]
+      : variables[name];
+    if (value === undefined) {
+      missing.add(name);
+      return match;
+    }
+    return value;
+  });
+
+  if (missing.size > 0) {
+    throw new TemplateError([...missing]);
+  }
+  return result;
+}
+
+/**
+ * 渲染服务端上所有已安装插件的配置模板
+ */
+async function renderConfigs(
+  server: ServerEntry,
+  onlyPlugins?: string[]
+): Promise<RenderedConfig[]> {
+  const manifest = await readManifest(server);
+  const installed = await listPlugins(server.id);
+  const libraries = await getAllLibraries();
+  const filter = onlyPlugins?.map((name) => name.toLowerCase());
+
+  const rendered: RenderedConfig[] = [];
+  for (const plugin of installed.filter(hasPluginInfo)) {
+    if (filter && !filter.includes(plugin.info.name.toLowerCase())) continue;
+
+    const templateDir = await findTemplateDir(plugin, libraries);
+    if (!templateDir) continue;
+
+    const variables = {
+      ...server.variables,
+      ...manifest?.variables,
+      "server.id": server.id,
+      "server.platform": server.platform,
+      "plugin.name": plugin.info.name,
+      "plugin.version": plugin.info.version,
+    };
+
+    for (const file of await listFiles(templateDir)) {
+      const template = await fs.readFile(path.join(templateDir, file), "utf-8");
+      const relative = path.posix.join(plugin.info.name, file);
+      try {
+        rendered.push({
+          plugin: plugin.info.name,
+          file: relative,
+          content: renderTemplate(template, variables),
+        });
+      } catch (error) {
+        if (error instanceof TemplateError) {
+          throw new TemplateError(error.variables, relative);
+        }
+        throw error;
+      }
+    }
+  }
+
+  return rendered;
+}
+
+/**
+ * 查找插件的配置模板文件夹
+ * 优先使用插件 Jar 所在插件库中的模板，其次是任意插件库中同名插件的模板
+ */
+async function findTemplateDir(
+  plugin: PluginEntry,
+  libraries: Libraries
+): Promise<string | null> {
+  const candidates = Object.values(libraries).sort(
+    (a, b) =>
+      Number(b.plugins.some((p) => p.hash === plugin.hash)) -
+      Number(a.plugins.some((p) => p.hash === plugin.hash))
+  );
+
+  for (const library of candidates) {
+    const dir = path.join(library.path, CONFIG_TEMPLATE_DIR, plugin.info.name);
+    const stat = await fs.stat(dir).catch(() => null);
+    if (stat?.isDirectory()) return dir;
+  }
+  return null;
+}
@@ -0,0 +1,184 @@
+import path from "node:path";
+import { listJarClasses } from "../jar/list-jar-classes";
+import { listPlugins } from "./pluginManager";
+import { getServer } from "./serverManager";
+
+/** 常被打包进插件的库，应当重定位（relocate）到插件自己的包下 */
+const SHADED_LIBRARIES: { name: string; prefix: string }[] = [
+  { name: "Gson", prefix: "com/google/gson/" },
+  { name: "Guava", prefix: "com/google/common/" },
+  { name: "Kotlin", prefix: "kotlin/" },
+  { name: "kotlinx", prefix: "kotlinx/" },
+  { name: "Adventure", prefix: "net/kyori/" },
+  { name: "bStats", prefix: "org/bstats/" },
+  { name: "SnakeYAML", prefix: "org/yaml/snakeyaml/" },
+  { name: "Jackson", prefix: "com/fasterxml/jackson/" },
+  { name: "HikariCP", prefix: "com/zaxxer/hikari/" },
+  { name: "SLF4J", prefix: "org/slf4j/" },
+  { name: "Apache Commons", prefix: "org/apache/commons/" },
+  { name: "OkHttp", prefix: "okhttp3/" },
+  { name: "Okio", prefix: "okio/" },
+  { name: "MySQL Connector/J", prefix: "com/mysql/" },
+  { name: "SQLite JDBC", prefix: "org/sqlite/" },
+  { name: "H2", prefix: "org/h2/" },
+  { name: "XSeries", prefix: "com/cryptomorin/xseries/" },
+];
+
+/** 每个冲突最多列出的类 */
+const MAX_LISTED_CLASSES = 5;
+
+export type ConflictType =
+  | "duplicate-name"
+  | "duplicate-class"
+  | "unrelocated-library"
+  | "unreadable";
+
+export interface Conflict {
+  type: ConflictType;
+  /** error：很可能导致插件无法启用、ClassCastException 或 LinkageError；warning：潜在的问题 */
+  severity: "error" | "warning";
+  message: string;
+  /** 涉及的 Jar 文件名 */
+  files: string[];
+  /** 重复的类（全限定名），最多列出 MAX_LISTED_CLASSES 个 */
+  classes?: string[];
+  /** 重复的类的总数 */
+  classCount?: number;
+  /** 未重定位的库的名称 */
+  library?: string;
+}
+
+export interface ConflictReport {
+  serverId: string;
+  conflicts: Conflict[];
+}
+
+/**
+ * 检查服务端已安装的 Jar 之间的冲突
+ * 包括插件重名、多个 Jar 包含相同的类，以及未重定位的常见库（如 com/google/gson、kotlin/）
+ * @param serverId 服务端ID
+ * @returns 发现的冲突，错误在前
+ */
+export async function findConflicts(serverId: string): Promise<ConflictReport> {
+  await getServer(serverId);
+  // 被禁用的插件不会被加载，不会与其他插件冲突
+  const installed = (await listPlugins(serverId)).filter(
+    (plugin) => plugin.enabled !== false
+  );
+  const conflicts: Conflict[] = [];
+
+  // 插件重名
+  const byName = new Map<string, string[]>();
+  for (const plugin of installed) {
+    if (!plugin.info) continue;
+    const key = plugin.info.name.toLowerCase();
+    byName.set(key, [
+      ...(byName.get(key) ?? []),
+      path.basename(plugin.jarPath),
+    ]);
+  }
+  for (const files of byName.values()) {
+    if (files.length < 2) continue;
+    const name = installed.find(
+      (plugin) => path.basename(plugin.jarPath) === files[0]
+    )!.info!.name;
+    conflicts.push({
+      type: "duplicate-name",
+      severity: "error",
+      message: `${files.join(", ")} declare the same plugin name ${name}`,
+      files,
+    });
+  }
+
+  // 每个类所在的 Jar
+  const classFiles = new Map<string, string[]>();
+  const pluginNames = new Map<string, string | undefined>();
+  for (const plugin of installed) {
+    const file = path.basename(plugin.jarPath);
+    pluginNames.set(file, plugin.info?.name.toLowerCase());
+    let classes: string[];
+    try {
+      classes = listJarClasses(plugin.jarPath);
+    } catch (error) {
+      conflicts.push({
+        type: "unreadable",
+        severity: "warning",
+        message: `${file} could not be read as a jar`,
+        files: [file],
+      });
+      continue;
+    }
+    for (const className of classes) {
+      classFiles.set(className, [...(classFiles.get(className) ?? []), file]);
+    }
+  }
+
+  // 未重定位的库
+  const libraryClasses = new Set<string>();
+  for (const library of SHADED_LIBRARIES) {
+    const files = new Set<string>();
+    const classes: string[] = [];
+    for (const [className, inFiles] of classFiles) {
+      if (!className.startsWith(library.prefix)) continue;
+      libraryClasses.add(className);
+      inFiles.forEach((file) => files.add(file));
+      if (inFiles.length > 1) classes.push(className);
+    }
+    if (files.size === 0) continue;
+
+    const prefix = library.prefix.replace(/\/$/, "");
+    conflicts.push({
+      type: "unrelocated-library",
+      severity: files.size > 1 ? "error" : "warning",
+      message: `${library.name} (${prefix}) is bundled without relocation in ${[
+        ...files,
+      ].join(", ")}${files.size > 1 ? ", the copies will clash" : ""}`,
+      files: [...files],
+      library: library.name,
+      ...(classes.length > 0 ? summarizeClasses(classes) : {}),
+    });
+  }
+
+  // 其余的重复类，按所在的 Jar 分组
+  const duplicates = new Map<string, string[]>();
+  for (const [className, files] of classFiles) {
+    if (files.length < 2 || libraryClasses.has(className)) continue;
+    // 同名插件的多个版本已经作为重名报告
+    if (new Set(files.map((file) => pluginNames.get(file) ?? file)).size < 2) {
+      continue;
+    }
+    const key = [...files].sort().join("\n");
+    duplicates.set(key, [...(duplicates.get(key) ?? []), className]);
+  }
+  for (const [key, classes] of duplicates) {
+    const files = key.split("\n");
+    const summary = summarizeClasses(classes);
+    conflicts.push({
+      type: "duplicate-class",
+      severity: "error",
+      message: `${summary.classCount} class(es) are in ${files.join(
+        " and "
+      )}, e.g. ${summary.classes[0]}`,
+      files,
+      ...summary,
+    });
+  }
+
+  conflicts.sort(
+    (a, b) =>
+      Number(a.severity === "warning") - Number(b.severity === "warning")
+  );
+  return { serverId, conflicts };
+}
+
+function summarizeClasses(classes: string[]) {
+  return {
+    classes: classes
+      .sort()
+      .slice(0, MAX_LISTED_CLASSES)
+      .map((className) =>
+        className.replace(/\.class$/, "").replace(/\//g, ".")
+      ),
+    classCount: classes.length,
+  };
+}
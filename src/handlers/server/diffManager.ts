@@ -0,0 +1,267 @@
+import path from "node:path";
+import { ManifestError, SnapshotNotFoundError } from "../../errors";
+import { ServerPluginEntry } from "../../types/library";
+import { LOCKFILE_FILE, readLockfileAt, readManifest } from "./manifest";
+import { DISABLED_SUFFIX, listPlugins } from "./pluginManager";
+import { getServer } from "./serverManager";
+import { listSnapshots } from "./transaction";
+
+/** 参与比较的一个插件 */
+export interface PluginState {
+  /** 插件名称，无法读取插件信息时为文件名 */
+  name: string;
+  version?: string;
+  /** Jar 文件的 SHA-256 */
+  hash: string;
+  /** plugins 文件夹中的文件名 */
+  file: string;
+  enabled: boolean;
+}
+
+export interface ChangedPlugin {
+  name: string;
+  /**
+   * version：版本不同；
+   * hash：版本相同但 Jar 不同，通常是本地重新构建的 Jar；
+   * enabled：Jar 相同，只有启用状态不同
+   */
+  kind: "version" | "hash" | "enabled";
+  left: PluginState;
+  right: PluginState;
+}
+
+export interface PluginSetDiff {
+  /** 左侧的描述，例如 "lobby-1" 或 "lobby-1 (tmp-lock.yml)" */
+  left: string;
+  right: string;
+  onlyLeft: PluginState[];
+  onlyRight: PluginState[];
+  changed: ChangedPlugin[];
+  /** 两侧完全相同的插件 */
+  same: PluginState[];
+}
+
+/**
+ * 比较两个服务端上安装的插件
+ * @param leftId 左侧服务端ID
+ * @param rightId 右侧服务端ID
+ * @returns 比较结果
+ * @throws 如果任一服务端不存在
+ */
+export async function diffServers(
+  leftId: string,
+  rightId: string
+): Promise<PluginSetDiff> {
+  const [left, right] = await Promise.all([
+    listPlugins(leftId),
+    listPlugins(rightId),
+  ]);
+  return diffPluginSets(
+    leftId,
+    left.map(fromPluginEntry),
+    rightId,
+    right.map(fromPluginEntry)
+  );
+}
+
+/**
+ * 比较服务端上安装的插件与锁文件中锁定的插件
+ * 锁文件不记录启用状态，与同步时一样以同一文件夹中 tmp.yml 的 enabled 为准
+ * @param serverId 服务端ID
+ * @param lockfilePath 锁文件的路径，默认为服务端自己的 tmp-lock.yml
+ * @returns 比较结果，左侧为服务端，右侧为锁文件
+ * @throws 如果服务端或锁文件不存在，或锁文件格式不正确
+ */
+export async function diffWithLockfile(
+  serverId: string,
+  lockfilePath?: string
+): Promise<PluginSetDiff> {
+  const server = await getServer(serverId);
+  const filePath = path.resolve(
+    lockfilePath ?? path.join(server.path, LOCKFILE_FILE)
+  );
+  const lockfile = await readLockfileAt(filePath);
+  if (!lockfile) {
+    throw new ManifestError(
+      "LOCKFILE_NOT_FOUND",
+      `${path.basename(filePath)} not found in ${path.dirname(filePath)}`
+    );
+  }
+
+  const manifest = await readManifest({
+    ...server,
+    path: path.dirname(filePath),
+  });
+  const disabled = new Set(
+    Object.entries(manifest?.plugins ?? {})
+      .filter(([, plugin]) => plugin.enabled === false)
+      .map(([name]) => name.toLowerCase())
+  );
+
+  const installed = await listPlugins(serverId);
+  const locked = Object.values(lockfile.plugins).map((plugin) => {
+    const enabled = !disabled.has(plugin.name.toLowerCase());
+    return {
+      name: plugin.name,
+      version: plugin.version,
+      hash: plugin.hash,
+      file: plugin.file + (enabled ? "" : DISABLED_SUFFIX),
+      enabled,
+    };
+  });
+  return diffPluginSets(
+    serverId,
+    installed.map(fromPluginEntry),
+    lockfilePath ? filePath : `${serverId} (${LOCKFILE_FILE})`,
+    locked
+  );
+}
+
+/**
+ * 比较服务端上安装的插件与快照记录的状态（即快照对应的操作之前）
+ * @param serverId 服务端ID
+ * @param snapshotId 快照ID
+ * @returns 比较结果，左侧为服务端，右侧为快照
+ * @throws 如果服务端或快照不存在
+ */
+export async function diffWithSnapshot(
+  serverId: string,
+  snapshotId: string
+): Promise<PluginSetDiff> {
+  const snapshot = (await listSnapshots(serverId)).find(
+    (snapshot) => snapshot.id === snapshotId
+  );
+  if (!snapshot) {
+    throw new SnapshotNotFoundError(`Snapshot not found: ${snapshotId}`, {
+      serverId,
+      snapshot: snapshotId,
+    });
+  }
+
+  const installed = await listPlugins(serverId);
+  const recorded = snapshot.before.map((file) => ({
+    name: file.name ?? file.file,
+    version: file.version,
+    hash: file.hash,
+    file: file.file,
+    enabled: !file.file.endsWith(DISABLED_SUFFIX),
+  }));
+  return diffPluginSets(
+    serverId,
+    installed.map(fromPluginEntry),
+    `${serverId}@${snapshot.id}`,
+    recorded
+  );
+}
+
+/**
+ * 比较两组插件，插件名称不区分大小写
+ * @returns 比较结果，各列表按插件名称排序
+ */
+export function diffPluginSets(
+  leftLabel: string,
+  left: PluginState[],
+  rightLabel: string,
+  right: PluginState[]
+): PluginSetDiff {
+  const rightByName = new Map(
+    right.map((plugin) => [plugin.name.toLowerCase(), plugin])
+  );
+  const diff: PluginSetDiff = {
+    left: leftLabel,
+    right: rightLabel,
+    onlyLeft: [],
+    onlyRight: [],
+    changed: [],
+    same: [],
+  };
+
+  for (const plugin of left) {
+    const other = rightByName.get(plugin.name.toLowerCase());
+    if (!other) {
+      diff.onlyLeft.push(plugin);
+      continue;
+    }
+    rightByName.delete(plugin.name.toLowerCase());
+
+    const kind =
+      plugin.version !== other.version
+        ? "version"
+        : plugin.hash !== other.hash
+        ? "hash"
+        : plugin.enabled !== other.enabled
+        ? "enabled"
+        : null;
+    if (kind) {
+      diff.changed.push({
+        name: plugin.name,
+        kind,
+        left: plugin,
+        right: other,
+      });
+    } else {
+      diff.same.push(plugin);
+    }
+  }
+  diff.onlyRight.push(...rightByName.values());
+
+  const byName = (a: { name: string }, b: { name: string }) =>
+    a.name.localeCompare(b.name);
+  diff.onlyLeft.sort(byName);
+  diff.onlyRight.sort(byName);
+  diff.changed.sort(byName);
+  diff.same.sort(byName);
+  return diff;
+}
+
+/**
+ * 以统一差异格式（diff -u）输出比较结果，每个插件一行：名称、版本、SHA-256 与禁用状态
+ * @param diff 比较结果
+ * @returns 差异文本，两侧相同时只有文件头
+ */
+export function formatUnifiedDiff(diff: PluginSetDiff): string {
+  type Line = { name: string; text: string };
+  const line = (prefix: string, plugin: PluginState): Line => ({
+    name: plugin.name,
+    text: `${prefix}${plugin.name} ${plugin.version ?? "-"} ${plugin.hash}${
+      plugin.enabled ? "" : " disabled"
+    }`,
+  });
+
+  const lines: Line[][] = [
+    ...diff.onlyLeft.map((plugin) => [line("-", plugin)]),
+    ...diff.onlyRight.map((plugin) => [line("+", plugin)]),
+    ...diff.changed.map(({ left, right }) => [
+      line("-", left),
+      line("+", right),
+    ]),
+    ...diff.same.map((plugin) => [line(" ", plugin)]),
+  ].sort(([a], [b]) => a.name.localeCompare(b.name));
+
+  const output = [`--- ${diff.left}`, `+++ ${diff.right}`];
+  if (diff.onlyLeft.length + diff.onlyRight.length + diff.changed.length > 0) {
+    const common = diff.same.length + diff.changed.length;
+    output.push(
+      `@@ -${range(common + diff.onlyLeft.length)} +${range(
+        common + diff.onlyRight.length
+      )} @@`,
+      ...lines.flat().map(({ text }) => text)
+    );
+  }
+  return output.join("\n");
+}
+
+/** 统一差异格式的行范围，空的一侧从第 0 行开始 */
+function range(count: number): string {
+  return `${count === 0 ? 0 : 1},${count}`;
+}
+
+function fromPluginEntry(plugin: ServerPluginEntry): PluginState {
+  return {
+    name: plugin.info?.name ?? path.basename(plugin.jarPath),
+    version: plugin.info?.version,
+    hash: plugin.hash,
+    file: path.basename(plugin.jarPath),
+    enabled: plugin.enabled !== false,
+  };
+}
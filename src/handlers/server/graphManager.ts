@@ -0,0 +1,370 @@
+import path from "node:path";
+import { PluginEntry } from "../../types/library";
+import { isPlatformCompatible } from "../platform/compatibility";
+import { hasPluginInfo, listPlugins } from "./pluginManager";
+import { getServer } from "./serverManager";
+
+export type LoadEdgeType = "depend" | "softdepend" | "loadbefore";
+
+/** from 必须先于 to 加载 */
+export interface LoadEdge {
+  from: string;
+  to: string;
+  type: LoadEdgeType;
+}
+
+export interface LoadNode {
+  name: string;
+  version?: string;
+  /** plugins 文件夹中的文件名，未安装的依赖没有 */
+  file?: string;
+  /** 被依赖但未安装的插件 */
+  missing?: boolean;
+  /** 由于 problems 中的问题无法启用的插件 */
+  failed?: boolean;
+}
+
+export type GraphProblemType =
+  | "duplicate-name"
+  | "wrong-platform"
+  | "missing-dependency"
+  | "cycle"
+  | "unrecognized";
+
+export interface GraphProblem {
+  type: GraphProblemType;
+  /** error：插件无法启用；warning：插件可以启用，但加载顺序可能不符合预期 */
+  severity: "error" | "warning";
+  message: string;
+  plugins: string[];
+}
+
+export interface LoadGraph {
+  serverId: string;
+  nodes: LoadNode[];
+  edges: LoadEdge[];
+  /** 可以启用的插件的加载顺序 */
+  loadOrder: string[];
+  problems: GraphProblem[];
+}
+
+/**
+ * 分析服务端已安装插件的加载图，被禁用的插件不会被加载，视为未安装
+ * depend、softdepend 与 loadbefore 都会成为图中的边；
+ * 缺少硬依赖、平台不兼容、硬依赖成环或重名的插件无法启用，依赖它们的插件同样无法启用
+ * @param serverId 服务端ID
+ * @returns 加载图、加载顺序以及发现的问题
+ */
+export async function buildLoadGraph(serverId: string): Promise<LoadGraph> {
+  const server = await getServer(serverId);
+  const all = await listPlugins(serverId);
+  const installed = all.filter((plugin) => plugin.enabled !== false);
+  const disabled = new Set(
+    all
+      .filter(hasPluginInfo)
+      .filter((plugin) => plugin.enabled === false)
+      .map((plugin) => plugin.info.name.toLowerCase())
+  );
+
+  const problems: GraphProblem[] = [];
+  const failed = new Set<string>();
+  const nodes = new Map<string, LoadNode>();
+  const plugins = new Map<string, PluginEntry>();
+
+  for (const plugin of installed) {
+    const file = path.basename(plugin.jarPath);
+    if (!hasPluginInfo(plugin)) {
+      problems.push({
+        type: "unrecognized",
+        severity: "warning",
+        message: `${file} has no plugin descriptor and will not be loaded`,
+        plugins: [file],
+      });
+      continue;
+    }
+
+    const key = plugin.info.name.toLowerCase();
+    const existing = plugins.get(key);
+    if (existing) {
+      problems.push({
+        type: "duplicate-name",
+        severity: "error",
+        message: `${plugin.info.name} is provided by both ${path.basename(
+          existing.jarPath
+        )} and ${file}`,
+        plugins: [plugin.info.name],
+      });
+      failed.add(key);
+      continue;
+    }
+
+    plugins.set(key, plugin);
+    nodes.set(key, {
+      name: plugin.info.name,
+      version: plugin.info.version,
+      file,
+    });
+
+    if (!isPlatformCompatible(plugin.info.platform, server.platform)) {
+      problems.push({
+        type: "wrong-platform",
+        severity: "error",
+        message: `${plugin.info.name} supports ${plugin.info.platform.join(
+          ", "
+        )}, not ${server.platform}`,
+        plugins: [plugin.info.name],
+      });
+      failed.add(key);
+    }
+  }
+
+  const edges: LoadEdge[] = [];
+  const addEdge = (from: string, to: string, type: LoadEdgeType) => {
+    const exists = edges.some(
+      (edge) => edge.from === from && edge.to === to && edge.type === type
+    );
+    if (!exists) edges.push({ from, to, type });
+  };
+
+  for (const [key, plugin] of plugins) {
+    const { info } = plugin;
+    for (const dependency of info.depend) {
+      const dependencyKey = dependency.toLowerCase();
+      if (!nodes.has(dependencyKey)) {
+        nodes.set(dependencyKey, { name: dependency, missing: true });
+        problems.push({
+          type: "missing-dependency",
+          severity: "error",
+          message: `${info.name} requires ${dependency}, which is ${
+            disabled.has(dependencyKey) ? "disabled" : "not installed"
+          }`,
+          plugins: [info.name, dependency],
+        });
+        failed.add(key);
+      }
+      addEdge(dependencyKey, key, "depend");
+    }
+    for (const dependency of info.softdepend) {
+      if (plugins.has(dependency.toLowerCase())) {
+        addEdge(dependency.toLowerCase(), key, "softdepend");
+      }
+    }
+    for (const dependent of info.loadbefore) {
+      if (plugins.has(dependent.toLowerCase())) {
+        addEdge(key, dependent.toLowerCase(), "loadbefore");
+      }
+    }
+  }
+
+  // 硬依赖组成的环无法启用；包含软依赖的环会被服务端打破，但加载顺序不确定
+  const hardCycles = findCycles(
+    [...plugins.keys()],
+    edges.filter((edge) => edge.type === "depend")
+  );
+  for (const cycle of hardCycles) {
+    problems.push({
+      type: "cycle",
+      severity: "error",
+      message: `Circular dependency: ${formatCycle(cycle, nodes)}`,
+      plugins: cycle.map((key) => nodes.get(key)!.name),
+    });
+    cycle.forEach((key) => failed.add(key));
+  }
+  for (const cycle of findCycles([...plugins.keys()], edges)) {
+    if (hardCycles.some((hard) => hard.every((key) => cycle.includes(key)))) {
+      continue;
+    }
+    problems.push({
+      type: "cycle",
+      severity: "warning",
+      message: `Circular load order: ${formatCycle(
+        cycle,
+        nodes
+      )}, the server will ignore one of the soft dependencies`,
+      plugins: cycle.map((key) => nodes.get(key)!.name),
+    });
+  }
+
+  // 无法启用的插件会导致硬依赖它的插件也无法启用
+  const queue = [...failed];
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.from === key && edge.type === "depend" && !failed.has(edge.to)) {
+        failed.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+  for (const key of failed) {
+    const node = nodes.get(key);
+    if (node && !node.missing) node.failed = true;
+  }
+
+  const loadable = [...plugins.keys()].filter((key) => !failed.has(key));
+  const loadOrder = sortLoadOrder(loadable, edges).map(
+    (key) => nodes.get(key)!.name
+  );
+
+  return {
+    serverId,
+    nodes: [...nodes.values()],
+    edges: edges.map((edge) => ({
+      from: nodes.get(edge.from)!.name,
+      to: nodes.get(edge.to)!.name,
+      type: edge.type,
+    })),
+    loadOrder,
+    problems,
+  };
+}
+
+/**
+ * 将加载图导出为 Graphviz DOT
+ * 实线为 depend，虚线为 softdepend，点线为 loadbefore，无法启用或缺失的插件标为红色
+ */
+export function formatGraphDot(graph: LoadGraph): string {
+  const lines = [`digraph ${JSON.stringify(graph.serverId)} {`];
+  lines.push("  rankdir=LR;");
+  for (const node of graph.nodes) {
+    const attributes = [`label=${JSON.stringify(formatNodeLabel(node))}`];
+    if (node.missing) attributes.push("style=dashed", "color=red");
+    else if (node.failed) attributes.push("color=red");
+    lines.push(`  ${JSON.stringify(node.name)} [${attributes.join(", ")}];`);
+  }
+  const styles: Record<LoadEdgeType, string> = {
+    depend: "solid",
+    softdepend: "dashed",
+    loadbefore: "dotted",
+  };
+  for (const edge of graph.edges) {
+    lines.push(
+      `  ${JSON.stringify(edge.from)} -> ${JSON.stringify(edge.to)} [style=${
+        styles[edge.type]
+      }, label=${JSON.stringify(edge.type)}];`
+    );
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * 将加载图导出为 Mermaid 流程图
+ */
+export function formatGraphMermaid(graph: LoadGraph): string {
+  const ids = new Map(
+    graph.nodes.map((node, index) => [node.name, `n${index}`])
+  );
+  const lines = ["graph LR"];
+  for (const node of graph.nodes) {
+    const label = formatNodeLabel(node).replace(/"/g, "#quot;");
+    lines.push(`  ${ids.get(node.name)}["${label}"]`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.type === "depend" ? "-->" : "-.->";
+    lines.push(
+      `  ${ids.get(edge.from)} ${arrow}|${edge.type}| ${ids.get(edge.to)}`
+    );
+  }
+  const failed = graph.nodes
+    .filter((node) => node.missing || node.failed)
+    .map((node) => ids.get(node.name));
+  if (failed.length > 0) {
+    lines.push("  classDef failed stroke:#f00,color:#f00");
+    lines.push(`  class ${failed.join(",")} failed`);
+  }
+  return lines.join("\n");
+}
+
+function formatNodeLabel(node: LoadNode): string {
+  if (node.missing) return `${node.name} (missing)`;
+  return node.version ? `${node.name} ${node.version}` : node.name;
+}
+
+function formatCycle(cycle: string[], nodes: Map<string, LoadNode>): string {
+  return [...cycle, cycle[0]].map((key) => nodes.get(key)!.name).join(" -> ");
+}
+
+/**
+ * 使用 Tarjan 算法找出图中的所有环（包含多于一个节点的强连通分量）
+ * @returns 每个环中的节点，按名称排序
+ */
+function findCycles(keys: string[], edges: LoadEdge[]): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const connect = (key: string) => {
+    index.set(key, counter);
+    lowLink.set(key, counter);
+    counter++;
+    stack.push(key);
+    onStack.add(key);
+
+    for (const edge of edges) {
+      if (edge.from !== key || !keys.includes(edge.to)) continue;
+      if (!index.has(edge.to)) {
+        connect(edge.to);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(edge.to)!));
+      } else if (onStack.has(edge.to)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(edge.to)!));
+      }
+    }
+
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+
+      const selfLoop = edges.some(
+        (edge) => edge.from === key && edge.to === key
+      );
+      if (component.length > 1 || selfLoop) cycles.push(component.sort());
+    }
+  };
+
+  for (const key of [...keys].sort()) {
+    if (!index.has(key)) connect(key);
+  }
+  return cycles;
+}
+
+/**
+ * 按照加载图排序，结果稳定（同一层级按名称排序）
+ * 与服务端的行为一致：没有可加载的插件时，忽略软依赖和 loadbefore 强制加载一个
+ */
+function sortLoadOrder(keys: string[], edges: LoadEdge[]): string[] {
+  const remaining = new Set(keys);
+  const relevant = edges.filter(
+    (edge) => remaining.has(edge.from) && remaining.has(edge.to)
+  );
+  const order: string[] = [];
+
+  while (remaining.size > 0) {
+    const candidates = [...remaining].sort();
+    const blocking = (key: string, hardOnly: boolean) =>
+      relevant.some(
+        (edge) =>
+          edge.to === key &&
+          edge.from !== key &&
+          remaining.has(edge.from) &&
+          (!hardOnly || edge.type === "depend")
+      );
+
+    const next =
+      candidates.find((key) => !blocking(key, false)) ??
+      candidates.find((key) => !blocking(key, true)) ??
+      candidates[0];
+    order.push(next);
+    remaining.delete(next);
+  }
+
+  return order;
+}
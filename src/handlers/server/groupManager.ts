@@ -0,0 +1,281 @@
+import { getStorage } from "../../db/db";
+import { SERVER_GROUP_PREFIX, serverGroupKey } from "../../db/keys";
+import {
+  GroupExistsError,
+  GroupNotFoundError,
+  InvalidGroupError,
+  ServerNotFoundError,
+} from "../../errors";
+import {
+  ServerEntry,
+  ServerGroup,
+  ServerGroups,
+  ServerList,
+} from "../../types/server";
+import { globToRegExp, isGlob } from "../../utils/glob";
+import { getAllServers } from "./serverManager";
+
+const GROUP_ID_PATTERN = /^[\w.-]+(\/[\w.-]+)*$/;
+
+export type ServerRunResult<T> =
+  | { serverId: string; ok: true; result: T }
+  | { serverId: string; ok: false; error: unknown };
+
+/**
+ * 获取所有服务端分组
+ * @returns 所有分组的对象
+ */
+export async function getAllGroups(): Promise<ServerGroups> {
+  const storage = await getStorage();
+  const keys = await storage.getKeys(SERVER_GROUP_PREFIX);
+  const items = await storage.getItems<ServerGroup>(keys);
+
+  const groups: ServerGroups = {};
+  for (const { value } of items) {
+    if (value) groups[value.id] = value;
+  }
+  return groups;
+}
+
+/**
+ * 获取服务端分组
+ * @param id 分组ID
+ * @returns 分组
+ * @throws 如果分组不存在
+ */
+export async function getGroup(id: string): Promise<ServerGroup> {
+  const storage = await getStorage();
+  const group = await storage.getItem<ServerGroup>(serverGroupKey(id));
+  if (!group) {
+    throw new GroupNotFoundError(id);
+  }
+  return group;
+}
+
+/**
+ * 添加服务端分组
+ * @param id 分组ID，使用 / 表示嵌套，例如 network/lobby
+ * @param members 服务端ID、服务端ID的通配符，或以 @ 开头引用的其他分组
+ * @returns 添加的分组
+ * @throws 如果分组已存在、ID无效、成员不存在或分组之间存在循环引用
+ */
+export async function addGroup(
+  id: string,
+  members: string[] = []
+): Promise<ServerGroup> {
+  const storage = await getStorage();
+  if (await storage.hasItem(serverGroupKey(id))) {
+    throw new GroupExistsError(id);
+  }
+  if (!GROUP_ID_PATTERN.test(id)) {
+    throw new InvalidGroupError(
+      `Invalid server group id: ${id}, use letters, digits, ".", "-", "_" and "/" for nesting`,
+      { groupId: id }
+    );
+  }
+
+  const group: ServerGroup = { id, members: [...new Set(members)] };
+  await validateGroup(group);
+  await storage.setItem(serverGroupKey(id), group);
+  return group;
+}
+
+/**
+ * 删除服务端分组，嵌套在其下的分组不受影响
+ * 没有嵌套分组时，其他分组中对它的引用也会被移除
+ * @param id 分组ID
+ * @returns 是否成功删除
+ * @throws 如果分组不存在
+ */
+export async function removeGroup(id: string): Promise<boolean> {
+  await getGroup(id);
+  const storage = await getStorage();
+  await storage.removeItem(serverGroupKey(id));
+
+  const groups = await getAllGroups();
+  if (Object.keys(groups).some((other) => other.startsWith(`${id}/`))) {
+    return true;
+  }
+  for (const group of Object.values(groups)) {
+    if (!group.members.includes(`@${id}`)) continue;
+    await storage.setItem(serverGroupKey(group.id), {
+      ...group,
+      members: group.members.filter((member) => member !== `@${id}`),
+    });
+  }
+  return true;
+}
+
+/**
+ * 修改服务端分组的成员
+ * @param id 分组ID
+ * @param changes.add 要添加的成员
+ * @param changes.remove 要移除的成员
+ * @returns 修改后的分组
+ * @throws 如果分组不存在、成员不存在或分组之间存在循环引用
+ */
+export async function updateGroupMembers(
+  id: string,
+  changes: { add?: string[]; remove?: string[] }
+): Promise<ServerGroup> {
+  const group = await getGroup(id);
+  const members = group.members.filter(
+    (member) => !changes.remove?.includes(member)
+  );
+  const updated: ServerGroup = {
+    ...group,
+    members: [...new Set([...members, ...(changes.add ?? [])])],
+  };
+
+  await validateGroup(updated);
+  const storage = await getStorage();
+  await storage.setItem(serverGroupKey(id), updated);
+  return updated;
+}
+
+/**
+ * 从所有分组中移除服务端，在删除服务端时调用
+ * @param serverId 服务端ID
+ */
+export async function removeServerFromGroups(serverId: string): Promise<void> {
+  const storage = await getStorage();
+  for (const group of Object.values(await getAllGroups())) {
+    if (!group.members.includes(serverId)) continue;
+    await storage.setItem(serverGroupKey(group.id), {
+      ...group,
+      members: group.members.filter((member) => member !== serverId),
+    });
+  }
+}
+
+/**
+ * 解析服务端选择器
+ * 选择器可以是服务端ID、服务端ID的通配符（lobby-*），或 @ 加分组ID；
+ * 分组包含嵌套在其下的所有分组，例如 @network 包含 network/lobby，@network/* 匹配 network 的直接子分组
+ * @param selectors 选择器
+ * @returns 匹配的服务端，按首次匹配的顺序排列且不重复
+ * @throws 如果服务端或分组不存在、分组之间存在循环引用，或没有匹配任何服务端
+ */
+export async function resolveServers(
+  selectors: string[]
+): Promise<ServerEntry[]> {
+  const servers = await getAllServers();
+  const groups = await getAllGroups();
+  const ids = expandSelectors(selectors, servers, groups, []);
+  if (ids.length === 0) {
+    throw new ServerNotFoundError(selectors.join(","));
+  }
+  return ids.map((id) => servers[id]);
+}
+
+/**
+ * 依次在选择器匹配的每个服务端上执行操作
+ * 一个服务端失败不会中断其他服务端，结果中记录每个服务端的成功或失败
+ * @param selectors 服务端选择器
+ * @param run 在一个服务端上执行的操作
+ * @returns 每个服务端的结果
+ * @throws 如果选择器无效
+ */
+export async function runOnServers<T>(
+  selectors: string[],
+  run: (server: ServerEntry) => Promise<T>
+): Promise<ServerRunResult<T>[]> {
+  const servers = await resolveServers(selectors);
+
+  const results: ServerRunResult<T>[] = [];
+  for (const server of servers) {
+    try {
+      results.push({
+        serverId: server.id,
+        ok: true,
+        result: await run(server),
+      });
+    } catch (error) {
+      results.push({ serverId: server.id, ok: false, error });
+    }
+  }
+  return results;
+}
+
+/**
+ * 检查分组的成员都存在，且不存在循环引用
+ */
+async function validateGroup(group: ServerGroup): Promise<void> {
+  for (const member of group.members) {
+    if (!member || member === "@" || member.includes(",")) {
+      throw new InvalidGroupError(`Invalid server group member: ${member}`, {
+        groupId: group.id,
+        member,
+      });
+    }
+  }
+
+  const servers = await getAllServers();
+  const groups = { ...(await getAllGroups()), [group.id]: group };
+  expandSelectors([`@${group.id}`], servers, groups, []);
+}
+
+function expandSelectors(
+  selectors: string[],
+  servers: ServerList,
+  groups: ServerGroups,
+  stack: string[]
+): string[] {
+  const result = new Set<string>();
+
+  for (const selector of selectors) {
+    if (selector.startsWith("@")) {
+      for (const group of matchGroups(selector.slice(1), groups)) {
+        if (stack.includes(group.id)) {
+          throw new InvalidGroupError(
+            `Server groups reference each other: ${[...stack, group.id].join(
+              " -> "
+            )}`,
+            { groups: [...stack, group.id] }
+          );
+        }
+        const members = expandSelectors(group.members, servers, groups, [
+          ...stack,
+          group.id,
+        ]);
+        members.forEach((id) => result.add(id));
+      }
+    } else if (isGlob(selector)) {
+      const pattern = globToRegExp(selector);
+      Object.keys(servers)
+        .filter((id) => pattern.test(id))
+        .sort()
+        .forEach((id) => result.add(id));
+    } else {
+      if (!servers[selector]) {
+        throw new ServerNotFoundError(selector);
+      }
+      result.add(selector);
+    }
+  }
+
+  return [...result];
+}
+
+/**
+ * 查找匹配的分组及嵌套在其下的分组
+ * 父分组本身不需要存在，例如只有 network/lobby 时 @network 也能匹配
+ * @throws 如果没有匹配任何分组
+ */
+function matchGroups(pattern: string, groups: ServerGroups): ServerGroup[] {
+  const matcher = isGlob(pattern) ? globToRegExp(pattern) : null;
+  const ids = Object.keys(groups);
+  const roots = matcher
+    ? ids.filter((id) => matcher.test(id))
+    : ids.filter((id) => id === pattern || id.startsWith(`${pattern}/`));
+  if (roots.length === 0) {
+    throw new GroupNotFoundError(pattern);
+  }
+
+  return ids
+    .filter((id) =>
+      roots.some((root) => id === root || id.startsWith(`${root}/`))
+    )
+    .sort()
+    .map((id) => groups[id]);
+}
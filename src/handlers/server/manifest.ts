@@ -0,0 +1,219 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { dump, load } from "js-yaml";
+import {
+  ManifestPlugin,
+  ServerLockfile,
+  ServerManifest,
+} from "../../types/manifest";
+import { ServerEntry } from "../../types/server";
+import { satisfiesVersion } from "../library/version-range";
+import { ManifestError } from "../../errors";
+
+export const MANIFEST_FILE = "tmp.yml";
+export const LOCKFILE_FILE = "tmp-lock.yml";
+
+const LOCKFILE_HEADER =
+  "# This file is generated by tmp, do not edit it manually.\n";
+
+/**
+ * 读取服务端的插件清单（与 plugins 文件夹同级的 tmp.yml）
+ * @param server 服务端
+ * @returns 插件清单，文件不存在时返回 null
+ * @throws 如果清单格式不正确
+ */
+export async function readManifest(
+  server: ServerEntry
+): Promise<ServerManifest | null> {
+  const content = await readOptionalFile(path.join(server.path, MANIFEST_FILE));
+  if (content === null) return null;
+
+  const raw =
+    (parseYaml(content, "INVALID_MANIFEST", MANIFEST_FILE) as any) ?? {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ManifestError(
+      "INVALID_MANIFEST",
+      `Invalid ${MANIFEST_FILE}: expected a mapping`
+    );
+  }
+
+  const plugins: ServerManifest["plugins"] = {};
+  for (const [name, value] of Object.entries<any>(raw.plugins ?? {})) {
+    plugins[name] = parseManifestPlugin(name, value);
+  }
+
+  if (raw.variables !== undefined) {
+    if (typeof raw.variables !== "object" || Array.isArray(raw.variables)) {
+      throw new ManifestError(
+        "INVALID_MANIFEST",
+        `Invalid ${MANIFEST_FILE}: "variables" must be a mapping`
+      );
+    }
+    const variables: { [name: string]: string } = {};
+    for (const [name, value] of Object.entries(raw.variables)) {
+      variables[name] = String(value);
+    }
+    return { plugins, variables };
+  }
+
+  return { plugins };
+}
+
+/**
+ * 写入服务端的插件清单
+ * @param server 服务端
+ * @param manifest 插件清单
+ */
+export async function writeManifest(
+  server: ServerEntry,
+  manifest: ServerManifest
+): Promise<void> {
+  await fs.writeFile(
+    path.join(server.path, MANIFEST_FILE),
+    dump(manifest, { sortKeys: true })
+  );
+}
+
+/**
+ * 读取服务端的锁文件（tmp-lock.yml）
+ * @param server 服务端
+ * @returns 锁文件，文件不存在时返回 null
+ * @throws 如果锁文件格式不正确
+ */
+export async function readLockfile(
+  server: ServerEntry
+): Promise<ServerLockfile | null> {
+  return readLockfileAt(path.join(server.path, LOCKFILE_FILE));
+}
+
+/**
+ * 读取指定路径的锁文件，例如另一个服务端或版本库中的 tmp-lock.yml
+ * @param filePath 锁文件的路径
+ * @returns 锁文件，文件不存在时返回 null
+ * @throws 如果锁文件格式不正确
+ */
+export async function readLockfileAt(
+  filePath: string
+): Promise<ServerLockfile | null> {
+  const content = await readOptionalFile(filePath);
+  if (content === null) return null;
+
+  const raw = parseYaml(content, "INVALID_LOCKFILE", path.basename(filePath));
+  if (!isLockfile(raw)) {
+    throw new ManifestError(
+      "INVALID_LOCKFILE",
+      `Invalid or unsupported ${path.basename(filePath)}`
+    );
+  }
+
+  return raw;
+}
+
+/**
+ * 写入服务端的锁文件
+ * @param server 服务端
+ * @param lockfile 锁文件
+ */
+export async function writeLockfile(
+  server: ServerEntry,
+  lockfile: ServerLockfile
+): Promise<void> {
+  await fs.writeFile(
+    path.join(server.path, LOCKFILE_FILE),
+    LOCKFILE_HEADER + dump(lockfile, { sortKeys: true })
+  );
+}
+
+/**
+ * 判断版本号是否满足清单中的版本约束
+ * @param version 插件版本号
+ * @param constraint 版本约束，为空或 "latest" 时总是满足，其余规则见 satisfiesVersion
+ * @returns 是否满足
+ */
+export function satisfiesManifestVersion(
+  version: string,
+  constraint?: string
+): boolean {
+  if (!constraint || constraint === "latest") return true;
+  return satisfiesVersion(version, constraint);
+}
+
+function parseManifestPlugin(name: string, value: any): ManifestPlugin {
+  // 简写形式：`LuckPerms: 5.4.102`
+  if (value === null || typeof value !== "object") {
+    return { version: parseManifestVersion(name, value) };
+  }
+
+  if (value.library !== undefined && typeof value.library !== "string") {
+    throw new ManifestError(
+      "INVALID_MANIFEST",
+      `Invalid ${MANIFEST_FILE}: "library" of ${name}`
+    );
+  }
+
+  if (value.enabled !== undefined && typeof value.enabled !== "boolean") {
+    throw new ManifestError(
+      "INVALID_MANIFEST",
+      `Invalid ${MANIFEST_FILE}: "enabled" of ${name} must be true or false`
+    );
+  }
+
+  return {
+    version: parseManifestVersion(name, value.version),
+    library: value.library,
+    ...(value.enabled === false ? { enabled: false } : {}),
+  };
+}
+
+/**
+ * 读取清单中的版本约束
+ * YAML 会将未加引号的 1.20 解析为数字 1.2，无法还原原文，因此只接受字符串
+ */
+function parseManifestVersion(name: string, value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new ManifestError(
+      "INVALID_MANIFEST",
+      `Invalid ${MANIFEST_FILE}: the version of ${name} must be quoted, e.g. ${name}: "1.20"`
+    );
+  }
+  return value;
+}
+
+/**
+ * 解析 YAML，语法错误时抛出 ManifestError
+ * @param code 错误码
+ * @param fileName 错误信息中的文件名
+ */
+function parseYaml(
+  content: string,
+  code: "INVALID_MANIFEST" | "INVALID_LOCKFILE",
+  fileName: string
+): unknown {
+  try {
+    return load(content);
+  } catch (error) {
+    throw new ManifestError(
+      code,
+      `Invalid ${fileName}: ${(error as Error).message}`
+    );
+  }
+}
+
+function isLockfile(raw: unknown): raw is ServerLockfile {
+  return (
+    typeof raw === "object" &&
+    raw !== null &&
+    (raw as ServerLockfile).lockfileVersion === 1 &&
+    typeof (raw as ServerLockfile).plugins === "object"
+  );
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
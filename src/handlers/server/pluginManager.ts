@@ -1,87 +1,413 @@
-import fs from "node:fs/promises";
+import consola from "consola";
 import path from "node:path";
-import { PluginEntry } from "../../types/library";
+import { PluginEntry, ServerPluginEntry } from "../../types/library";
+import { ServerEntry } from "../../types/server";
 import { getJarFiles } from "../folder/get-jar-files";
-import { getFileHash, getPluginInfoWithCache } from "../jar/plugin-info-cache";
+import {
+  DEFAULT_JAR_CONCURRENCY,
+  getJarInfoWithCache,
+} from "../jar/plugin-info-cache";
+import {
+  isGameVersionCompatible,
+  isPlatformCompatible,
+  selectPlatformInfo,
+} from "../platform/compatibility";
 import { getServer } from "./serverManager";
+import { applyPluginChanges, PluginChange } from "./transaction";
+import { findPlugin, resolvePluginJar } from "../library/manager";
+import { resolveDependencies } from "../library/dependency-resolver";
+import { isVersionRange } from "../library/version-range";
+import {
+  IncompatiblePlatformError,
+  IncompatiblePluginError,
+  NoMatchingPluginError,
+  NotAPluginError,
+  PluginNotFoundError,
+  TmpError,
+  UncertainPlatformError,
+} from "../../errors";
+import { mapConcurrent } from "../../utils/map-concurrent";
+import { advisoryTarget, checkAdvisories } from "../advisory/advisory-database";
+
+/** 被禁用的插件在文件名后加上该后缀，服务端只加载 .jar 文件 */
+export const DISABLED_SUFFIX = ".disabled";
 
 /**
  * 安装或更新插件
  * @param serverId 服务端ID
  * @param pluginPath 外部插件路径
+ * @param options.force 即使插件的平台无法确认或与服务端不兼容、api-version 高于服务端的 Minecraft 版本也安装
+ * @param options.ignoreAdvisories 即使插件命中 action 为 block 的安全公告也安装
  * @returns 安装或更新的插件信息
- * @throws 如果安装或更新失败
+ * @throws 如果安装或更新失败，插件的平台无法确认，插件与服务端的平台或 Minecraft 版本不兼容，或被安全公告阻止
  */
 export async function installOrUpdatePlugin(
   serverId: string,
-  pluginPath: string
+  pluginPath: string,
+  options: { force?: boolean; ignoreAdvisories?: boolean } = {}
 ): Promise<PluginEntry> {
+  const [plugin] = await installOrUpdatePlugins(
+    serverId,
+    [pluginPath],
+    options
+  );
+  return plugin;
+}
+
+/**
+ * 在一次事务中安装或更新多个插件，同名的旧插件会被替换
+ * 任何一个插件安装失败时，所有插件都不会被安装
+ * @param serverId 服务端ID
+ * @param pluginPaths 外部插件路径
+ * @param options.force 即使插件的平台无法确认或与服务端不兼容、api-version 高于服务端的 Minecraft 版本也安装
+ * @param options.ignoreAdvisories 即使插件命中 action 为 block 的安全公告也安装
+ * @returns 安装或更新的插件信息，与 pluginPaths 顺序一致
+ * @throws 如果安装或更新失败，插件的平台无法确认，插件与服务端的平台或 Minecraft 版本不兼容，或被安全公告阻止
+ */
+export async function installOrUpdatePlugins(
+  serverId: string,
+  pluginPaths: string[],
+  options: { force?: boolean; ignoreAdvisories?: boolean } = {}
+): Promise<PluginEntry[]> {
   const server = await getServer(serverId);
   const pluginsDir = path.join(server.path, "plugins");
-  const pluginName = path.basename(pluginPath);
-  const targetPath = path.join(pluginsDir, pluginName);
+  const existingPlugins = await listPlugins(serverId);
 
-  // 获取新插件信息
-  const newPluginInfo = await getPluginInfoWithCache(pluginPath);
-  const newPluginInfoThisPlatform =
-    newPluginInfo.find((p) => p.platform.includes(server.platform)) ??
-    newPluginInfo[0];
+  const changes: PluginChange[] = [];
+  const installed: PluginEntry[] = [];
+  for (const pluginPath of pluginPaths) {
+    // 获取新插件信息
+    const { hash, info: newPluginInfo } = await getJarInfoWithCache(pluginPath);
+    const newPluginInfoThisPlatform = selectPlatformInfo(
+      newPluginInfo,
+      server.platform
+    );
+    if (!newPluginInfoThisPlatform) {
+      throw new NotAPluginError(pluginPath);
+    }
 
-  // 查找并删除同名插件（如果存在）
-  const existingPlugins = await listPlugins(serverId);
-  const sameNamePlugin = existingPlugins.find(
-    (p) => p.info.name === newPluginInfoThisPlatform.name
+    const { name, platform, platformConfidence, apiVersion } =
+      newPluginInfoThisPlatform;
+    const errors: TmpError[] = [];
+    if (!isPlatformCompatible(platform, server.platform)) {
+      errors.push(
+        new IncompatiblePlatformError(name, platform, server.platform)
+      );
+    } else if (platformConfidence === "low") {
+      errors.push(new UncertainPlatformError(name, platform));
+    }
+    if (!isGameVersionCompatible(apiVersion, server.gameVersion)) {
+      errors.push(
+        new IncompatiblePluginError(name, apiVersion!, server.gameVersion!)
+      );
+    }
+    for (const error of errors) {
+      if (!options.force) throw error;
+      consola.warn(`${error.message}, installing anyway`);
+    }
+
+    // 替换同名插件（如果存在），被禁用的插件更新后仍保持禁用
+    const sameNamePlugin = existingPlugins.find(
+      (p) => p.info?.name === newPluginInfoThisPlatform.name
+    );
+    const enabled = sameNamePlugin?.enabled ?? true;
+    const pluginName =
+      path.basename(pluginPath) + (enabled ? "" : DISABLED_SUFFIX);
+
+    changes.push({ type: "add", source: pluginPath, file: pluginName });
+    if (
+      sameNamePlugin &&
+      path.basename(sameNamePlugin.jarPath) !== pluginName
+    ) {
+      changes.push({
+        type: "remove",
+        file: path.basename(sameNamePlugin.jarPath),
+      });
+    }
+
+    installed.push({
+      info: newPluginInfoThisPlatform,
+      hash,
+      jarPath: path.join(pluginsDir, pluginName),
+      enabled,
+    });
+  }
+
+  await checkAdvisories(installed.map(advisoryTarget), options);
+  await applyPluginChanges(
+    server,
+    `install ${installed.map((p) => p.info.name).join(", ")}`,
+    changes,
+    existingPlugins
   );
-  if (sameNamePlugin) {
-    await fs.unlink(sameNamePlugin.jarPath);
+
+  return installed;
+}
+
+/**
+ * 从插件库安装插件，插件按服务端的平台和 Minecraft 版本选择
+ * @param serverId 服务端ID
+ * @param options.name 插件名称
+ * @param options.pluginVersion 插件版本或版本范围，范围时安装匹配的最新版本
+ * @param options.snapshots 范围匹配时是否包括 SNAPSHOT 版本
+ * @param options.latest 安装最新版本
+ * @param options.library 只在该插件库中查找
+ * @param options.deps 是否同时安装缺少的必需依赖，默认为 true
+ * @param options.force 忽略服务端的 Minecraft 版本，并安装平台无法确认的插件
+ * @param options.ignoreAdvisories 即使插件或依赖命中 action 为 block 的安全公告也安装
+ * @returns 服务端和安装的插件，依赖在前，插件本身在最后
+ * @throws 如果没有匹配的插件、匹配到多个插件、依赖无法解析或被安全公告阻止
+ */
+export async function installFromLibrary(
+  serverId: string,
+  options: {
+    name: string;
+    pluginVersion?: string;
+    snapshots?: boolean;
+    latest?: boolean;
+    library?: string;
+    deps?: boolean;
+    force?: boolean;
+    ignoreAdvisories?: boolean;
+  }
+): Promise<{ server: ServerEntry; installed: PluginEntry[] }> {
+  if (!options.pluginVersion && !options.latest) {
+    throw new TmpError(
+      "INVALID_ARGUMENT",
+      "Either a plugin version or latest must be specified"
+    );
+  }
+
+  const server = await getServer(serverId);
+  const gameVersion = options.force ? undefined : server.gameVersion;
+  const filters = {
+    name: options.name,
+    pluginVersion: options.pluginVersion,
+    includeSnapshots: options.snapshots,
+    latest:
+      options.latest ||
+      (!!options.pluginVersion && isVersionRange(options.pluginVersion)),
+    platform: server.platform,
+    libraryId: options.library,
+  };
+  const results = await findPlugin({ ...filters, gameVersion });
+
+  if (results.length === 0 && gameVersion) {
+    // 只有需要更新 Minecraft 版本的插件时，说明不兼容的原因
+    const [incompatible] = await findPlugin(filters);
+    if (incompatible) {
+      throw new IncompatiblePluginError(
+        incompatible.info.name,
+        incompatible.info.apiVersion!,
+        gameVersion
+      );
+    }
+  }
+  if (results.length === 0) {
+    throw new NoMatchingPluginError("No matching plugins found");
+  }
+
+  if (results.length > 1) {
+    const candidates = results
+      .map(
+        (plugin) =>
+          `${plugin.info.name} v${plugin.info.version} (${plugin.jarPath})`
+      )
+      .join("\n");
+    throw new TmpError(
+      "AMBIGUOUS_PLUGIN",
+      `Multiple matching plugins found:\n${candidates}\nPlease specify a more precise version or use latest`,
+      { candidates: results }
+    );
   }
 
-  // 复制新插件
-  await fs.copyFile(pluginPath, targetPath);
+  const pluginToInstall = results[0];
+  const plan =
+    options.deps === false
+      ? [pluginToInstall]
+      : (
+          await resolveDependencies(pluginToInstall, {
+            platform: server.platform,
+            gameVersion,
+            installed: await listPlugins(server.id),
+          })
+        ).plan;
 
-  const hash = await getFileHash(targetPath);
-  return { info: newPluginInfoThisPlatform, hash, jarPath: targetPath };
+  const jarPaths: string[] = [];
+  for (const plugin of plan) {
+    jarPaths.push(await resolvePluginJar(plugin));
+  }
+  await installOrUpdatePlugins(server.id, jarPaths, {
+    force: options.force,
+    ignoreAdvisories: options.ignoreAdvisories,
+  });
+  return { server, installed: plan };
 }
 
+/**
+ * 删除插件后如何处理插件的数据文件夹（plugins/<插件名称>）
+ * keep：保留；archive：移动到 .tmp/archive；
+ * purge：移动到快照中，可以通过 rollback 恢复，快照被清理（超过 20 个）时删除
+ */
+export type PluginDataMode = "keep" | "archive" | "purge";
+
 /**
  * 删除插件
  * @param serverId 服务端ID
  * @param pluginId 插件ID（通常是插件名称）
+ * @param options.data 如何处理插件的数据文件夹，默认为 keep
  * @returns 是否成功删除
  * @throws 如果插件不存在
  */
 export async function removePlugin(
   serverId: string,
-  pluginId: string
+  pluginId: string,
+  options: { data?: PluginDataMode } = {}
 ): Promise<boolean> {
+  const server = await getServer(serverId);
   const plugins = await listPlugins(serverId);
-  const plugin = plugins.find((p) => p.info.name === pluginId);
+  const plugin = plugins
+    .filter(hasPluginInfo)
+    .find((p) => p.info.name === pluginId);
   if (!plugin) {
-    throw new Error("Plugin not found");
+    throw new PluginNotFoundError(pluginId);
+  }
+
+  const changes: PluginChange[] = [
+    { type: "remove", file: path.basename(plugin.jarPath) },
+  ];
+  // 数据文件夹与 Jar 在同一个事务中移出，rollback 时一起恢复
+  if (options.data === "archive") {
+    changes.push({
+      type: "moveData",
+      folder: plugin.info.name,
+      target: path.join(
+        server.path,
+        ".tmp",
+        "archive",
+        `${plugin.info.name}-${Date.now()}`
+      ),
+    });
+  } else if (options.data === "purge") {
+    changes.push({ type: "moveData", folder: plugin.info.name });
   }
 
-  await fs.unlink(plugin.jarPath);
+  await applyPluginChanges(server, `remove ${pluginId}`, changes, plugins);
   return true;
 }
 
 /**
- * 列出服务端的所有插件
+ * 禁用插件，Jar 被重命名为 .jar.disabled，可以通过 rollback 撤销
+ * 所有插件在一次事务中禁用，已禁用的插件保持不变
+ * @param serverId 服务端ID
+ * @param pluginNames 插件名称
+ * @returns 这些插件禁用后的信息
+ * @throws 如果任何一个插件不存在
+ */
+export async function disablePlugins(
+  serverId: string,
+  pluginNames: string[]
+): Promise<PluginEntry[]> {
+  return setPluginsEnabled(serverId, pluginNames, false);
+}
+
+/**
+ * 启用被禁用的插件
+ * 所有插件在一次事务中启用，已启用的插件保持不变
  * @param serverId 服务端ID
- * @returns 插件信息数组
+ * @param pluginNames 插件名称
+ * @returns 这些插件启用后的信息
+ * @throws 如果任何一个插件不存在
  */
-export async function listPlugins(serverId: string): Promise<PluginEntry[]> {
+export async function enablePlugins(
+  serverId: string,
+  pluginNames: string[]
+): Promise<PluginEntry[]> {
+  return setPluginsEnabled(serverId, pluginNames, true);
+}
+
+async function setPluginsEnabled(
+  serverId: string,
+  pluginNames: string[],
+  enabled: boolean
+): Promise<PluginEntry[]> {
   const server = await getServer(serverId);
-  const pluginsDir = path.join(server.path, "plugins");
-  const jarFiles = await getJarFiles(pluginsDir);
-
-  const plugins: PluginEntry[] = [];
-  for (const jarPath of jarFiles) {
-    const info = await getPluginInfoWithCache(jarPath);
-    const hash = await getFileHash(jarPath);
-    const thisPlatformInfo =
-      info.find((p) => p.platform.includes(server.platform)) ?? info[0];
-    plugins.push({ info: thisPlatformInfo, hash, jarPath });
+  const plugins = await listPlugins(serverId);
+
+  const changes: PluginChange[] = [];
+  const results: PluginEntry[] = [];
+  for (const name of pluginNames) {
+    const plugin = plugins
+      .filter(hasPluginInfo)
+      .find((p) => p.info.name === name);
+    if (!plugin) {
+      throw new PluginNotFoundError(name);
+    }
+    if (plugin.enabled === enabled) {
+      results.push(plugin);
+      continue;
+    }
+
+    const file = path.basename(plugin.jarPath);
+    const target = enabled
+      ? file.slice(0, -DISABLED_SUFFIX.length)
+      : file + DISABLED_SUFFIX;
+    changes.push(
+      { type: "add", source: plugin.jarPath, file: target },
+      { type: "remove", file }
+    );
+    results.push({
+      ...plugin,
+      jarPath: path.join(path.dirname(plugin.jarPath), target),
+      enabled,
+    });
   }
 
-  return plugins;
+  const changed = results.filter((plugin) => !plugins.includes(plugin));
+  await applyPluginChanges(
+    server,
+    `${enabled ? "enable" : "disable"} ${changed
+      .map((p) => p.info.name)
+      .join(", ")}`,
+    changes,
+    plugins
+  );
+  return results;
+}
+
+/**
+ * 列出服务端的所有插件，包括被禁用的插件
+ * @param serverId 服务端ID
+ * @returns 插件信息数组，enabled 表示插件是否启用；没有描述文件的 Jar 没有 info
+ */
+export async function listPlugins(
+  serverId: string
+): Promise<ServerPluginEntry[]> {
+  const server = await getServer(serverId);
+  const pluginsDir = path.join(server.path, "plugins");
+  const jarFiles = await getJarFiles(pluginsDir, { includeDisabled: true });
+
+  return await mapConcurrent(
+    jarFiles,
+    DEFAULT_JAR_CONCURRENCY,
+    async (jarPath) => {
+      const { hash, info } = await getJarInfoWithCache(jarPath);
+      const thisPlatformInfo = selectPlatformInfo(info, server.platform);
+      return {
+        info: thisPlatformInfo,
+        hash,
+        jarPath,
+        enabled: !jarPath.toLowerCase().endsWith(DISABLED_SUFFIX),
+      };
+    }
+  );
+}
+
+/**
+ * 判断服务端上的 Jar 是否有插件信息，没有描述文件的 Jar（例如依赖库）没有
+ */
+export function hasPluginInfo(
+  plugin: ServerPluginEntry
+): plugin is PluginEntry {
+  return plugin.info !== undefined;
 }
@@ -2,17 +2,31 @@ import path from "node:path";
 import fs from "node:fs/promises";
 import { ServerEntry, ServerList } from "../../types/server";
 import { SupportedPlatform } from "../../types/supported-platform";
-import { storage } from "../../db/db";
-
-const SERVER_LIST_KEY = "tmp:servers";
+import { getStorage } from "../../db/db";
+import { SERVER_PREFIX, serverKey } from "../../db/keys";
+import {
+  InvalidPathError,
+  InvalidPlatformError,
+  ServerExistsError,
+  ServerNotFoundError,
+} from "../../errors";
+import { removeServerFromGroups } from "./groupManager";
+import { detectGameVersion } from "../jar/detect-game-version";
 
 /**
  * 获取所有服务端列表
  * @returns 所有服务端的对象
  */
 export async function getAllServers(): Promise<ServerList> {
-  const servers = await storage.getItem(SERVER_LIST_KEY);
-  return (servers as ServerList) || {};
+  const storage = await getStorage();
+  const keys = await storage.getKeys(SERVER_PREFIX);
+  const items = await storage.getItems<ServerEntry>(keys);
+
+  const servers: ServerList = {};
+  for (const { value } of items) {
+    if (value) servers[value.id] = value;
+  }
+  return servers;
 }
 
 /**
@@ -20,52 +34,55 @@ export async function getAllServers(): Promise<ServerList> {
  * @param id 服务端的唯一标识符
  * @param serverPath 服务端的路径
  * @param platform 服务端平台
+ * @param gameVersion 服务端的 Minecraft 版本，不指定时从服务端文件夹中检测（代理端除外）
  * @returns 添加的服务端对象
  * @throws 如果服务端已存在、路径无效或平台类型不正确
  */
 export async function addServer(
   id: string,
   serverPath: string,
-  platform: SupportedPlatform
+  platform: SupportedPlatform,
+  gameVersion?: string
 ): Promise<ServerEntry> {
-  const servers = await getAllServers();
-  if (servers[id]) {
-    throw new Error("Server with this ID already exists");
+  const storage = await getStorage();
+  if (await storage.hasItem(serverKey(id))) {
+    throw new ServerExistsError(id);
   }
 
   if (!Object.values(SupportedPlatform).includes(platform)) {
-    throw new Error("Invalid platform type");
+    throw new InvalidPlatformError(platform);
   }
 
   const absolutePath = path.resolve(serverPath);
   try {
     await fs.access(absolutePath);
   } catch (error) {
-    throw new Error("Invalid server path");
+    throw new InvalidPathError(absolutePath);
   }
 
   const newServer: ServerEntry = { id, platform, path: absolutePath };
-  servers[id] = newServer;
+  const detected =
+    gameVersion ??
+    (isProxyPlatform(platform) ? null : await detectGameVersion(absolutePath));
+  if (detected) newServer.gameVersion = detected;
 
-  await storage.setItem(SERVER_LIST_KEY, servers);
+  await storage.setItem(serverKey(id), newServer);
 
   return newServer;
 }
 
 /**
- * 删除指定的服务端
+ * 删除指定的服务端，并将其从所有分组中移除
  * @param id 要删除的服务端的 ID
  * @returns 是否成功删除
  * @throws 如果服务端不存在
  */
 export async function removeServer(id: string): Promise<boolean> {
-  const servers = await getAllServers();
-  if (!servers[id]) {
-    throw new Error("Server not found");
-  }
+  await getServer(id);
 
-  delete servers[id];
-  await storage.setItem(SERVER_LIST_KEY, servers);
+  const storage = await getStorage();
+  await storage.removeItem(serverKey(id));
+  await removeServerFromGroups(id);
   return true;
 }
 
@@ -80,16 +97,13 @@ export async function updateServer(
   id: string,
   updates: Partial<Omit<ServerEntry, "id">>
 ): Promise<ServerEntry> {
-  const servers = await getAllServers();
-  if (!servers[id]) {
-    throw new Error("Server not found");
-  }
+  const server = await getServer(id);
 
   if (
     updates.platform &&
     !Object.values(SupportedPlatform).includes(updates.platform)
   ) {
-    throw new Error("Invalid platform type");
+    throw new InvalidPlatformError(updates.platform);
   }
 
   if (updates.path) {
@@ -97,13 +111,14 @@ export async function updateServer(
     try {
       await fs.access(updates.path);
     } catch (error) {
-      throw new Error("Invalid server path");
+      throw new InvalidPathError(updates.path);
     }
   }
 
-  servers[id] = { ...servers[id], ...updates };
-  await storage.setItem(SERVER_LIST_KEY, servers);
-  return servers[id];
+  const updated: ServerEntry = { ...server, ...updates };
+  const storage = await getStorage();
+  await storage.setItem(serverKey(id), updated);
+  return updated;
 }
 
 /**
@@ -113,9 +128,33 @@ export async function updateServer(
  * @throws 如果服务端不存在
  */
 export async function getServer(id: string): Promise<ServerEntry> {
-  const servers = await getAllServers();
-  if (!servers[id]) {
-    throw new Error("Server not found");
+  const storage = await getStorage();
+  const server = await storage.getItem<ServerEntry>(serverKey(id));
+  if (!server) {
+    throw new ServerNotFoundError(id);
   }
-  return servers[id];
+  return server;
+}
+
+/**
+ * 重新检测服务端的 Minecraft 版本并保存
+ * @param id 服务端的 ID
+ * @returns 更新后的服务端对象，无法检测时版本保持不变
+ * @throws 如果服务端不存在
+ */
+export async function detectServerGameVersion(
+  id: string
+): Promise<ServerEntry> {
+  const server = await getServer(id);
+  const gameVersion = await detectGameVersion(server.path);
+  if (!gameVersion || gameVersion === server.gameVersion) return server;
+  return updateServer(id, { gameVersion });
+}
+
+/** 代理端不运行游戏本身，没有 Minecraft 版本 */
+function isProxyPlatform(platform: SupportedPlatform): boolean {
+  return (
+    platform === SupportedPlatform.BungeeCord ||
+    platform === SupportedPlatform.Velocity
+  );
 }
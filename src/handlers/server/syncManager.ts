@@ -0,0 +1,344 @@
+import path from "node:path";
+import { PluginEntry, ServerPluginEntry } from "../../types/library";
+import { LockedPlugin, ServerLockfile } from "../../types/manifest";
+import { ServerEntry } from "../../types/server";
+import { resolveDependencies } from "../library/dependency-resolver";
+import {
+  findPlugin,
+  findPluginByHash,
+  resolvePluginJar,
+} from "../library/manager";
+import {
+  LOCKFILE_FILE,
+  MANIFEST_FILE,
+  readLockfile,
+  readManifest,
+  satisfiesManifestVersion,
+  writeLockfile,
+} from "./manifest";
+import { applyPluginConfigs, ConfigFileChange } from "./configManager";
+import { isGameVersionCompatible } from "../platform/compatibility";
+import { DISABLED_SUFFIX, hasPluginInfo, listPlugins } from "./pluginManager";
+import { getServer } from "./serverManager";
+import { applyPluginChanges, PluginChange } from "./transaction";
+import {
+  AdvisoryMatch,
+  checkAdvisories,
+  isBlocked,
+  loadAdvisories,
+} from "../advisory/advisory-database";
+import {
+  IncompatiblePluginError,
+  ManifestError,
+  NoMatchingPluginError,
+} from "../../errors";
+
+export interface SyncResult {
+  lockfile: ServerLockfile;
+  added: LockedPlugin[];
+  updated: { from: PluginEntry; to: LockedPlugin }[];
+  /** 不在锁文件中的 Jar，包括没有描述文件的 Jar */
+  removed: ServerPluginEntry[];
+  unchanged: LockedPlugin[];
+  /** 版本不变，只在清单的 enabled 变化后启用或禁用的插件 */
+  enabled: LockedPlugin[];
+  disabled: LockedPlugin[];
+  /** 新增或修改的插件配置文件，dryRun 时基于当前已安装的插件计算 */
+  configs: ConfigFileChange[];
+  /** 新增或更新的插件命中的安全公告 */
+  advisories: AdvisoryMatch[];
+}
+
+/**
+ * 根据插件清单生成锁文件
+ * 已锁定且仍满足清单约束的插件保持不变，其余插件从插件库中重新解析；
+ * 已锁定的插件之后被安全公告阻止时也会重新解析，优先选择未被阻止的版本
+ * @param server 服务端
+ * @param options.update 是否忽略现有锁文件，将所有插件解析为最新的匹配版本
+ * @returns 新的锁文件
+ * @throws 如果清单不存在、插件无法解析或依赖缺失
+ */
+export async function lockServer(
+  server: ServerEntry,
+  options: { update?: boolean } = {}
+): Promise<ServerLockfile> {
+  const manifest = await readManifest(server);
+  if (!manifest) {
+    throw new ManifestError(
+      "MANIFEST_NOT_FOUND",
+      `${MANIFEST_FILE} not found in ${server.path}`
+    );
+  }
+
+  const previous = options.update ? null : await readLockfile(server);
+  const advisories = await loadAdvisories();
+  const locked = new Map<string, { libraryId: string; plugin: PluginEntry }>();
+
+  for (const [name, constraint] of Object.entries(manifest.plugins)) {
+    const previousEntry = findLocked(previous, name);
+    if (
+      previousEntry &&
+      satisfiesManifestVersion(previousEntry.version, constraint.version) &&
+      (!constraint.library || constraint.library === previousEntry.library) &&
+      !isBlocked(previousEntry, advisories)
+    ) {
+      const source = await findPluginByHash(
+        previousEntry.hash,
+        server.platform
+      );
+      if (
+        source &&
+        isGameVersionCompatible(
+          source.plugin.info.apiVersion,
+          server.gameVersion
+        )
+      ) {
+        locked.set(name.toLowerCase(), source);
+        continue;
+      }
+    }
+
+    const isLatest = !constraint.version || constraint.version === "latest";
+    const [plugin] = await findPlugin({
+      name,
+      exactName: true,
+      pluginVersion: isLatest ? undefined : constraint.version,
+      latest: true,
+      platform: server.platform,
+      gameVersion: server.gameVersion,
+      libraryId: constraint.library,
+    });
+    if (!plugin) {
+      throw new NoMatchingPluginError(
+        `No ${server.platform}${
+          server.gameVersion ? ` ${server.gameVersion}` : ""
+        } plugin matches ${name}@${constraint.version ?? "latest"}`
+      );
+    }
+
+    const source = await findPluginByHash(plugin.hash, server.platform);
+    locked.set(name.toLowerCase(), {
+      libraryId: constraint.library ?? source!.libraryId,
+      plugin,
+    });
+  }
+
+  // 锁定清单中插件的硬依赖，之前已锁定的依赖优先保留
+  const preferred = [...locked.values()].map((entry) => entry.plugin);
+  for (const entry of Object.values(previous?.plugins ?? {})) {
+    const source = await findPluginByHash(entry.hash, server.platform);
+    if (source) preferred.push(source.plugin);
+  }
+
+  for (const { plugin } of [...locked.values()]) {
+    const { plan } = await resolveDependencies(plugin, {
+      platform: server.platform,
+      gameVersion: server.gameVersion,
+      preferred,
+    });
+    for (const dependency of plan.slice(0, -1)) {
+      const key = dependency.info.name.toLowerCase();
+      if (locked.has(key)) continue;
+      const source = await findPluginByHash(dependency.hash, server.platform);
+      locked.set(key, source!);
+    }
+  }
+
+  const lockfile: ServerLockfile = { lockfileVersion: 1, plugins: {} };
+  for (const { libraryId, plugin } of locked.values()) {
+    lockfile.plugins[plugin.info.name] = {
+      name: plugin.info.name,
+      version: plugin.info.version,
+      library: libraryId,
+      file: path.basename(plugin.jarPath),
+      hash: plugin.hash,
+    };
+  }
+
+  return lockfile;
+}
+
+/**
+ * 将服务端的 plugins 文件夹同步为锁文件描述的状态
+ * 锁文件中缺少的插件会被安装，版本不同的插件会被替换，其余 Jar 会被删除；
+ * 清单中 enabled: false 的插件会以禁用状态（.jar.disabled）安装；
+ * 之后将插件库中的配置模板渲染到插件的数据文件夹
+ * @param serverId 服务端ID
+ * @param options.dryRun 只计算变更，不修改任何文件
+ * @param options.update 忽略现有锁文件，将所有插件更新到最新的匹配版本
+ * @param options.frozenLockfile 不更新锁文件，锁文件与清单不一致时报错
+ * @param options.ignoreAdvisories 即使新增或更新的插件命中 action 为 block 的安全公告也同步
+ * @returns 同步结果
+ * @throws 如果清单或锁文件无效，锁定的 Jar 不在任何插件库中，或插件被安全公告阻止
+ */
+export async function syncServer(
+  serverId: string,
+  options: {
+    dryRun?: boolean;
+    update?: boolean;
+    frozenLockfile?: boolean;
+    ignoreAdvisories?: boolean;
+  } = {}
+): Promise<SyncResult> {
+  const server = await getServer(serverId);
+
+  let lockfile: ServerLockfile;
+  if (options.frozenLockfile) {
+    const existing = await readLockfile(server);
+    if (!existing) {
+      throw new ManifestError(
+        "LOCKFILE_NOT_FOUND",
+        `${LOCKFILE_FILE} not found in ${server.path}`
+      );
+    }
+    await assertLockfileUpToDate(server, existing);
+    lockfile = existing;
+  } else {
+    lockfile = await lockServer(server, { update: options.update });
+  }
+
+  // 清单中 enabled: false 的插件以禁用状态安装，清单之外的依赖总是启用
+  const manifest = await readManifest(server);
+  const disabledNames = new Set(
+    Object.entries(manifest?.plugins ?? {})
+      .filter(([, constraint]) => constraint.enabled === false)
+      .map(([name]) => name.toLowerCase())
+  );
+
+  const installed = await listPlugins(serverId);
+  const matched = new Set<ServerPluginEntry>();
+  const result: SyncResult = {
+    lockfile,
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: [],
+    enabled: [],
+    disabled: [],
+    configs: [],
+    advisories: [],
+  };
+  const changes: PluginChange[] = [];
+
+  for (const entry of Object.values(lockfile.plugins)) {
+    const current = installed
+      .filter(hasPluginInfo)
+      .find(
+        (p) =>
+          !matched.has(p) &&
+          p.info.name.toLowerCase() === entry.name.toLowerCase()
+      );
+    if (current) matched.add(current);
+
+    const enabled = !disabledNames.has(entry.name.toLowerCase());
+    const file = entry.file + (enabled ? "" : DISABLED_SUFFIX);
+    if (current && current.hash === entry.hash) {
+      if (current.enabled === enabled) {
+        result.unchanged.push(entry);
+      } else {
+        changes.push(
+          { type: "add", source: current.jarPath, file },
+          { type: "remove", file: path.basename(current.jarPath) }
+        );
+        (enabled ? result.enabled : result.disabled).push(entry);
+      }
+      continue;
+    }
+
+    const source = await findPluginByHash(entry.hash, server.platform);
+    if (!source) {
+      throw new NoMatchingPluginError(
+        `Locked jar of ${entry.name} v${entry.version} is not in any library, try indexing the libraries`
+      );
+    }
+    const { apiVersion } = source.plugin.info;
+    if (!isGameVersionCompatible(apiVersion, server.gameVersion)) {
+      throw new IncompatiblePluginError(
+        entry.name,
+        apiVersion!,
+        server.gameVersion!
+      );
+    }
+
+    changes.push({
+      type: "add",
+      // 预览时不解压 zip 中的 Jar
+      source: options.dryRun
+        ? source.plugin.jarPath
+        : await resolvePluginJar(source.plugin),
+      file,
+    });
+    if (current && path.basename(current.jarPath) !== file) {
+      changes.push({ type: "remove", file: path.basename(current.jarPath) });
+    }
+    if (current) {
+      result.updated.push({ from: current, to: entry });
+    } else {
+      result.added.push(entry);
+    }
+  }
+
+  result.removed = installed.filter((p) => !matched.has(p));
+  // 预览时只报告命中的公告，不拒绝
+  result.advisories = await checkAdvisories(
+    [...result.added, ...result.updated.map(({ to }) => to)],
+    { ignoreAdvisories: options.ignoreAdvisories || options.dryRun }
+  );
+
+  if (options.dryRun) {
+    result.configs = await applyPluginConfigs(serverId, { dryRun: true });
+    return result;
+  }
+
+  for (const plugin of result.removed) {
+    changes.push({ type: "remove", file: path.basename(plugin.jarPath) });
+  }
+  await applyPluginChanges(server, "sync", changes, installed);
+
+  if (!options.frozenLockfile) {
+    await writeLockfile(server, lockfile);
+  }
+  result.configs = await applyPluginConfigs(serverId);
+
+  return result;
+}
+
+/**
+ * 检查锁文件是否覆盖清单中的所有插件且满足其约束
+ * @throws 如果锁文件与清单不一致
+ */
+async function assertLockfileUpToDate(
+  server: ServerEntry,
+  lockfile: ServerLockfile
+): Promise<void> {
+  const manifest = await readManifest(server);
+  if (!manifest) {
+    throw new ManifestError(
+      "MANIFEST_NOT_FOUND",
+      `${MANIFEST_FILE} not found in ${server.path}`
+    );
+  }
+
+  for (const [name, constraint] of Object.entries(manifest.plugins)) {
+    const entry = findLocked(lockfile, name);
+    if (
+      !entry ||
+      !satisfiesManifestVersion(entry.version, constraint.version) ||
+      (constraint.library && constraint.library !== entry.library)
+    ) {
+      throw new ManifestError(
+        "LOCKFILE_OUTDATED",
+        `${LOCKFILE_FILE} is out of date with ${MANIFEST_FILE} (${name}), run sync without --frozen-lockfile`
+      );
+    }
+  }
+}
+
+function findLocked(
+  lockfile: ServerLockfile | null,
+  name: string
+): LockedPlugin | undefined {
+  return Object.values(lockfile?.plugins ?? {}).find(
+    (entry) => entry.name.toLowerCase() === name.toLowerCase()
+  );
+}
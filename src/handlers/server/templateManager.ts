@@ -0,0 +1,261 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getStorage } from "../../db/db";
+import { SERVER_TEMPLATE_PREFIX, serverTemplateKey } from "../../db/keys";
+import {
+  InvalidPathError,
+  InvalidPlatformError,
+  PathInUseError,
+  ServerExistsError,
+  ServerTemplateExistsError,
+  ServerTemplateNotFoundError,
+  TemplateError,
+} from "../../errors";
+import {
+  ServerEntry,
+  ServerTemplate,
+  ServerTemplates,
+} from "../../types/server";
+import { SupportedPlatform } from "../../types/supported-platform";
+import { listFiles } from "../../utils/list-files";
+import { getJarFiles } from "../folder/get-jar-files";
+import { renderTemplate } from "./configManager";
+import { MANIFEST_FILE, readManifest, writeManifest } from "./manifest";
+import { listPlugins } from "./pluginManager";
+import { addServer, getServer, updateServer } from "./serverManager";
+import { SyncResult, syncServer } from "./syncManager";
+
+/**
+ * 获取所有服务端模板
+ * @returns 所有模板的对象
+ */
+export async function getAllTemplates(): Promise<ServerTemplates> {
+  const storage = await getStorage();
+  const keys = await storage.getKeys(SERVER_TEMPLATE_PREFIX);
+  const items = await storage.getItems<ServerTemplate>(keys);
+
+  const templates: ServerTemplates = {};
+  for (const { value } of items) {
+    if (value) templates[value.id] = value;
+  }
+  return templates;
+}
+
+/**
+ * 获取服务端模板
+ * @param id 模板ID
+ * @returns 模板
+ * @throws 如果模板不存在
+ */
+export async function getTemplate(id: string): Promise<ServerTemplate> {
+  const storage = await getStorage();
+  const template = await storage.getItem<ServerTemplate>(serverTemplateKey(id));
+  if (!template) {
+    throw new ServerTemplateNotFoundError(id);
+  }
+  return template;
+}
+
+/**
+ * 添加服务端模板
+ * @param template 模板，files 会被转换为绝对路径
+ * @returns 添加的模板
+ * @throws 如果模板已存在、平台类型不正确或 files 文件夹不存在
+ */
+export async function addTemplate(
+  template: ServerTemplate
+): Promise<ServerTemplate> {
+  const storage = await getStorage();
+  if (await storage.hasItem(serverTemplateKey(template.id))) {
+    throw new ServerTemplateExistsError(template.id);
+  }
+  if (!Object.values(SupportedPlatform).includes(template.platform)) {
+    throw new InvalidPlatformError(template.platform);
+  }
+
+  const saved: ServerTemplate = { ...template };
+  if (template.files) {
+    saved.files = path.resolve(template.files);
+    const stat = await fs.stat(saved.files).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new InvalidPathError(saved.files);
+    }
+  }
+
+  await storage.setItem(serverTemplateKey(template.id), saved);
+  return saved;
+}
+
+/**
+ * 以现有服务端为基础添加模板
+ * 服务端有 tmp.yml 时使用清单中的插件与约束，否则使用已安装插件的当前版本
+ * @param id 模板ID
+ * @param serverId 作为基础的服务端ID
+ * @param options.files 复制到新服务端的文件夹
+ * @param options.variables 覆盖服务端上的变量
+ * @returns 添加的模板
+ * @throws 如果模板已存在或服务端不存在
+ */
+export async function addTemplateFromServer(
+  id: string,
+  serverId: string,
+  options: { files?: string; variables?: { [name: string]: string } } = {}
+): Promise<ServerTemplate> {
+  const server = await getServer(serverId);
+  const manifest = await readManifest(server);
+
+  const plugins: ServerTemplate["plugins"] = {};
+  if (manifest) {
+    Object.assign(plugins, manifest.plugins);
+  } else {
+    for (const plugin of await listPlugins(serverId)) {
+      if (!plugin.info) continue;
+      plugins[plugin.info.name] = {
+        version: plugin.info.version,
+        ...(plugin.enabled === false ? { enabled: false } : {}),
+      };
+    }
+  }
+
+  const variables = {
+    ...server.variables,
+    ...manifest?.variables,
+    ...options.variables,
+  };
+  return addTemplate({
+    id,
+    platform: server.platform,
+    ...(server.gameVersion ? { gameVersion: server.gameVersion } : {}),
+    plugins,
+    ...(Object.keys(variables).length > 0 ? { variables } : {}),
+    ...(options.files ? { files: options.files } : {}),
+  });
+}
+
+/**
+ * 删除服务端模板，已经用它创建的服务端不受影响
+ * @param id 模板ID
+ * @returns 是否成功删除
+ * @throws 如果模板不存在
+ */
+export async function removeTemplate(id: string): Promise<boolean> {
+  await getTemplate(id);
+  const storage = await getStorage();
+  await storage.removeItem(serverTemplateKey(id));
+  return true;
+}
+
+/**
+ * 用模板创建新的服务端
+ * 创建服务端文件夹与 plugins 文件夹，复制模板中的文件，写入 tmp.yml，注册服务端后同步安装插件；
+ * 同步失败时服务端仍然保留，修正插件库或清单后可以再次运行 sync
+ * @param id 新服务端的ID
+ * @param serverPath 新服务端的路径，不存在时会被创建
+ * @param templateId 模板ID
+ * @param options.gameVersion 覆盖模板中的 Minecraft 版本
+ * @param options.variables 覆盖模板中的变量
+ * @returns 新的服务端、复制的文件（相对于服务端文件夹）以及同步结果
+ * @throws 如果模板不存在、服务端已存在，或文件夹中已经有插件或 tmp.yml
+ */
+export async function createServer(
+  id: string,
+  serverPath: string,
+  templateId: string,
+  options: {
+    gameVersion?: string;
+    variables?: { [name: string]: string };
+  } = {}
+): Promise<{ server: ServerEntry; files: string[]; sync: SyncResult }> {
+  const template = await getTemplate(templateId);
+  const exists = await getServer(id).then(
+    () => true,
+    () => false
+  );
+  if (exists) {
+    throw new ServerExistsError(id);
+  }
+
+  const absolutePath = path.resolve(serverPath);
+  const pluginsDir = path.join(absolutePath, "plugins");
+  const inUse =
+    (await fs
+      .access(path.join(absolutePath, MANIFEST_FILE))
+      .then(() => true)
+      .catch(() => false)) ||
+    (await fs
+      .access(pluginsDir)
+      .then(async () => (await getJarFiles(pluginsDir)).length > 0)
+      .catch(() => false));
+  if (inUse) {
+    throw new PathInUseError(absolutePath);
+  }
+
+  // 先渲染所有文件，变量缺失时不会留下创建了一半的服务端
+  const variables = { ...template.variables, ...options.variables };
+  const rendered = template.files
+    ? await renderTemplateFiles(template.files, {
+        ...variables,
+        "server.id": id,
+        "server.platform": template.platform,
+      })
+    : [];
+
+  await fs.mkdir(pluginsDir, { recursive: true });
+  const files: string[] = [];
+  for (const { file, content } of rendered) {
+    const target = path.join(absolutePath, file);
+    const exists = await fs
+      .access(target)
+      .then(() => true)
+      .catch(() => false);
+    if (exists) continue;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+    files.push(file);
+  }
+
+  let server = await addServer(
+    id,
+    absolutePath,
+    template.platform,
+    options.gameVersion ?? template.gameVersion
+  );
+  if (Object.keys(variables).length > 0) {
+    server = await updateServer(id, { variables });
+  }
+  await writeManifest(server, { plugins: template.plugins });
+
+  const sync = await syncServer(id);
+  return { server, files, sync };
+}
+
+/**
+ * 渲染模板文件夹中的文件，不含 NUL 字节的文件视为文本，渲染其中的 {{ 变量 }}
+ * @returns 文件的相对路径与内容
+ * @throws 如果文本文件引用了未定义的变量
+ */
+async function renderTemplateFiles(
+  dir: string,
+  variables: { [name: string]: string }
+): Promise<{ file: string; content: string | Buffer }[]> {
+  const rendered: { file: string; content: string | Buffer }[] = [];
+  for (const file of await listFiles(dir)) {
+    const content = await fs.readFile(path.join(dir, file));
+    if (content.includes(0)) {
+      rendered.push({ file, content });
+      continue;
+    }
+    try {
+      rendered.push({
+        file,
+        content: renderTemplate(content.toString("utf-8"), variables),
+      });
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new TemplateError(error.variables, file);
+      }
+      throw error;
+    }
+  }
+  return rendered;
+}
@@ -0,0 +1,372 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Snapshot, SnapshotFile } from "../../types/history";
+import { ServerPluginEntry } from "../../types/library";
+import { ServerEntry } from "../../types/server";
+import { getFileHash } from "../jar/plugin-info-cache";
+import { getServer } from "./serverManager";
+import { RollbackConflictError, SnapshotNotFoundError } from "../../errors";
+
+export type PluginChange =
+  /** 将 source 复制为 plugins 文件夹中的 file，已存在时替换 */
+  | { type: "add"; source: string; file: string }
+  /** 删除 plugins 文件夹中的 file */
+  | { type: "remove"; file: string }
+  /**
+   * 将 plugins 文件夹中的数据文件夹 folder 移动到 target（绝对路径），
+   * 没有 target 时移动到快照中，快照被清理时随之删除；文件夹不存在时忽略
+   */
+  | { type: "moveData"; folder: string; target?: string };
+
+type FileChange = Exclude<PluginChange, { type: "moveData" }>;
+
+/** 每个服务端最多保留的快照数量 */
+const HISTORY_LIMIT = 20;
+const STAGING_SUFFIX = ".tmp-staging";
+
+/**
+ * 获取服务端的快照目录
+ * @param server 服务端
+ * @returns 快照目录的路径
+ */
+export function getHistoryDir(server: ServerEntry): string {
+  return path.join(server.path, ".tmp", "history");
+}
+
+/**
+ * 以事务的方式修改服务端的 plugins 文件夹
+ * 新文件会先复制到暂存文件，全部复制成功后再通过 rename 原子地替换；
+ * 被替换或删除的文件会备份到一个带时间戳的快照中，移出的数据文件夹会记录在快照中，
+ * 任何一步失败都会恢复到修改之前的状态
+ * @param server 服务端
+ * @param operation 操作描述，会记录在快照中
+ * @param changes 要进行的修改
+ * @param before 修改之前服务端上的插件，会记录在快照中
+ * @returns 新的快照，没有任何修改时返回 null
+ * @throws 如果修改失败（此时 plugins 文件夹已恢复原状）
+ */
+export async function applyPluginChanges(
+  server: ServerEntry,
+  operation: string,
+  changes: PluginChange[],
+  before: ServerPluginEntry[]
+): Promise<Snapshot | null> {
+  if (changes.length === 0) return null;
+
+  const pluginsDir = path.join(server.path, "plugins");
+  const id = await createSnapshotId(server);
+  const snapshotDir = path.join(getHistoryDir(server), id);
+
+  const snapshot: Snapshot = {
+    id,
+    createdAt: new Date().toISOString(),
+    operation,
+    before: before.map((plugin) => ({
+      file: path.basename(plugin.jarPath),
+      hash: plugin.hash,
+      name: plugin.info?.name,
+      version: plugin.info?.version,
+    })),
+    added: [],
+    backups: [],
+  };
+
+  await commitChanges(pluginsDir, changes, snapshotDir, snapshot);
+  await fs.writeFile(
+    path.join(snapshotDir, "snapshot.json"),
+    JSON.stringify(snapshot, null, 2)
+  );
+  await pruneHistory(server);
+
+  return snapshot;
+}
+
+/**
+ * 列出服务端的所有快照
+ * @param serverId 服务端ID
+ * @returns 快照数组，从新到旧
+ */
+export async function listSnapshots(serverId: string): Promise<Snapshot[]> {
+  const server = await getServer(serverId);
+  return readSnapshots(server);
+}
+
+/**
+ * 回滚服务端的 plugins 文件夹
+ * 从最新的快照开始依次撤销，直到撤销完指定的快照，被撤销的快照会从历史中删除；
+ * 被移出的数据文件夹会移回 plugins 文件夹
+ * @param serverId 服务端ID
+ * @param options.to 回滚到该快照记录的状态（即该快照对应的操作之前），默认只撤销最新的一次操作
+ * @param options.force 即使文件在操作之后被修改过也强制回滚
+ * @returns 被撤销的快照，从新到旧
+ * @throws 如果没有快照、快照不存在，或文件与数据文件夹在操作之后被修改过
+ */
+export async function rollback(
+  serverId: string,
+  options: { to?: string; force?: boolean } = {}
+): Promise<Snapshot[]> {
+  const server = await getServer(serverId);
+  const pluginsDir = path.join(server.path, "plugins");
+  const snapshots = await readSnapshots(server);
+
+  if (snapshots.length === 0) {
+    throw new SnapshotNotFoundError(
+      `No snapshots found for server ${serverId}`,
+      { serverId }
+    );
+  }
+
+  const targetIndex = options.to
+    ? snapshots.findIndex((snapshot) => snapshot.id === options.to)
+    : 0;
+  if (targetIndex === -1) {
+    throw new SnapshotNotFoundError(`Snapshot not found: ${options.to}`, {
+      serverId,
+      snapshot: options.to,
+    });
+  }
+
+  const undone: Snapshot[] = [];
+  for (const snapshot of snapshots.slice(0, targetIndex + 1)) {
+    const snapshotDir = path.join(getHistoryDir(server), snapshot.id);
+
+    const data = (snapshot.data ?? []).map(({ folder, path: moved }) => ({
+      folder,
+      source: path.join(server.path, moved),
+      target: path.join(pluginsDir, folder),
+    }));
+
+    if (!options.force) {
+      for (const { folder, source, target } of data) {
+        if (!(await exists(source)) || (await exists(target))) {
+          throw new RollbackConflictError(
+            `Data folder ${folder} has changed since snapshot ${snapshot.id}, use --force to roll back anyway`,
+            { file: folder, snapshot: snapshot.id }
+          );
+        }
+      }
+      for (const added of snapshot.added) {
+        const filePath = path.join(pluginsDir, added.file);
+        const hash = await getFileHash(filePath).catch(() => null);
+        if (hash !== added.hash) {
+          throw new RollbackConflictError(
+            `${added.file} has changed since snapshot ${snapshot.id}, use --force to roll back anyway`,
+            { file: added.file, snapshot: snapshot.id }
+          );
+        }
+      }
+    }
+
+    const changes: PluginChange[] = [];
+    for (const added of snapshot.added) {
+      if (!snapshot.backups.includes(added.file)) {
+        changes.push({ type: "remove", file: added.file });
+      }
+    }
+    for (const file of snapshot.backups) {
+      changes.push({
+        type: "add",
+        source: path.join(snapshotDir, "jars", file),
+        file,
+      });
+    }
+
+    await commitChanges(pluginsDir, changes, null, null);
+    for (const { source, target } of data) {
+      if (!(await exists(source))) continue;
+      await fs.rm(target, { recursive: true, force: true });
+      await fs.rename(source, target);
+    }
+    await fs.rm(snapshotDir, { recursive: true, force: true });
+    undone.push(snapshot);
+  }
+
+  return undone;
+}
+
+/**
+ * 暂存、备份并应用修改，失败时恢复原状
+ * @param pluginsDir plugins 文件夹
+ * @param changes 要进行的修改
+ * @param snapshotDir 快照目录，为 null 时不备份（用于回滚）
+ * @param snapshot 用于记录新增和备份文件的快照
+ */
+async function commitChanges(
+  pluginsDir: string,
+  changes: PluginChange[],
+  snapshotDir: string | null,
+  snapshot: Snapshot | null
+): Promise<void> {
+  const fileChanges = changes.filter(
+    (change): change is FileChange => change.type !== "moveData"
+  );
+  const dataMoves = changes.filter(
+    (change): change is Extract<PluginChange, { type: "moveData" }> =>
+      change.type === "moveData"
+  );
+  const adds = changes.filter(
+    (change): change is Extract<PluginChange, { type: "add" }> =>
+      change.type === "add"
+  );
+  // 同一个文件既被写入又被删除时，以写入为准
+  const removes = fileChanges.filter(
+    (change) =>
+      change.type === "remove" && !adds.some((add) => add.file === change.file)
+  );
+
+  // 1. 暂存：将所有新文件复制到 plugins 文件夹中的暂存文件
+  const staged: string[] = [];
+  const addedFiles: SnapshotFile[] = [];
+  try {
+    for (const change of adds) {
+      const stagingPath = path.join(pluginsDir, change.file + STAGING_SUFFIX);
+      await fs.copyFile(change.source, stagingPath);
+      staged.push(stagingPath);
+      addedFiles.push({
+        file: change.file,
+        hash: await getFileHash(stagingPath),
+      });
+    }
+  } catch (error) {
+    await Promise.all(staged.map((file) => fs.rm(file, { force: true })));
+    throw error;
+  }
+
+  // 2. 备份：复制所有将被替换或删除的文件
+  const backupDir = snapshotDir ? path.join(snapshotDir, "jars") : null;
+  const backups = new Map<string, string>();
+  try {
+    if (backupDir) await fs.mkdir(backupDir, { recursive: true });
+    for (const change of fileChanges) {
+      const filePath = path.join(pluginsDir, change.file);
+      if (backups.has(change.file) || !(await exists(filePath))) continue;
+
+      if (backupDir) {
+        const backupPath = path.join(backupDir, change.file);
+        await fs.copyFile(filePath, backupPath);
+        backups.set(change.file, backupPath);
+      } else {
+        // 回滚时不保留快照，只需在失败时能恢复
+        const backupPath = filePath + ".tmp-backup";
+        await fs.copyFile(filePath, backupPath);
+        backups.set(change.file, backupPath);
+      }
+    }
+  } catch (error) {
+    await Promise.all(staged.map((file) => fs.rm(file, { force: true })));
+    await cleanupBackups(backups, snapshotDir);
+    throw error;
+  }
+
+  // 3. 应用：先放入新文件，再删除旧文件，保证任何时刻都不会同时缺少新旧版本；最后移出数据文件夹
+  const applied: string[] = [];
+  const movedData: { folder: string; from: string; to: string }[] = [];
+  try {
+    for (const [index, change] of adds.entries()) {
+      await fs.rename(staged[index], path.join(pluginsDir, change.file));
+      applied.push(change.file);
+    }
+    for (const change of removes) {
+      await fs.rm(path.join(pluginsDir, change.file), { force: true });
+      applied.push(change.file);
+    }
+    for (const change of dataMoves) {
+      const from = path.join(pluginsDir, change.folder);
+      if (!(await exists(from))) continue;
+      const to =
+        change.target ?? path.join(snapshotDir!, "data", change.folder);
+      await fs.mkdir(path.dirname(to), { recursive: true });
+      await fs.rename(from, to);
+      movedData.push({ folder: change.folder, from, to });
+    }
+  } catch (error) {
+    for (const { from, to } of movedData.reverse()) {
+      await fs.rename(to, from);
+    }
+    for (const file of applied.reverse()) {
+      const backupPath = backups.get(file);
+      if (backupPath) {
+        await fs.copyFile(backupPath, path.join(pluginsDir, file));
+      } else {
+        await fs.rm(path.join(pluginsDir, file), { force: true });
+      }
+    }
+    await Promise.all(staged.map((file) => fs.rm(file, { force: true })));
+    await cleanupBackups(backups, snapshotDir);
+    throw error;
+  }
+
+  if (snapshot) {
+    snapshot.added = addedFiles;
+    snapshot.backups = [...backups.keys()];
+    if (movedData.length > 0) {
+      const serverPath = path.dirname(pluginsDir);
+      snapshot.data = movedData.map(({ folder, to }) => ({
+        folder,
+        path: path.relative(serverPath, to),
+      }));
+    }
+  } else {
+    await cleanupBackups(backups, null);
+  }
+}
+
+async function cleanupBackups(
+  backups: Map<string, string>,
+  snapshotDir: string | null
+): Promise<void> {
+  if (snapshotDir) {
+    await fs.rm(snapshotDir, { recursive: true, force: true });
+    return;
+  }
+  await Promise.all(
+    [...backups.values()].map((file) => fs.rm(file, { force: true }))
+  );
+}
+
+async function readSnapshots(server: ServerEntry): Promise<Snapshot[]> {
+  const historyDir = getHistoryDir(server);
+  const ids = await fs.readdir(historyDir).catch(() => [] as string[]);
+
+  const snapshots: Snapshot[] = [];
+  for (const id of ids.sort().reverse()) {
+    try {
+      const content = await fs.readFile(
+        path.join(historyDir, id, "snapshot.json"),
+        "utf-8"
+      );
+      snapshots.push(JSON.parse(content));
+    } catch (error) {
+      // 未完成的快照，忽略
+    }
+  }
+  return snapshots;
+}
+
+async function pruneHistory(server: ServerEntry): Promise<void> {
+  const snapshots = await readSnapshots(server);
+  for (const snapshot of snapshots.slice(HISTORY_LIMIT)) {
+    await fs.rm(path.join(getHistoryDir(server), snapshot.id), {
+      recursive: true,
+      force: true,
+    });
+  }
+}
+
+async function createSnapshotId(server: ServerEntry): Promise<string> {
+  const base = new Date().toISOString().replace(/[-:.]/g, "");
+  let id = base;
+  for (let i = 1; await exists(path.join(getHistoryDir(server), id)); i++) {
+    id = `${base}-${i}`;
+  }
+  return id;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
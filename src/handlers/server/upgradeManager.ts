@@ -0,0 +1,206 @@
+import path from "node:path";
+import { PluginEntry } from "../../types/library";
+import { resolveDependencies } from "../library/dependency-resolver";
+import {
+  findPlugin,
+  findPluginByHash,
+  resolvePluginJar,
+  sortVersions,
+} from "../library/manager";
+import { readLockfile, readManifest, writeLockfile } from "./manifest";
+import {
+  hasPluginInfo,
+  installOrUpdatePlugins,
+  listPlugins,
+} from "./pluginManager";
+import { getServer } from "./serverManager";
+
+/**
+ * up-to-date：已经是 wanted 与 latest 版本；
+ * outdated：wanted 或 latest 比当前版本更新；
+ * not-in-library：插件库中没有适用于该服务端的版本
+ */
+export type OutdatedStatus = "up-to-date" | "outdated" | "not-in-library";
+
+export interface OutdatedPlugin {
+  serverId: string;
+  name: string;
+  status: OutdatedStatus;
+  installed: PluginEntry;
+  /** 清单中的版本约束 */
+  constraint?: string;
+  /** 满足清单约束的最新版本，没有约束时与 latest 相同 */
+  wanted: PluginEntry | null;
+  /** 插件库中适用于该服务端平台的最新版本 */
+  latest: PluginEntry | null;
+}
+
+export interface UpgradeResult {
+  serverId: string;
+  upgraded: { name: string; from: string; to: string }[];
+  /** 新版本引入的、之前未安装的依赖 */
+  dependencies: PluginEntry[];
+}
+
+/**
+ * 对比服务端已安装的插件与插件库中的版本
+ * @param serverId 服务端ID
+ * @returns 每个已安装插件（不包括无法读取插件信息的 Jar）的当前、wanted 与 latest 版本
+ */
+export async function getOutdatedPlugins(
+  serverId: string
+): Promise<OutdatedPlugin[]> {
+  const server = await getServer(serverId);
+  const manifest = await readManifest(server);
+  const installed = await listPlugins(serverId);
+
+  const outdated: OutdatedPlugin[] = [];
+  for (const plugin of installed.filter(hasPluginInfo)) {
+    const constraint = Object.entries(manifest?.plugins ?? {}).find(
+      ([name]) => name.toLowerCase() === plugin.info.name.toLowerCase()
+    )?.[1];
+
+    const [latest = null] = await findPlugin({
+      name: plugin.info.name,
+      exactName: true,
+      latest: true,
+      platform: server.platform,
+      gameVersion: server.gameVersion,
+    });
+
+    let wanted = latest;
+    if (
+      constraint &&
+      ((constraint.version && constraint.version !== "latest") ||
+        constraint.library)
+    ) {
+      [wanted = null] = await findPlugin({
+        name: plugin.info.name,
+        exactName: true,
+        pluginVersion:
+          constraint.version === "latest" ? undefined : constraint.version,
+        latest: true,
+        platform: server.platform,
+        gameVersion: server.gameVersion,
+        libraryId: constraint.library,
+      });
+    }
+
+    const status: OutdatedStatus =
+      !wanted && !latest
+        ? "not-in-library"
+        : isNewerVersion(wanted?.info.version, plugin.info.version) ||
+          isNewerVersion(latest?.info.version, plugin.info.version)
+        ? "outdated"
+        : "up-to-date";
+    outdated.push({
+      serverId,
+      name: plugin.info.name,
+      status,
+      installed: plugin,
+      constraint: constraint?.version,
+      wanted,
+      latest,
+    });
+  }
+
+  return outdated;
+}
+
+/**
+ * 将服务端上的插件更新到 wanted 版本（满足清单约束的最新版本）
+ * 所有更新以及新版本所需的依赖在一次事务中安装，服务端存在锁文件时会同时更新锁文件
+ * @param serverId 服务端ID
+ * @param options.plugins 只更新这些插件
+ * @param options.dryRun 只计算更新，不修改任何文件
+ * @returns 更新结果
+ * @throws 如果依赖无法解析或安装失败
+ */
+export async function upgradeServer(
+  serverId: string,
+  options: { plugins?: string[]; dryRun?: boolean } = {}
+): Promise<UpgradeResult> {
+  const server = await getServer(serverId);
+  const onlyPlugins = options.plugins?.map((name) => name.toLowerCase());
+
+  const upgrades = (await getOutdatedPlugins(serverId)).filter(
+    (plugin) =>
+      isNewerVersion(
+        plugin.wanted?.info.version,
+        plugin.installed.info.version
+      ) &&
+      (!onlyPlugins || onlyPlugins.includes(plugin.name.toLowerCase()))
+  );
+
+  const result: UpgradeResult = {
+    serverId,
+    upgraded: upgrades.map((plugin) => ({
+      name: plugin.name,
+      from: plugin.installed.info.version,
+      to: plugin.wanted!.info.version,
+    })),
+    dependencies: [],
+  };
+  if (upgrades.length === 0) return result;
+
+  const installed = await listPlugins(serverId);
+  const targets = upgrades.map((plugin) => plugin.wanted!);
+  for (const target of targets) {
+    const { plan } = await resolveDependencies(target, {
+      platform: server.platform,
+      gameVersion: server.gameVersion,
+      installed,
+      preferred: targets,
+    });
+    for (const dependency of plan.slice(0, -1)) {
+      if (
+        !targets.includes(dependency) &&
+        !result.dependencies.includes(dependency)
+      ) {
+        result.dependencies.push(dependency);
+      }
+    }
+  }
+
+  if (options.dryRun) return result;
+
+  const toInstall = [...result.dependencies, ...targets];
+  const jarPaths: string[] = [];
+  for (const plugin of toInstall) {
+    jarPaths.push(await resolvePluginJar(plugin));
+  }
+  await installOrUpdatePlugins(serverId, jarPaths);
+
+  // 保持锁文件与 plugins 文件夹一致
+  const lockfile = await readLockfile(server);
+  if (lockfile) {
+    for (const plugin of toInstall) {
+      const source = await findPluginByHash(plugin.hash, server.platform);
+      const previous = Object.keys(lockfile.plugins).find(
+        (name) => name.toLowerCase() === plugin.info.name.toLowerCase()
+      );
+      if (previous) delete lockfile.plugins[previous];
+      lockfile.plugins[plugin.info.name] = {
+        name: plugin.info.name,
+        version: plugin.info.version,
+        library: source!.libraryId,
+        file: path.basename(plugin.jarPath),
+        hash: plugin.hash,
+      };
+    }
+    await writeLockfile(server, lockfile);
+  }
+
+  return result;
+}
+
+/**
+ * 判断 candidate 是否比 current 更新
+ */
+function isNewerVersion(
+  candidate: string | undefined,
+  current: string
+): boolean {
+  if (!candidate || candidate === current) return false;
+  return sortVersions([current, candidate])[0] === candidate;
+}
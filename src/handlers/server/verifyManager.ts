@@ -0,0 +1,176 @@
+import path from "node:path";
+import { LockedPlugin } from "../../types/manifest";
+import { PluginEntry } from "../../types/library";
+import { getJarFiles } from "../folder/get-jar-files";
+import { getPluginInfo } from "../jar/get-plugin-info";
+import { openJar } from "../jar/jar-reader";
+import { checkJarSignature, JarSignatureCheck } from "../jar/jar-signature";
+import { getFileHash, getJarInfoWithCache } from "../jar/plugin-info-cache";
+import { getAllLibraries } from "../library/manager";
+import { selectPlatformInfo } from "../platform/compatibility";
+import { LOCKFILE_FILE, readLockfile } from "./manifest";
+import { getServer } from "./serverManager";
+
+/**
+ * ok：与锁文件一致且在插件库中，或没有锁文件时在插件库中；
+ * modified：与锁文件或插件库中同名同版本的插件不一致；
+ * unknown：不在任何插件库中；
+ * unmanaged：在插件库中，但服务端的锁文件没有记录它
+ */
+export type JarStatus = "ok" | "modified" | "unknown" | "unmanaged";
+
+export interface VerifiedJar {
+  /** plugins 文件夹中的文件名 */
+  file: string;
+  name?: string;
+  version?: string;
+  /** 重新计算的 SHA-256，不使用缓存 */
+  hash: string;
+  status: JarStatus;
+  /** 期望的 SHA-256，来自锁文件或插件库中同名同版本的插件 */
+  expectedHash?: string;
+  /** 包含相同 Jar 的插件库 */
+  library?: { id: string; path: string };
+  /** 问题的说明 */
+  message?: string;
+  /** 签名检查的结果，仅在指定 signatures 时存在 */
+  signature?: JarSignatureCheck;
+}
+
+export interface VerifyReport {
+  serverId: string;
+  /** 是否使用了服务端的锁文件 */
+  lockfile: boolean;
+  jars: VerifiedJar[];
+  /** 锁文件中记录、但没有安装的插件 */
+  missing: LockedPlugin[];
+  /** 问题的数量，包括状态不是 ok 的 Jar、缺少的插件和签名无效的 Jar */
+  problems: number;
+}
+
+/**
+ * 校验服务端上安装的 Jar 的完整性
+ * 重新计算每个 Jar（包括禁用的）的 SHA-256，与锁文件和插件库中的记录比较；
+ * 锁文件中的 Jar 还必须存在于某个插件库中，以证明它来自经过审核的插件库
+ * @param serverId 服务端ID
+ * @param options.signatures 同时检查 Jar 的签名与 META-INF/MANIFEST.MF 中的摘要
+ * @returns 校验报告
+ * @throws 如果服务端不存在或锁文件格式不正确
+ */
+export async function verifyServer(
+  serverId: string,
+  options: { signatures?: boolean } = {}
+): Promise<VerifyReport> {
+  const server = await getServer(serverId);
+  const lockfile = await readLockfile(server);
+  const locked = Object.values(lockfile?.plugins ?? {});
+
+  const libraryPlugins = Object.values(await getAllLibraries()).flatMap(
+    (library) =>
+      library.plugins.map((plugin) => ({ libraryId: library.id, plugin }))
+  );
+  const byHash = new Map(
+    libraryPlugins.map((entry) => [entry.plugin.hash, entry])
+  );
+
+  const report: VerifyReport = {
+    serverId,
+    lockfile: !!lockfile,
+    jars: [],
+    missing: [],
+    problems: 0,
+  };
+  const matchedLocks = new Set<LockedPlugin>();
+
+  const jarFiles = await getJarFiles(path.join(server.path, "plugins"), {
+    includeDisabled: true,
+  });
+  for (const jarPath of jarFiles) {
+    const file = path.basename(jarPath);
+    const hash = await getFileHash(jarPath);
+    // 缓存以文件属性判断是否过期，被篡改但属性不变的 Jar 需要重新解析
+    const cached = await getJarInfoWithCache(jarPath);
+    const infos = cached.hash === hash ? cached.info : getPluginInfo(jarPath);
+    const info =
+      infos.length > 0 ? selectPlatformInfo(infos, server.platform) : undefined;
+
+    const jar: VerifiedJar = {
+      file,
+      ...(info ? { name: info.name, version: info.version } : {}),
+      hash,
+      status: "ok",
+    };
+    const fromLibrary = byHash.get(hash);
+    if (fromLibrary) {
+      jar.library = {
+        id: fromLibrary.libraryId,
+        path: libraryPath(fromLibrary.plugin),
+      };
+    }
+
+    const baseFile = file.replace(/\.disabled$/i, "");
+    const lock =
+      locked.find((plugin) => plugin.file === baseFile) ??
+      locked.find(
+        (plugin) => plugin.name.toLowerCase() === info?.name.toLowerCase()
+      );
+    if (lock) matchedLocks.add(lock);
+
+    if (lock && lock.hash !== hash) {
+      jar.status = "modified";
+      jar.expectedHash = lock.hash;
+      jar.message = `does not match ${LOCKFILE_FILE}`;
+    } else if (!fromLibrary) {
+      const sameVersion = info
+        ? libraryPlugins.find(
+            ({ plugin }) =>
+              plugin.info.name.toLowerCase() === info.name.toLowerCase() &&
+              plugin.info.version === info.version
+          )
+        : undefined;
+      if (sameVersion) {
+        jar.status = "modified";
+        jar.expectedHash = sameVersion.plugin.hash;
+        jar.message = `differs from ${sameVersion.libraryId}/${libraryPath(
+          sameVersion.plugin
+        )} with the same version`;
+      } else {
+        jar.status = "unknown";
+        jar.message = lock
+          ? `matches ${LOCKFILE_FILE} but is not in any library`
+          : "not found in any library";
+      }
+    } else if (lockfile && !lock) {
+      jar.status = "unmanaged";
+      jar.message = `not recorded in ${LOCKFILE_FILE}`;
+    }
+
+    if (options.signatures) {
+      try {
+        jar.signature = checkJarSignature(openJar(jarPath));
+      } catch (error) {
+        jar.signature = {
+          status: "invalid",
+          signers: [],
+          problems: [(error as Error).message],
+        };
+      }
+    }
+
+    if (jar.status !== "ok") report.problems++;
+    if (jar.signature?.status === "invalid") report.problems++;
+    report.jars.push(jar);
+  }
+
+  report.missing = locked.filter((plugin) => !matchedLocks.has(plugin));
+  report.problems += report.missing.length;
+  return report;
+}
+
+/** 插件在插件库中的位置，zip 中的 Jar 为 <zip>!/<entry> */
+function libraryPath(plugin: PluginEntry): string {
+  if (!plugin.source) return path.basename(plugin.jarPath);
+  return plugin.source.entry
+    ? `${plugin.source.path}!/${plugin.source.entry}`
+    : plugin.source.path;
+}
@@ -0,0 +1,19 @@
+export type AdvisorySeverity = "low" | "medium" | "high" | "critical";
+
+export interface Advisory {
+  /** 公告 ID，例如 TMP-2024-001 或 CVE 编号 */
+  id: string;
+  severity: AdvisorySeverity;
+  /** warn：只发出警告；block：拒绝安装。critical 默认为 block，其余默认为 warn */
+  action: "warn" | "block";
+  /** 受影响的插件名称，大小写不敏感 */
+  plugin?: string;
+  /** 受影响的版本或版本范围，规则见 satisfiesVersion；为空时影响插件的所有版本 */
+  versions?: string;
+  /** 受影响的 Jar 的 SHA-256 */
+  sha256?: string[];
+  summary?: string;
+  url?: string;
+  /** 公告所在的文件 */
+  source: string;
+}
@@ -0,0 +1,23 @@
+export interface SnapshotFile {
+  /** plugins 文件夹中的文件名 */
+  file: string;
+  hash: string;
+  name?: string;
+  version?: string;
+}
+
+export interface Snapshot {
+  /** 快照 ID，由创建时间生成，可以按字典序排序 */
+  id: string;
+  createdAt: string;
+  /** 产生该快照的操作，例如 "install LuckPerms" */
+  operation: string;
+  /** 操作之前 plugins 文件夹中的所有插件 */
+  before: SnapshotFile[];
+  /** 操作写入（新增或替换）的文件 */
+  added: SnapshotFile[];
+  /** 操作替换或删除、已备份到快照中的文件 */
+  backups: string[];
+  /** 操作移出 plugins 文件夹的数据文件夹，path 为移动到的位置（相对于服务端文件夹） */
+  data?: { folder: string; path: string }[];
+}
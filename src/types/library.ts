@@ -3,15 +3,62 @@ import { PluginInfo } from "./plugin-info";
 export interface PluginEntry {
   info: PluginInfo;
   hash: string;
+  /** Jar 的路径；zip 中的 Jar 为 <zip 的路径>!/<zip 内的路径>，安装前需要解压 */
   jarPath: string;
+  /** Jar 在插件库中的位置，仅插件库中的插件拥有 */
+  source?: PluginSource;
+  /** 是否启用，仅服务端上的插件拥有；禁用的插件以 .jar.disabled 结尾，不会被服务端加载 */
+  enabled?: boolean;
+}
+
+/** 服务端 plugins 文件夹中的 Jar，没有描述文件的 Jar（例如依赖库）没有插件信息 */
+export interface ServerPluginEntry extends Omit<PluginEntry, "info"> {
+  info?: PluginInfo;
+}
+
+export interface PluginSource {
+  library: string;
+  /** 相对于插件库文件夹的路径，使用 / 分隔；zip 中的 Jar 为 zip 的路径 */
+  path: string;
+  /** zip 中的 Jar 在 zip 内的路径 */
+  entry?: string;
+}
+
+export interface LibraryScanOptions {
+  /** 只索引匹配的文件，相对于插件库文件夹，例如 vendor/**；默认为所有 .jar 与 .zip 文件 */
+  include?: string[];
+  /** 跳过匹配的文件与文件夹 */
+  exclude?: string[];
+  /** 最多进入的子文件夹层数，0 表示只扫描插件库文件夹本身；默认不限制 */
+  maxDepth?: number;
+}
+
+export type RemoteAdapterName = "modrinth" | "hangar";
+
+export interface RemoteSource {
+  /** 仓库 API 的类型 */
+  adapter: RemoteAdapterName;
+  /** API 的根地址，例如 https://api.modrinth.com/v2 或 https://hangar.papermc.io/api/v1 */
+  url: string;
+  /** 跟踪的项目 ID 或 slug */
+  projects: string[];
+  /** 每个项目最多缓存的版本数量，从新到旧 */
+  maxVersions: number;
 }
 
 export interface Library {
   id: string;
+  /** 插件所在的文件夹，远程插件库为下载缓存的文件夹 */
   path: string;
   plugins: PluginEntry[];
+  /** 扫描插件库文件夹的规则 */
+  scan?: LibraryScanOptions;
+  /** 仅远程插件库拥有 */
+  remote?: RemoteSource;
 }
 
+export type RemoteLibrary = Library & { remote: RemoteSource };
+
 export type Libraries = {
   [libraryId: string]: Library;
 };
@@ -0,0 +1,33 @@
+export interface ManifestPlugin {
+  /** 版本约束，"latest"、具体的版本号或版本范围（如 `^2.3`），默认为 "latest" */
+  version?: string;
+  /** 只从指定的插件库中选择 */
+  library?: string;
+  /** 为 false 时插件仍会被锁定和安装，但处于禁用状态，默认为 true */
+  enabled?: boolean;
+}
+
+export interface ServerManifest {
+  plugins: {
+    [pluginName: string]: ManifestPlugin;
+  };
+  /** 渲染配置模板时使用的变量，优先于服务端上设置的变量 */
+  variables?: { [name: string]: string };
+}
+
+export interface LockedPlugin {
+  name: string;
+  version: string;
+  library: string;
+  /** 安装到 plugins 文件夹中的文件名 */
+  file: string;
+  /** Jar 文件的 SHA-256 */
+  hash: string;
+}
+
+export interface ServerLockfile {
+  lockfileVersion: 1;
+  plugins: {
+    [pluginName: string]: LockedPlugin;
+  };
+}
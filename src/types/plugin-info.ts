@@ -1,20 +1,75 @@
 import { SupportedPlatform } from "./supported-platform";
 
+/**
+ * 平台判断的可信度
+ * high：主类的继承链、注解或 Paper 入口可以确认；medium：只有描述文件或引用的 API 可以说明；
+ * low：无法判断，按多个平台处理
+ */
+export type PlatformConfidence = "high" | "medium" | "low";
+
 export type PluginInfo = {
   name: string;
   version: string;
   description?: string;
   authors: string[];
+  depend: string[];
   loadbefore: string[];
   softdepend: string[];
   platform: SupportedPlatform[];
+  /** 平台判断的可信度，旧版本缓存的插件信息没有 */
+  platformConfidence?: PlatformConfidence;
+  /** plugin.yml 或 paper-plugin.yml 中的 api-version，即插件所需的最低 Minecraft 版本 */
+  apiVersion?: string;
+  /** 仅 paper-plugin.yml 描述的插件拥有 */
+  paper?: PaperPluginMeta;
 };
 
+export interface PaperDependency {
+  name: string;
+  /** 依赖作用的阶段 */
+  stage: "bootstrap" | "server";
+  /** BEFORE：依赖先于本插件加载；AFTER：本插件先于依赖加载；OMIT：不限制顺序 */
+  load: "BEFORE" | "AFTER" | "OMIT";
+  required: boolean;
+  joinClasspath: boolean;
+}
+
+export interface PaperPluginMeta {
+  bootstrapper?: string;
+  loader?: string;
+  dependencies: PaperDependency[];
+}
+
+/** 计算 hash 时文件的状态，用于判断文件是否可能被修改 */
+export interface FileStat {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+}
+
 export interface PluginCacheEntry {
   info: PluginInfo[];
   hash: string;
+  /** 解析插件信息时的格式版本，与当前版本不同时重新解析 */
+  version?: number;
+  /** 与文件当前的状态一致时直接使用缓存的 hash */
+  stat?: FileStat;
 }
 
 export interface PluginCache {
   [jarPath: string]: PluginCacheEntry;
 }
+
+/** zip 中的一个 Jar */
+export interface BundledJar {
+  /** Jar 在 zip 内的路径 */
+  entry: string;
+  hash: string;
+  info: PluginInfo[];
+}
+
+export interface BundleCacheEntry {
+  jars: BundledJar[];
+  version: number;
+  stat: FileStat;
+}
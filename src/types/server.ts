@@ -1,3 +1,4 @@
+import { ManifestPlugin } from "./manifest";
 import { PluginInfo } from "./plugin-info";
 import { SupportedPlatform } from "./supported-platform";
 
@@ -5,12 +6,43 @@ export interface ServerEntry {
   id: string;
   platform: SupportedPlatform;
   path: string;
+  /** 服务端运行的 Minecraft 版本，代理端没有 */
+  gameVersion?: string;
+  /** 渲染配置模板时使用的变量 */
+  variables?: { [name: string]: string };
 }
 
 export interface ServerList {
   [serverId: string]: ServerEntry;
 }
 
+export interface ServerGroup {
+  /** 使用 / 表示嵌套，例如 network/lobby */
+  id: string;
+  /** 服务端ID、服务端ID的通配符，或以 @ 开头引用的其他分组 */
+  members: string[];
+}
+
+export interface ServerGroups {
+  [groupId: string]: ServerGroup;
+}
+
+export interface ServerTemplate {
+  id: string;
+  platform: SupportedPlatform;
+  gameVersion?: string;
+  /** 写入新服务端 tmp.yml 的插件及其版本约束 */
+  plugins: { [pluginName: string]: ManifestPlugin };
+  /** 新服务端的配置模板变量 */
+  variables?: { [name: string]: string };
+  /** 复制到新服务端文件夹的文件（如 server.properties），文本文件会渲染其中的变量 */
+  files?: string;
+}
+
+export interface ServerTemplates {
+  [templateId: string]: ServerTemplate;
+}
+
 export interface PluginCacheEntry {
   info: PluginInfo;
   hash: string;
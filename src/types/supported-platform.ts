@@ -1,6 +1,7 @@
 export enum SupportedPlatform {
   BungeeCord = "BungeeCord",
   Bukkit = "Bukkit",
+  Paper = "Paper",
   Velocity = "Velocity",
   Folia = "Folia",
 }
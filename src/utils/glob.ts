@@ -0,0 +1,34 @@
+/**
+ * 判断字符串是否包含通配符
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+/**
+ * 将通配符模式转换为正则表达式
+ * `*` 匹配除 / 以外的任意字符，`**` 匹配包括 / 在内的任意字符，`?` 匹配单个字符；
+ * `**` 与其后的 / 可以一起匹配空字符串，因此匹配任意层文件夹的模式也能匹配最外层的文件
+ * @param pattern 通配符模式
+ * @returns 匹配整个字符串的正则表达式
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*" && pattern[i + 2] === "/") {
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (char === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,126 @@
+export interface DiffLine {
+  type: "equal" | "add" | "remove";
+  line: string;
+}
+
+/**
+ * 逐行比较两段文本（基于最长公共子序列）
+ * @param before 原文本
+ * @param after 新文本
+ * @returns 差异行，按顺序排列
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lcs[i][j]：a[i..] 与 b[j..] 的最长公共子序列长度
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "equal", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "remove", line: a[i++] });
+    } else {
+      result.push({ type: "add", line: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "remove", line: a[i++] });
+  while (j < b.length) result.push({ type: "add", line: b[j++] });
+
+  return result;
+}
+
+/**
+ * 生成 unified diff 格式的差异
+ * @param before 原文本
+ * @param after 新文本
+ * @param options.fromFile 原文件名
+ * @param options.toFile 新文件名
+ * @param options.context 每个差异块前后保留的上下文行数，默认为 3
+ * @returns unified diff 文本，两段文本相同时返回空字符串
+ */
+export function formatUnifiedDiff(
+  before: string,
+  after: string,
+  options: { fromFile?: string; toFile?: string; context?: number } = {}
+): string {
+  const lines = diffLines(before, after);
+  if (lines.every((line) => line.type === "equal")) return "";
+
+  const context = options.context ?? 3;
+  const output = [
+    `--- ${options.fromFile ?? "a"}`,
+    `+++ ${options.toFile ?? "b"}`,
+  ];
+
+  // 找出需要输出的行：所有变更行及其前后的上下文
+  const visible = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.type === "equal") return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    for (let k = start; k <= end; k++) visible[k] = true;
+  });
+
+  // 记录每一行在原文本和新文本中的行号
+  const beforeLine: number[] = [];
+  const afterLine: number[] = [];
+  let beforeCount = 0;
+  let afterCount = 0;
+  for (const line of lines) {
+    beforeLine.push(beforeCount + 1);
+    afterLine.push(afterCount + 1);
+    if (line.type !== "add") beforeCount++;
+    if (line.type !== "remove") afterCount++;
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    if (!visible[index]) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    while (index < lines.length && visible[index]) index++;
+    const hunk = lines.slice(start, index);
+
+    const removed = hunk.filter((line) => line.type !== "add").length;
+    const added = hunk.filter((line) => line.type !== "remove").length;
+    const fromStart = removed === 0 ? beforeLine[start] - 1 : beforeLine[start];
+    const toStart = added === 0 ? afterLine[start] - 1 : afterLine[start];
+    output.push(`@@ -${fromStart},${removed} +${toStart},${added} @@`);
+
+    for (const line of hunk) {
+      const prefix =
+        line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+      output.push(prefix + line.line);
+    }
+  }
+
+  return output.join("\n");
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  // 末尾的换行不算作一个空行
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
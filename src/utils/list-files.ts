@@ -0,0 +1,22 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * 递归列出文件夹中的所有文件
+ * @returns 相对路径，使用 / 分隔，按名称排序
+ */
+export async function listFiles(dir: string, prefix = ""): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(dir, prefix), {
+    withFileTypes: true,
+  });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(dir, relative)));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,33 @@
+/**
+ * 并发地处理每一项，同时进行的任务不超过 concurrency 个
+ * 任何一项失败后不再开始新的任务，并以第一个错误拒绝
+ * @param items 要处理的项
+ * @param concurrency 最大并发数，小于 1 时视为 1
+ * @param run 处理一项的函数
+ * @returns 结果，与 items 的顺序一致
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  run: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await run(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { getPluginInfo } from "../src/handlers/jar/get-plugin-info";
+import { classFile, writeJar } from "./jars";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tmp-info-"));
+});
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/** 写入一个只有 paper-plugin.yml 的 Paper 插件并解析 */
+function paperPlugin(dependencies: string) {
+  const jar = path.join(dir, "Example.jar");
+  writeJar(jar, {
+    "paper-plugin.yml": `name: Example\nversion: "1.0.0"\nmain: ex.Example\ndependencies:\n${dependencies}`,
+    "ex/Example.class": classFile(
+      "ex/Example",
+      "org/bukkit/plugin/java/JavaPlugin"
+    ),
+  });
+  const [info] = getPluginInfo(jar);
+  return info;
+}
+
+describe("paper-plugin.yml dependencies", () => {
+  it("maps server dependencies to depend, softdepend and loadbefore", () => {
+    const info = paperPlugin(
+      [
+        "  server:",
+        "    Vault:",
+        "      load: BEFORE",
+        "    PlaceholderAPI:",
+        "      required: false",
+        "    Addon:",
+        "      required: false",
+        "      load: AFTER",
+        "",
+      ].join("\n")
+    );
+
+    assert.deepEqual(info.depend, ["Vault"]);
+    assert.deepEqual(info.softdepend, ["PlaceholderAPI"]);
+    assert.deepEqual(info.loadbefore, ["Addon"]);
+  });
+
+  it("keeps a required dependency loaded after the plugin out of loadbefore", () => {
+    const info = paperPlugin(
+      [
+        "  server:",
+        "    Vault:",
+        "      required: true",
+        "      load: AFTER",
+        "",
+      ].join("\n")
+    );
+
+    assert.deepEqual(info.depend, ["Vault"]);
+    assert.deepEqual(info.softdepend, []);
+    assert.deepEqual(info.loadbefore, []);
+  });
+});
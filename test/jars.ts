@@ -0,0 +1,73 @@
+import AdmZip from "adm-zip";
+import fs from "node:fs";
+import path from "node:path";
+
+/** 只包含常量池、当前类与父类的最小 class 文件 */
+export function classFile(name: string, superName: string): Buffer {
+  const utf8 = (value: string) => {
+    const bytes = Buffer.from(value);
+    const header = Buffer.alloc(3);
+    header[0] = 1;
+    header.writeUInt16BE(bytes.length, 1);
+    return Buffer.concat([header, bytes]);
+  };
+  const classRef = (index: number) =>
+    Buffer.from([7, index >> 8, index & 0xff]);
+  // 常量池：1 当前类名，2 当前类，3 父类名，4 父类
+  const pool = [utf8(name), classRef(1), utf8(superName), classRef(3)];
+
+  const head = Buffer.alloc(10);
+  head.writeUInt32BE(0xcafebabe, 0);
+  head.writeUInt16BE(52, 6);
+  head.writeUInt16BE(pool.length + 1, 8);
+  const tail = Buffer.alloc(16);
+  tail.writeUInt16BE(0x21, 0);
+  tail.writeUInt16BE(2, 2);
+  tail.writeUInt16BE(4, 4);
+  return Buffer.concat([head, ...pool, tail]);
+}
+
+/**
+ * 写入一个 Jar，所在的文件夹不存在时会被创建
+ * @param entries 文件名与内容
+ */
+export function writeJar(
+  file: string,
+  entries: { [name: string]: string | Buffer }
+): void {
+  const zip = new AdmZip();
+  for (const [name, content] of Object.entries(entries)) {
+    zip.addFile(
+      name,
+      Buffer.isBuffer(content) ? content : Buffer.from(content)
+    );
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  zip.writeZip(file);
+}
+
+/**
+ * 写入一个 Bukkit 插件的 Jar
+ * @param extra 追加到 plugin.yml 的内容，例如 depend: [Vault]
+ */
+export function writeBukkitJar(
+  file: string,
+  name: string,
+  version: string,
+  extra = ""
+): void {
+  writeJar(file, {
+    "plugin.yml": `name: ${name}\nversion: "${version}"\nmain: ex.${name}\n${extra}`,
+    [`ex/${name}.class`]: classFile(
+      `ex/${name}`,
+      "org/bukkit/plugin/java/JavaPlugin"
+    ),
+  });
+}
+
+/** 写入一个没有插件描述文件的 Jar，例如放在 plugins 文件夹中的依赖库 */
+export function writeLibraryJar(file: string): void {
+  writeJar(file, {
+    "ex/lib/Util.class": classFile("ex/lib/Util", "java/lang/Object"),
+  });
+}
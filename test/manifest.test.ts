@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ManifestError } from "../src/errors";
+import {
+  LOCKFILE_FILE,
+  MANIFEST_FILE,
+  readLockfile,
+  readManifest,
+} from "../src/handlers/server/manifest";
+import { ServerEntry } from "../src/types/server";
+import { SupportedPlatform } from "../src/types/supported-platform";
+
+let server: ServerEntry;
+
+beforeEach(async () => {
+  server = {
+    id: "s1",
+    platform: SupportedPlatform.Paper,
+    path: await fs.mkdtemp(path.join(os.tmpdir(), "tmp-manifest-")),
+  };
+});
+afterEach(async () => {
+  await fs.rm(server.path, { recursive: true, force: true });
+});
+
+function writeManifestText(content: string): Promise<void> {
+  return fs.writeFile(path.join(server.path, MANIFEST_FILE), content);
+}
+
+describe("readManifest", () => {
+  it("reads the shorthand and the full form", async () => {
+    await writeManifestText(
+      [
+        "plugins:",
+        "  Vault: 1.7.3",
+        '  Essentials: "2.20"',
+        "  LuckPerms:",
+        "    version: ^5.4",
+        "    library: main",
+        "  Dynmap:",
+        "    enabled: false",
+        "",
+      ].join("\n")
+    );
+
+    assert.deepEqual(await readManifest(server), {
+      plugins: {
+        Vault: { version: "1.7.3" },
+        Essentials: { version: "2.20" },
+        LuckPerms: { version: "^5.4", library: "main" },
+        Dynmap: { version: undefined, library: undefined, enabled: false },
+      },
+    });
+  });
+
+  it("returns null without a manifest", async () => {
+    assert.equal(await readManifest(server), null);
+  });
+
+  it("reports a YAML syntax error as an invalid manifest", async () => {
+    await writeManifestText("plugins:\n  Vault: [1.7.3\n");
+
+    await assert.rejects(
+      readManifest(server),
+      (error) =>
+        error instanceof ManifestError && error.code === "INVALID_MANIFEST"
+    );
+  });
+
+  it("rejects unquoted versions that YAML reads as numbers", async () => {
+    for (const plugins of [
+      "  Plugin: 1.20\n",
+      "  Plugin:\n    version: 1.20\n",
+    ]) {
+      await writeManifestText(`plugins:\n${plugins}`);
+
+      await assert.rejects(
+        readManifest(server),
+        (error) =>
+          error instanceof ManifestError &&
+          error.code === "INVALID_MANIFEST" &&
+          error.message.includes('Plugin: "1.20"')
+      );
+    }
+  });
+});
+
+describe("readLockfile", () => {
+  function writeLockfileText(content: string): Promise<void> {
+    return fs.writeFile(path.join(server.path, LOCKFILE_FILE), content);
+  }
+
+  it("reads a lockfile", async () => {
+    const lockfile = {
+      lockfileVersion: 1,
+      plugins: {
+        Vault: {
+          name: "Vault",
+          version: "1.7.3",
+          library: "main",
+          file: "Vault.jar",
+          hash: "abc",
+        },
+      },
+    };
+    await writeLockfileText(JSON.stringify(lockfile));
+
+    assert.deepEqual(await readLockfile(server), lockfile);
+  });
+
+  it("reports a YAML syntax error or a wrong shape as an invalid lockfile", async () => {
+    for (const content of [
+      "lockfileVersion: 1\nplugins: {Vault: [\n",
+      "lockfileVersion: 2\nplugins: {}\n",
+      "just text\n",
+    ]) {
+      await writeLockfileText(content);
+
+      await assert.rejects(
+        readLockfile(server),
+        (error) =>
+          error instanceof ManifestError && error.code === "INVALID_LOCKFILE"
+      );
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+
+/** 路由的响应，对象会序列化为 JSON，Buffer 原样返回 */
+export type MockResponse = object | Buffer;
+
+export interface MockServer {
+  /** 服务器的根地址，例如 http://127.0.0.1:12345 */
+  url: string;
+  /** 收到的请求路径（包含查询参数），按顺序排列 */
+  requests: string[];
+  /** 设置或替换一个路由 */
+  route(pathname: string, response: MockResponse): void;
+  close(): Promise<void>;
+}
+
+/**
+ * 在随机端口上启动一个模拟的远程仓库
+ * 路由按完整路径（包含查询参数）匹配，没有匹配的路由时返回 404
+ * @param routes 初始路由
+ */
+export async function startMockServer(
+  routes: { [pathname: string]: MockResponse } = {}
+): Promise<MockServer> {
+  const table = new Map(Object.entries(routes));
+  const requests: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const pathname = req.url ?? "/";
+    requests.push(pathname);
+    const response = table.get(pathname);
+    if (response === undefined) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "not_found" }));
+    } else if (Buffer.isBuffer(response)) {
+      res.writeHead(200, { "Content-Type": "application/java-archive" });
+      res.end(response);
+    } else {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response));
+    }
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    route(pathname, response) {
+      table.set(pathname, response);
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
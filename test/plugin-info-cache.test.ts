@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  closeStorage,
+  createStorageFromConfig,
+  setStorage,
+} from "../src/db/db";
+import { getJarInfoWithCache } from "../src/handlers/jar/plugin-info-cache";
+import { writeBukkitJar } from "./jars";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tmp-cache-"));
+  setStorage(await createStorageFromConfig({ driver: "memory" }));
+});
+afterEach(async () => {
+  await closeStorage();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function sha256(file: string): Promise<string> {
+  return crypto
+    .createHash("sha256")
+    .update(await fs.readFile(file))
+    .digest("hex");
+}
+
+describe("getJarInfoWithCache", () => {
+  it("parses many jars at once in worker threads", async () => {
+    const jars = Array.from({ length: 12 }, (_, i) => {
+      const jar = path.join(dir, `P${i}.jar`);
+      writeBukkitJar(jar, `P${i}`, `1.0.${i}`);
+      return jar;
+    });
+
+    const results = await Promise.all(jars.map(getJarInfoWithCache));
+
+    for (const [i, { hash, info }] of results.entries()) {
+      assert.equal(hash, await sha256(jars[i]));
+      assert.deepEqual(
+        info.map((plugin) => [plugin.name, plugin.version]),
+        [[`P${i}`, `1.0.${i}`]]
+      );
+    }
+  });
+
+  it("gives a corrupt jar no plugin info", async () => {
+    const jar = path.join(dir, "broken.jar");
+    await fs.writeFile(jar, "not a zip");
+
+    const { hash, info } = await getJarInfoWithCache(jar);
+
+    assert.equal(hash, await sha256(jar));
+    assert.deepEqual(info, []);
+  });
+
+  it("parses a jar again after its content changes", async () => {
+    const jar = path.join(dir, "Vault.jar");
+    writeBukkitJar(jar, "Vault", "1.7.3");
+    await getJarInfoWithCache(jar);
+
+    // 版本号长度不同，文件大小一定会变化
+    writeBukkitJar(jar, "Vault", "1.7.10");
+    const { hash, info } = await getJarInfoWithCache(jar);
+
+    assert.equal(hash, await sha256(jar));
+    assert.equal(info[0].version, "1.7.10");
+  });
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import {
+  closeStorage,
+  createStorageFromConfig,
+  setStorage,
+} from "../src/db/db";
+import { NotAPluginError, PluginNotFoundError } from "../src/errors";
+import { addLibrary } from "../src/handlers/library/manager";
+import {
+  disablePlugins,
+  installFromLibrary,
+  installOrUpdatePlugin,
+  listPlugins,
+} from "../src/handlers/server/pluginManager";
+import { addServer } from "../src/handlers/server/serverManager";
+import { SupportedPlatform } from "../src/types/supported-platform";
+import { writeBukkitJar, writeLibraryJar } from "./jars";
+
+let dir: string;
+let library: string;
+let plugins: string;
+let advisories: string | undefined;
+
+before(() => {
+  // 不读取用户的安全公告数据库
+  advisories = process.env.TMP_ADVISORIES;
+  process.env.TMP_ADVISORIES = "";
+});
+after(() => {
+  if (advisories === undefined) delete process.env.TMP_ADVISORIES;
+  else process.env.TMP_ADVISORIES = advisories;
+});
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tmp-plugins-"));
+  setStorage(await createStorageFromConfig({ driver: "memory" }));
+
+  library = path.join(dir, "library");
+  writeBukkitJar(path.join(library, "Vault.jar"), "Vault", "1.7.3");
+  writeBukkitJar(
+    path.join(library, "Essentials.jar"),
+    "Essentials",
+    "2.20.1",
+    "depend: [Vault]\n"
+  );
+  await addLibrary("lib", library);
+
+  plugins = path.join(dir, "server", "plugins");
+  await fs.mkdir(plugins, { recursive: true });
+  await addServer(
+    "s1",
+    path.join(dir, "server"),
+    SupportedPlatform.Paper,
+    "1.20.4"
+  );
+});
+afterEach(async () => {
+  await closeStorage();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("installFromLibrary", () => {
+  it("installs the plugin after its dependencies", async () => {
+    const { installed } = await installFromLibrary("s1", {
+      name: "Essentials",
+      latest: true,
+    });
+
+    assert.deepEqual(
+      installed.map((plugin) => plugin.info.name),
+      ["Vault", "Essentials"]
+    );
+    assert.deepEqual((await fs.readdir(plugins)).sort(), [
+      "Essentials.jar",
+      "Vault.jar",
+    ]);
+  });
+
+  it("ignores jars without a plugin descriptor in plugins/", async () => {
+    writeLibraryJar(path.join(plugins, "commons-lang3.jar"));
+
+    const { installed } = await installFromLibrary("s1", {
+      name: "Essentials",
+      latest: true,
+    });
+
+    assert.deepEqual(
+      installed.map((plugin) => plugin.info.name),
+      ["Vault", "Essentials"]
+    );
+    assert.deepEqual((await fs.readdir(plugins)).sort(), [
+      "Essentials.jar",
+      "Vault.jar",
+      "commons-lang3.jar",
+    ]);
+  });
+});
+
+describe("jars without a plugin descriptor", () => {
+  beforeEach(() => {
+    writeLibraryJar(path.join(plugins, "commons-lang3.jar"));
+    writeBukkitJar(path.join(plugins, "Vault.jar"), "Vault", "1.7.3");
+  });
+
+  it("are listed without plugin info", async () => {
+    const listed = (await listPlugins("s1")).sort((a, b) =>
+      a.jarPath.localeCompare(b.jarPath)
+    );
+
+    assert.deepEqual(
+      listed.map((plugin) => [
+        path.basename(plugin.jarPath),
+        plugin.info?.name,
+      ]),
+      [
+        ["commons-lang3.jar", undefined],
+        ["Vault.jar", "Vault"],
+      ]
+    );
+  });
+
+  it("are not matched by plugin name", async () => {
+    await assert.rejects(
+      disablePlugins("s1", ["commons-lang3"]),
+      PluginNotFoundError
+    );
+    assert.deepEqual(
+      (await disablePlugins("s1", ["Vault"])).map((plugin) => plugin.enabled),
+      [false]
+    );
+  });
+
+  it("cannot be installed as plugins", async () => {
+    const jar = path.join(dir, "guava.jar");
+    writeLibraryJar(jar);
+
+    await assert.rejects(installOrUpdatePlugin("s1", jar), NotAPluginError);
+    assert.ok(!(await fs.readdir(plugins)).includes("guava.jar"));
+  });
+});
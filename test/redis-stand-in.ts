@@ -0,0 +1,127 @@
+import net, { AddressInfo } from "node:net";
+
+export interface RedisStandIn {
+  /** 连接地址，例如 redis://127.0.0.1:12345 */
+  url: string;
+  /** 保存的数据，键包含命名空间前缀 */
+  data: Map<string, string>;
+  close(): Promise<void>;
+}
+
+/**
+ * 启动一个只实现 unstorage redis 驱动所需命令的 Redis 替身
+ * 支持 GET、SET、EXISTS、DEL、KEYS，以及 ioredis 连接时发送的 INFO；
+ * 数据只保存在内存中，不支持过期时间
+ */
+export async function startRedisStandIn(): Promise<RedisStandIn> {
+  const data = new Map<string, string>();
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    let buffer = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed: { args: string[]; rest: Buffer } | null;
+      while ((parsed = parseCommand(buffer))) {
+        buffer = parsed.rest;
+        socket.write(execute(data, parsed.args));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    data,
+    close() {
+      for (const socket of sockets) socket.destroy();
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
+
+function execute(data: Map<string, string>, args: string[]): string {
+  const [command, ...params] = args;
+  switch (command.toUpperCase()) {
+    case "INFO":
+      return bulk("# Server\r\nredis_version:7.0.0\r\nloading:0\r\n");
+    case "GET":
+      return bulk(data.get(params[0]) ?? null);
+    case "SET":
+      data.set(params[0], params[1]);
+      return "+OK\r\n";
+    case "EXISTS":
+      return integer(params.filter((key) => data.has(key)).length);
+    case "DEL":
+      return integer(params.filter((key) => data.delete(key)).length);
+    case "KEYS": {
+      const pattern = patternToRegExp(params[0]);
+      const keys = [...data.keys()].filter((key) => pattern.test(key));
+      return `*${keys.length}\r\n${keys.map((key) => bulk(key)).join("")}`;
+    }
+    default:
+      return `-ERR unknown command '${command}'\r\n`;
+  }
+}
+
+/**
+ * 解析一条 RESP 命令（由批量字符串组成的数组）
+ * @returns 命令参数及剩余的数据，数据不完整时返回 null
+ */
+function parseCommand(buffer: Buffer): { args: string[]; rest: Buffer } | null {
+  let offset = 0;
+  const readLine = (): string | null => {
+    const end = buffer.indexOf("\r\n", offset);
+    if (end === -1) return null;
+    const line = buffer.toString("utf-8", offset, end);
+    offset = end + 2;
+    return line;
+  };
+
+  const header = readLine();
+  if (header === null) return null;
+  const count = Number(header.slice(1));
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = readLine();
+    if (length === null) return null;
+    const size = Number(length.slice(1));
+    if (buffer.length < offset + size + 2) return null;
+    args.push(buffer.toString("utf-8", offset, offset + size));
+    offset += size + 2;
+  }
+  return { args, rest: buffer.subarray(offset) };
+}
+
+function bulk(value: string | null): string {
+  if (value === null) return "$-1\r\n";
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+function integer(value: number): string {
+  return `:${value}\r\n`;
+}
+
+/** Redis 的 KEYS 模式，只支持 * 与 ? */
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+        ? "."
+        : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,328 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { HashMismatchError, RemoteRequestError } from "../src/errors";
+import { fetchJson } from "../src/handlers/remote/adapter";
+import { createHangarAdapter } from "../src/handlers/remote/hangar";
+import { createModrinthAdapter } from "../src/handlers/remote/modrinth";
+import {
+  detectAdapter,
+  syncRemoteLibrary,
+} from "../src/handlers/remote/remote-library";
+import { RemoteLibrary } from "../src/types/library";
+import { MockServer, startMockServer } from "./mock-server";
+
+function sha(algorithm: string, content: Buffer): string {
+  return crypto.createHash(algorithm).update(content).digest("hex");
+}
+
+/** 一个 Modrinth 版本，文件内容由版本号生成 */
+function modrinthVersion(
+  server: MockServer,
+  version: string,
+  publishedAt: string,
+  loaders: string[] = ["paper"]
+) {
+  const content = Buffer.from(`jar ${version}`);
+  const filename = `Example-${version}.jar`;
+  server.route(`/files/${filename}`, content);
+  return {
+    version_number: version,
+    date_published: publishedAt,
+    loaders,
+    files: [
+      {
+        filename,
+        url: `${server.url}/files/${filename}`,
+        primary: true,
+        hashes: { sha512: sha("sha512", content), sha1: sha("sha1", content) },
+      },
+    ],
+  };
+}
+
+/** 一个 Hangar 版本，Paper 与 Velocity 使用同一个文件 */
+function hangarVersion(index: number) {
+  const fileInfo = { name: `Example-${index}.jar`, sha256Hash: `${index}` };
+  return {
+    name: `1.0.${index}`,
+    createdAt: new Date(Date.UTC(2024, 0, 1, 0, index)).toISOString(),
+    downloads: {
+      PAPER: { fileInfo, downloadUrl: `/files/${index}/PAPER` },
+      VELOCITY: { fileInfo, downloadUrl: `/files/${index}/VELOCITY` },
+      WATERFALL: {
+        fileInfo: null,
+        externalUrl: "https://example.com/Example.jar",
+        downloadUrl: null,
+      },
+    },
+  };
+}
+
+describe("remote adapters", () => {
+  let server: MockServer;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+  after(() => server.close());
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  it("detects the adapter from the url", () => {
+    assert.equal(detectAdapter("https://hangar.papermc.io/api/v1"), "hangar");
+    assert.equal(detectAdapter("https://api.modrinth.com/v2"), "modrinth");
+  });
+
+  it("reports failed requests with their status", async () => {
+    await assert.rejects(fetchJson(`${server.url}/missing`), (error) => {
+      assert.ok(error instanceof RemoteRequestError);
+      assert.equal(error.code, "REMOTE_REQUEST_FAILED");
+      assert.deepEqual(error.details, {
+        url: `${server.url}/missing`,
+        status: 404,
+      });
+      return true;
+    });
+  });
+
+  describe("modrinth", () => {
+    it("skips versions built only for mod loaders", async () => {
+      server.route("/v2/project/example/version", [
+        modrinthVersion(server, "1.0.0", "2024-01-01T00:00:00Z"),
+        modrinthVersion(server, "1.1.0-fabric", "2024-03-01T00:00:00Z", [
+          "fabric",
+          "quilt",
+        ]),
+        modrinthVersion(server, "1.1.0", "2024-02-01T00:00:00Z", [
+          "forge",
+          "velocity",
+        ]),
+        modrinthVersion(server, "0.9.0", "2023-12-01T00:00:00Z", []),
+      ]);
+
+      const adapter = createModrinthAdapter(`${server.url}/v2/`);
+      const versions = await adapter.listVersions("example", 10);
+
+      assert.deepEqual(server.requests, ["/v2/project/example/version"]);
+      assert.deepEqual(
+        versions.map((version) => version.version),
+        ["1.1.0", "1.0.0", "0.9.0"]
+      );
+      assert.equal(versions[0].files.length, 1);
+      assert.equal(versions[0].files[0].fileName, "Example-1.1.0.jar");
+      assert.ok(versions[0].files[0].hashes.sha512);
+    });
+
+    it("uses the primary file and keeps the newest versions", async () => {
+      const version = modrinthVersion(server, "2.0.0", "2024-05-01T00:00:00Z");
+      version.files.unshift({
+        ...version.files[0],
+        filename: "Example-2.0.0-sources.jar",
+        primary: false,
+      });
+      server.route("/v2/project/primary/version", [
+        modrinthVersion(server, "1.0.0", "2024-01-01T00:00:00Z"),
+        version,
+      ]);
+
+      const adapter = createModrinthAdapter(`${server.url}/v2`);
+      const versions = await adapter.listVersions("primary", 1);
+
+      assert.equal(versions.length, 1);
+      assert.equal(versions[0].version, "2.0.0");
+      assert.equal(versions[0].files[0].fileName, "Example-2.0.0.jar");
+    });
+  });
+
+  describe("hangar", () => {
+    before(() => {
+      // Hangar 从新到旧返回版本
+      const versions = Array.from({ length: 30 }, (_, i) =>
+        hangarVersion(29 - i)
+      );
+      const base = "/api/v1/projects/Example/versions?limit=25";
+      server.route(`${base}&offset=0`, {
+        pagination: { count: 30, limit: 25, offset: 0 },
+        result: versions.slice(0, 25),
+      });
+      server.route(`${base}&offset=25`, {
+        pagination: { count: 30, limit: 25, offset: 25 },
+        result: versions.slice(25),
+      });
+    });
+
+    it("follows pagination until the limit is reached", async () => {
+      const adapter = createHangarAdapter(`${server.url}/api/v1`);
+      const versions = await adapter.listVersions("Example", 28);
+
+      assert.deepEqual(server.requests, [
+        "/api/v1/projects/Example/versions?limit=25&offset=0",
+        "/api/v1/projects/Example/versions?limit=25&offset=25",
+      ]);
+      assert.equal(versions.length, 28);
+      assert.equal(versions[0].version, "1.0.29");
+      assert.equal(versions[27].version, "1.0.2");
+    });
+
+    it("stops after the last page", async () => {
+      const adapter = createHangarAdapter(`${server.url}/api/v1`);
+      const versions = await adapter.listVersions("Example", 100);
+
+      assert.equal(server.requests.length, 2);
+      assert.equal(versions.length, 30);
+    });
+
+    it("does not request more pages than needed", async () => {
+      const adapter = createHangarAdapter(`${server.url}/api/v1`);
+      await adapter.listVersions("Example", 5);
+
+      assert.equal(server.requests.length, 1);
+    });
+
+    it("lists a file shared by several platforms once", async () => {
+      const adapter = createHangarAdapter(`${server.url}/api/v1`);
+      const [version] = await adapter.listVersions("Example", 1);
+
+      assert.deepEqual(version.files, [
+        {
+          fileName: "Example-29.jar",
+          downloadUrl: `${server.url}/files/29/PAPER`,
+          hashes: { sha256: "29" },
+        },
+      ]);
+    });
+  });
+});
+
+describe("syncRemoteLibrary", () => {
+  let server: MockServer;
+  let dir: string;
+  let versions: object[];
+
+  function library(projects = ["example"], maxVersions = 2): RemoteLibrary {
+    return {
+      id: "remote",
+      path: dir,
+      plugins: [],
+      remote: {
+        adapter: "modrinth",
+        url: `${server.url}/v2`,
+        projects,
+        maxVersions,
+      },
+    };
+  }
+
+  before(async () => {
+    server = await startMockServer();
+  });
+  after(() => server.close());
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "tmp-remote-"));
+    versions = [
+      modrinthVersion(server, "1.0.0", "2024-01-01T00:00:00Z"),
+      modrinthVersion(server, "1.1.0", "2024-02-01T00:00:00Z"),
+    ];
+    server.route("/v2/project/example/version", versions);
+    server.route("/v2/project/other/version", [
+      modrinthVersion(server, "other", "2024-01-01T00:00:00Z"),
+    ]);
+  });
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it("downloads the newest versions and verifies them", async () => {
+    const result = await syncRemoteLibrary(library());
+
+    assert.deepEqual(result.downloaded.sort(), [
+      "Example-1.0.0.jar",
+      "Example-1.1.0.jar",
+    ]);
+    assert.deepEqual(result.removed, []);
+    assert.equal(
+      await fs.readFile(path.join(dir, "Example-1.1.0.jar"), "utf-8"),
+      "jar 1.1.0"
+    );
+  });
+
+  it("does not download cached files again", async () => {
+    await syncRemoteLibrary(library());
+    server.requests.length = 0;
+
+    const result = await syncRemoteLibrary(library());
+
+    assert.deepEqual(result, { downloaded: [], removed: [] });
+    assert.deepEqual(server.requests, ["/v2/project/example/version"]);
+  });
+
+  it("prunes versions that fall out of maxVersions", async () => {
+    await syncRemoteLibrary(library());
+    versions.push(modrinthVersion(server, "1.2.0", "2024-03-01T00:00:00Z"));
+
+    const result = await syncRemoteLibrary(library());
+
+    assert.deepEqual(result.downloaded, ["Example-1.2.0.jar"]);
+    assert.deepEqual(result.removed, ["Example-1.0.0.jar"]);
+    assert.deepEqual((await fs.readdir(dir)).sort(), [
+      ".tmp-remote.json",
+      "Example-1.1.0.jar",
+      "Example-1.2.0.jar",
+    ]);
+  });
+
+  it("prunes projects that are no longer tracked", async () => {
+    await syncRemoteLibrary(library(["example", "other"]));
+    const result = await syncRemoteLibrary(library(["other"]));
+
+    assert.deepEqual(result.removed.sort(), [
+      "Example-1.0.0.jar",
+      "Example-1.1.0.jar",
+    ]);
+    assert.ok(
+      (await fs.readdir(dir)).includes("Example-other.jar"),
+      "the tracked project is kept"
+    );
+  });
+
+  it("keeps files it did not download", async () => {
+    await fs.writeFile(path.join(dir, "Manual.jar"), "manual");
+    await syncRemoteLibrary(library());
+    await syncRemoteLibrary(library([]));
+
+    assert.deepEqual((await fs.readdir(dir)).sort(), [
+      ".tmp-remote.json",
+      "Manual.jar",
+    ]);
+  });
+
+  it("downloads a cached file again when it was modified", async () => {
+    await syncRemoteLibrary(library());
+    await fs.writeFile(path.join(dir, "Example-1.0.0.jar"), "tampered");
+
+    const result = await syncRemoteLibrary(library());
+
+    assert.deepEqual(result.downloaded, ["Example-1.0.0.jar"]);
+    assert.equal(
+      await fs.readFile(path.join(dir, "Example-1.0.0.jar"), "utf-8"),
+      "jar 1.0.0"
+    );
+  });
+
+  it("rejects a download that does not match its published hash", async () => {
+    server.route("/files/Example-1.1.0.jar", Buffer.from("corrupted"));
+
+    await assert.rejects(syncRemoteLibrary(library()), (error) => {
+      assert.ok(error instanceof HashMismatchError);
+      assert.equal(error.code, "HASH_MISMATCH");
+      assert.equal(error.url, `${server.url}/files/Example-1.1.0.jar`);
+      return true;
+    });
+    const files = await fs.readdir(dir);
+    assert.ok(!files.includes("Example-1.1.0.jar"));
+    assert.ok(!files.some((file) => file.endsWith(".part")));
+  });
+});
@@ -0,0 +1,370 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { Storage } from "unstorage";
+import {
+  closeStorage,
+  createStorageFromConfig,
+  getStorage,
+  setStorage,
+} from "../src/db/db";
+import {
+  libraryKey,
+  libraryPluginKey,
+  libraryPluginsBase,
+  pluginInfoKey,
+  serverGroupKey,
+  serverKey,
+} from "../src/db/keys";
+import { migrateLegacyKeys } from "../src/db/migrate";
+import { ServerNotFoundError } from "../src/errors";
+import {
+  addLibrary,
+  getAllLibraries,
+  getLibrary,
+  removeLibrary,
+  updateLibraryIndex,
+} from "../src/handlers/library/manager";
+import { addGroup, getGroup } from "../src/handlers/server/groupManager";
+import {
+  addServer,
+  getAllServers,
+  getServer,
+  removeServer,
+  updateServer,
+} from "../src/handlers/server/serverManager";
+import { Libraries, PluginEntry } from "../src/types/library";
+import { ServerList } from "../src/types/server";
+import { SupportedPlatform } from "../src/types/supported-platform";
+import { writeBukkitJar } from "./jars";
+import { RedisStandIn, startRedisStandIn } from "./redis-stand-in";
+
+function plugin(name: string, jarPath: string): PluginEntry {
+  return {
+    info: {
+      name,
+      version: "1.0.0",
+      authors: [],
+      depend: [],
+      loadbefore: [],
+      softdepend: [],
+      platform: [SupportedPlatform.Bukkit],
+    },
+    hash: `hash-${name}`,
+    jarPath,
+    source: { library: "lib", path: path.basename(jarPath) },
+  };
+}
+
+function restoreEnv(name: string, value: string | undefined): void {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+}
+
+async function sortedKeys(storage: Storage): Promise<string[]> {
+  return (await storage.getKeys()).sort();
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tmp-storage-"));
+});
+afterEach(async () => {
+  await closeStorage();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("storage keys", () => {
+  it("encodes ids so they cannot reach into another entry", () => {
+    assert.equal(libraryKey("a:b"), "tmp:library:a%3Ab");
+    assert.equal(serverKey("lobby/1"), "tmp:server:lobby%2F1");
+    assert.equal(
+      serverGroupKey("network/lobby"),
+      "tmp:server-group:network%2Flobby"
+    );
+  });
+
+  it("stores each jar of a library under the library's plugin base", () => {
+    const key = libraryPluginKey("lib", "/plugins/A.jar");
+    assert.ok(key.startsWith(`${libraryPluginsBase("lib")}:`));
+    assert.match(
+      key.slice(libraryPluginsBase("lib").length + 1),
+      /^[0-9a-f]{40}$/
+    );
+    assert.notEqual(key, libraryPluginKey("lib", "/plugins/B.jar"));
+  });
+});
+
+describe("managers on the memory driver", () => {
+  let storage: Storage;
+
+  beforeEach(async () => {
+    storage = await createStorageFromConfig({ driver: "memory" });
+    setStorage(storage);
+  });
+
+  it("stores each server under its own key", async () => {
+    await addServer("lobby", dir, SupportedPlatform.Paper, "1.20.4");
+    await addServer("proxy", dir, SupportedPlatform.Velocity);
+
+    assert.deepEqual(await sortedKeys(storage), [
+      serverKey("lobby"),
+      serverKey("proxy"),
+    ]);
+    assert.deepEqual(await storage.getItem(serverKey("lobby")), {
+      id: "lobby",
+      platform: SupportedPlatform.Paper,
+      path: dir,
+      gameVersion: "1.20.4",
+    });
+
+    await updateServer("proxy", { variables: { motd: "hi" } });
+    assert.deepEqual((await getServer("proxy")).variables, { motd: "hi" });
+    assert.deepEqual(Object.keys(await getAllServers()).sort(), [
+      "lobby",
+      "proxy",
+    ]);
+  });
+
+  it("removes a server from its groups", async () => {
+    await addServer("lobby", dir, SupportedPlatform.Paper, "1.20.4");
+    await addServer("survival", dir, SupportedPlatform.Paper, "1.20.4");
+    await addGroup("network", ["lobby", "survival"]);
+
+    await removeServer("lobby");
+
+    assert.equal(await storage.hasItem(serverKey("lobby")), false);
+    assert.deepEqual((await getGroup("network")).members, ["survival"]);
+    await assert.rejects(getServer("lobby"), ServerNotFoundError);
+  });
+
+  it("indexes a library into one key per jar", async () => {
+    const jarA = path.join(dir, "A.jar");
+    const jarB = path.join(dir, "B.jar");
+    writeBukkitJar(jarA, "Alpha", "1.0.0");
+    writeBukkitJar(jarB, "Beta", "2.0.0");
+
+    const library = await addLibrary("lib", dir);
+
+    assert.deepEqual(
+      library.plugins.map((plugin) => plugin.info.name),
+      ["Alpha", "Beta"]
+    );
+    assert.deepEqual(
+      await sortedKeys(storage),
+      [
+        libraryKey("lib"),
+        libraryPluginKey("lib", jarA),
+        libraryPluginKey("lib", jarB),
+        pluginInfoKey(jarA),
+        pluginInfoKey(jarB),
+      ].sort()
+    );
+    assert.deepEqual(await storage.getItem(libraryKey("lib")), {
+      id: "lib",
+      path: dir,
+    });
+
+    await fs.rm(jarB);
+    await updateLibraryIndex("lib");
+    assert.equal(
+      await storage.hasItem(libraryPluginKey("lib", jarB)),
+      false,
+      "the key of a deleted jar is removed"
+    );
+    assert.deepEqual(
+      (await getLibrary("lib")).plugins.map((plugin) => plugin.info.name),
+      ["Alpha"]
+    );
+  });
+
+  it("keeps libraries whose ids share a prefix apart", async () => {
+    const other = path.join(dir, "other");
+    await fs.mkdir(other);
+    writeBukkitJar(path.join(dir, "A.jar"), "Alpha", "1.0.0");
+    writeBukkitJar(path.join(other, "B.jar"), "Beta", "1.0.0");
+    await addLibrary("team", dir, { maxDepth: 0 });
+    await addLibrary("team:other", other);
+
+    await removeLibrary("team");
+
+    assert.deepEqual(Object.keys(await getAllLibraries()), ["team:other"]);
+    assert.deepEqual(
+      (await getLibrary("team:other")).plugins.map(
+        (plugin) => plugin.info.name
+      ),
+      ["Beta"]
+    );
+    assert.deepEqual(await storage.getKeys(libraryPluginsBase("team")), []);
+  });
+});
+
+describe("legacy migration", () => {
+  const jarA = "/libs/A.jar";
+  const jarB = "/libs/B.jar";
+  const libraries: Libraries = {
+    lib: {
+      id: "lib",
+      path: "/libs",
+      // A.jar 包含两个插件
+      plugins: [
+        plugin("Alpha", jarA),
+        plugin("AlphaAddon", jarA),
+        plugin("Beta", jarB),
+      ],
+    },
+  };
+  const servers: ServerList = {
+    lobby: {
+      id: "lobby",
+      platform: SupportedPlatform.Paper,
+      path: "/srv/lobby",
+      gameVersion: "1.20.4",
+    },
+    proxy: {
+      id: "proxy",
+      platform: SupportedPlatform.Velocity,
+      path: "/srv/proxy",
+    },
+  };
+
+  async function seed(storage: Storage): Promise<void> {
+    await storage.setItem("tmp:plugin:libraries", libraries);
+    await storage.setItem("tmp:servers", servers);
+    await storage.setItem("tmp:plugin:info-cache", { [jarA]: {} });
+  }
+
+  it("splits the old blobs into one key per entry", async () => {
+    const storage = await createStorageFromConfig({ driver: "memory" });
+    await seed(storage);
+
+    await migrateLegacyKeys(storage);
+
+    assert.deepEqual(
+      await sortedKeys(storage),
+      [
+        libraryKey("lib"),
+        libraryPluginKey("lib", jarA),
+        libraryPluginKey("lib", jarB),
+        serverKey("lobby"),
+        serverKey("proxy"),
+      ].sort()
+    );
+    assert.deepEqual(await storage.getItem(libraryKey("lib")), {
+      id: "lib",
+      path: "/libs",
+    });
+    assert.deepEqual(
+      await storage.getItem(libraryPluginKey("lib", jarA)),
+      libraries.lib.plugins.slice(0, 2)
+    );
+    assert.deepEqual(await storage.getItem(serverKey("lobby")), servers.lobby);
+
+    setStorage(storage);
+    assert.deepEqual(await getAllServers(), servers);
+    assert.deepEqual(await getLibrary("lib"), libraries.lib);
+  });
+
+  it("does nothing once the old blobs are gone", async () => {
+    const storage = await createStorageFromConfig({ driver: "memory" });
+    await seed(storage);
+    await migrateLegacyKeys(storage);
+    await storage.setItem(serverKey("lobby"), {
+      ...servers.lobby,
+      gameVersion: "1.21",
+    });
+
+    await migrateLegacyKeys(storage);
+
+    assert.equal(
+      (await storage.getItem<any>(serverKey("lobby"))).gameVersion,
+      "1.21"
+    );
+  });
+
+  it("migrates when the configured storage is first opened", async () => {
+    const seeded = await createStorageFromConfig({ driver: "fs", path: dir });
+    await seed(seeded);
+    await seeded.dispose();
+
+    const { TMP_STORAGE, TMP_STORAGE_PATH } = process.env;
+    process.env.TMP_STORAGE = "fs";
+    process.env.TMP_STORAGE_PATH = dir;
+    try {
+      setStorage(null);
+      assert.deepEqual(await getAllServers(), servers);
+      assert.deepEqual(
+        (await getLibrary("lib")).plugins.map((plugin) => plugin.info.name),
+        ["Alpha", "AlphaAddon", "Beta"]
+      );
+      const storage = await getStorage();
+      assert.equal(await storage.hasItem("tmp:servers"), false);
+      assert.equal(await storage.hasItem("tmp:plugin:libraries"), false);
+      assert.equal(await storage.hasItem("tmp:plugin:info-cache"), false);
+    } finally {
+      restoreEnv("TMP_STORAGE", TMP_STORAGE);
+      restoreEnv("TMP_STORAGE_PATH", TMP_STORAGE_PATH);
+    }
+  });
+});
+
+describe("redis driver", () => {
+  let redis: RedisStandIn;
+
+  before(async () => {
+    redis = await startRedisStandIn();
+  });
+  after(() => redis.close());
+  beforeEach(() => {
+    redis.data.clear();
+  });
+
+  it("keeps namespaces apart in the same redis", async () => {
+    const teamA = await createStorageFromConfig({
+      driver: "redis",
+      url: redis.url,
+      namespace: "team-a",
+    });
+    const teamB = await createStorageFromConfig({
+      driver: "redis",
+      url: redis.url,
+      namespace: "team-b",
+    });
+
+    setStorage(teamA);
+    await addServer("lobby", dir, SupportedPlatform.Paper, "1.20.4");
+    assert.deepEqual([...redis.data.keys()], [`team-a:${serverKey("lobby")}`]);
+
+    setStorage(teamB);
+    assert.deepEqual(await getAllServers(), {});
+
+    setStorage(teamA);
+    assert.deepEqual(Object.keys(await getAllServers()), ["lobby"]);
+    await removeServer("lobby");
+    assert.equal(redis.data.size, 0);
+
+    await teamB.dispose();
+  });
+
+  it("migrates the old blobs", async () => {
+    const storage = await createStorageFromConfig({
+      driver: "redis",
+      url: redis.url,
+    });
+    redis.data.set(
+      "tmp:servers",
+      JSON.stringify({
+        lobby: { id: "lobby", platform: "Paper", path: "/srv/lobby" },
+      })
+    );
+    setStorage(storage);
+
+    await migrateLegacyKeys(storage);
+
+    assert.deepEqual([...redis.data.keys()], [serverKey("lobby")]);
+    assert.equal((await getServer("lobby")).path, "/srv/lobby");
+  });
+});
@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { InvalidVersionConstraintError } from "../src/errors";
+import { satisfiesVersion } from "../src/handlers/library/version-range";
+
+describe("satisfiesVersion", () => {
+  it("matches npm style ranges", () => {
+    assert.equal(satisfiesVersion("2.3.1", "^2.3"), true);
+    assert.equal(satisfiesVersion("3.0.0", "^2.3"), false);
+    assert.equal(satisfiesVersion("4.2", ">=4 <5"), true);
+    assert.equal(satisfiesVersion("2.0.1", ">=2 <3 !=2.0.1"), false);
+  });
+
+  it("accepts a space between the operator and the version", () => {
+    assert.equal(satisfiesVersion("4.2", ">= 4"), true);
+    assert.equal(satisfiesVersion("3.9", ">= 4"), false);
+    assert.equal(satisfiesVersion("4.2", ">= 4 < 5"), true);
+    assert.equal(satisfiesVersion("2.0.1", ">= 2 != 2.0.1"), false);
+  });
+
+  it("rejects an operator without a version", () => {
+    assert.throws(
+      () => satisfiesVersion("4.2", ">= 4 <"),
+      InvalidVersionConstraintError
+    );
+  });
+});